@@ -1,105 +1,304 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { FileUpload } from './components/FileUpload';
+import { FileQueue } from './components/FileQueue';
 import { ResultsTable } from './components/ResultsTable';
-import { McqData, ProcessingStatus, AppLanguage, DocType } from './types';
-import { processPdfToImages, processDocxToHtml, detectFileType } from './services/documentProcessor';
-import { analyzeDocumentContent } from './services/geminiService';
-import { Loader2, Zap, LayoutTemplate, Globe, FileCheck, AlertCircle, StopCircle } from 'lucide-react';
+import { SessionList } from './components/SessionList';
+import { QuestionBank } from './components/QuestionBank';
+import { ChunkMap } from './components/ChunkMap';
+import { McqData, ExtractionResult, ProcessingStatus, AppLanguage, ProviderConfig, ProviderKind, PdfPage, PdfProcessingMode, QueueItem, QuestionType, ChunkReport, DocType, ImagePreprocessing } from './types';
+import { analyzeDocumentContent, ChunkExtraction } from './services/extractionService';
+import { createProvider, DEFAULT_PROVIDER_CONFIGS, ExtractionProvider } from './services/extractionProvider';
+import { PreparedDocument, PreparedGroup, prepareDocument, tagSourceFile, tagSourceRange, groupSourceRange, chunkArray, combineChunkExtractions, isChunkDone, isFromGroup, createPassageRelay } from './services/extractionPipeline';
+import { FixtureSet, createRecordingProvider } from './services/fixtureService';
+import { downloadFile } from './services/exportService';
+import { mergeExtractionResults } from './services/resultMerger';
+import { isAbortError, mapWithConcurrency } from './services/concurrency';
+import { reconcileAnswerKey } from './services/answerKeyService';
+import { linkFigures } from './services/figureService';
+import { translateResults } from './services/translationService';
+import { tagQuestions } from './services/taggingService';
+import { BankQuestion, addBankQuestions, parseTags, saveToBank } from './services/questionBank';
+import { ExtractionSession, hashFile, loadSession, listSessions, restoreQueue, saveSession, storeFile, toSessionFile, withSourceIds } from './services/sessionStore';
+import { ALL_QUESTION_TYPES, QUESTION_TYPE_LABELS } from './services/questionTypes';
+import { detectFileType, sortPageFiles } from './services/documentProcessor';
+import { DEFAULT_IMAGE_PREPROCESSING } from './services/imagePreprocessor';
+import { Loader2, Zap, LayoutTemplate, Globe, FileCheck, AlertCircle, StopCircle, Cpu, ScanText, History, SlidersHorizontal, Library, Download } from 'lucide-react';
 
-const PAGES_PER_CONTEXT = 4;
 const CONCURRENT_REQUESTS = 3;
+// Quiet period before edits are written to the session store
+const AUTOSAVE_DELAY = 1000;
+const EMPTY_RESULTS: ExtractionResult = { items: [], passages: [] };
+// Optional photo clean-up steps, shown as checkboxes
+const IMAGE_CLEANUP_STEPS: { key: 'deskew' | 'crop' | 'normalizeContrast' | 'grayscale'; label: string; hint: string }[] = [
+  { key: 'deskew', label: 'Straighten', hint: 'Correct tilted photos and scans' },
+  { key: 'crop', label: 'Crop borders', hint: 'Trim the desk or scanner edge around the page' },
+  { key: 'normalizeContrast', label: 'Boost contrast', hint: 'Darken faded text; highlight colours are kept' },
+  { key: 'grayscale', label: 'Grayscale', hint: 'Also removes highlight colours, which mark correct answers' },
+];
+// Target resolutions for photos and scanned pages
+const IMAGE_SIZES = [1600, 2000, 2800];
+// File names that usually hold only an answer key
+const ANSWER_KEY_FILE_NAME = /(?:^|[^a-z])(?:answer[\s_-]*key|key|solutions?|mark(?:ing)?[\s_-]*scheme)(?:[^a-z]|$)|الإجابات|الاجابات|مفتاح/i;
 
 const App: React.FC = () => {
-  const [file, setFile] = useState<File | null>(null);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
   const [language, setLanguage] = useState<AppLanguage>(AppLanguage.AUTO);
-  const [results, setResults] = useState<McqData[]>([]);
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(DEFAULT_PROVIDER_CONFIGS[ProviderKind.GEMINI]);
+  const [fixtures, setFixtures] = useState<FixtureSet | null>(null);
+  // Responses of a live provider captured for Fixture Replay; null when not recording
+  const [recording, setRecording] = useState<FixtureSet | null>(null);
+  const [recordedCount, setRecordedCount] = useState(0);
+  const [pdfMode, setPdfMode] = useState<PdfProcessingMode>(PdfProcessingMode.HYBRID);
+  const [imagePreprocessing, setImagePreprocessing] = useState<ImagePreprocessing>(DEFAULT_IMAGE_PREPROCESSING);
+  const [questionTypes, setQuestionTypes] = useState<QuestionType[]>(ALL_QUESTION_TYPES);
+  const [results, setResults] = useState<ExtractionResult>(EMPTY_RESULTS);
   const [status, setStatus] = useState<ProcessingStatus>({ total: 0, current: 0, status: 'idle' });
+  const [sessionId, setSessionId] = useState<string>(() => crypto.randomUUID());
+  const [sessionCreatedAt, setSessionCreatedAt] = useState<number>(() => Date.now());
+  const [showSessions, setShowSessions] = useState(false);
+  const [showBank, setShowBank] = useState(false);
+  // Bumped after each save so an open bank reloads
+  const [bankRevision, setBankRevision] = useState(0);
+  // Autosave waits until the last session has been restored, so it cannot overwrite it with an empty one
+  const [sessionReady, setSessionReady] = useState(false);
+  // Progress text while the results are being translated
+  const [translationProgress, setTranslationProgress] = useState<string | undefined>();
+  // Topics the tagging pass may choose from, one "/"-separated path each
+  const [taxonomy, setTaxonomy] = useState<string[]>([]);
+  const [taggingProgress, setTaggingProgress] = useState<string | undefined>();
   
-  // Use a ref to track cancellation without re-rendering issues
+  // Use refs to track cancellation without re-rendering issues
   const abortRef = useRef<boolean>(false);
+  const cancelledFilesRef = useRef<Set<string>>(new Set());
+  // One controller per file being extracted; aborting it stops its page rendering and in-flight requests
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+  // Stop a running translation or tagging pass
+  const translationControllerRef = useRef<AbortController | null>(null);
+  const taggingControllerRef = useRef<AbortController | null>(null);
 
-  const chunkArray = (array: string[], size: number) => {
-    const result = [];
-    for (let i = 0; i < array.length; i += size) {
-      result.push(array.slice(i, i + size));
-    }
-    return result;
+  const makeProvider = (): ExtractionProvider => {
+    const provider = createProvider(providerConfig, fixtures ?? undefined);
+    if (!recording || providerConfig.kind === ProviderKind.FIXTURE) return provider;
+    return createRecordingProvider(provider, recording, () => setRecordedCount(Object.keys(recording).length));
   };
 
-  const processGroups = async (groups: string[][], mimeType: string) => {
-    let completedGroups = 0;
-    
-    for (let i = 0; i < groups.length; i += CONCURRENT_REQUESTS) {
-        if (abortRef.current) break;
+  const isCancelled = (itemId: string) => abortRef.current || cancelledFilesRef.current.has(itemId);
 
-        const batch = groups.slice(i, i + CONCURRENT_REQUESTS);
-        
-        setStatus(prev => ({ 
-            ...prev, 
-            message: `Analyzing batch ${Math.ceil((completedGroups + 1) / CONCURRENT_REQUESTS) + 1}...` 
-        }));
+  // Drops what was extracted from one queue item; other uploads with the same name keep theirs
+  const withoutSourceFile = (result: ExtractionResult, sourceId: string): ExtractionResult => ({
+    items: result.items.filter(item => item.sourceId !== sourceId),
+    passages: result.passages.filter(passage => passage.sourceId !== sourceId),
+    answerKey: (result.answerKey || []).filter(entry => entry.sourceId !== sourceId),
+    figures: (result.figures || []).filter(figure => figure.sourceId !== sourceId)
+  });
 
-        const promises = batch.map(group => analyzeDocumentContent(group, mimeType, language));
-        const batchResults = await Promise.all(promises);
+  const updateQueueItem = (itemId: string, patch: Partial<QueueItem>) => {
+    setQueue(prev => prev.map(item => item.id === itemId ? { ...item, ...patch } : item));
+  };
 
-        if (abortRef.current) break;
+  // Extracts the groups at `targets`, recording each chunk's outcome so a later run can resume or retry.
+  // With `splitSize`, each group is sent in parts of that many pages (retrying chunks that were too big).
+  // Up to CONCURRENT_REQUESTS chunks are in flight; a new one starts as soon as any finishes.
+  // Groups stream in as pages are read, so the first chunks are sent before the file is fully read.
+  const processGroups = async (item: QueueItem, provider: ExtractionProvider, groups: PreparedDocument['groups'], targets: number[], signal: AbortSignal, splitSize?: number): Promise<ChunkReport[]> => {
+    const reports = new Map<number, ChunkReport>((item.chunks || []).map(report => [report.index, report]));
+    const sortedReports = () => Array.from(reports.values()).sort((a, b) => a.index - b.index);
+    // Each group picks up the passage its predecessor ended with
+    const relay = createPassageRelay();
+
+    let running = 0;
+    let finished = 0;
+    const progressMessage = () =>
+      `${finished} of ${targets.length} chunk${targets.length === 1 ? '' : 's'} extracted${running > 0 ? ` · ${running} in progress` : ''}`;
 
-        const flatResults = batchResults.flat();
-        if (flatResults.length > 0) {
-            setResults(prev => [...prev, ...flatResults]);
+    const extractGroup = async (prepared: PreparedGroup, groupIndex: number): Promise<void> => {
+      let settled: ExtractionResult | undefined;
+      try {
+        settled = await extractTarget(prepared, groupIndex);
+      } finally {
+        relay.settle(groupIndex, settled);
+      }
+    };
+
+    // Returns the group's result, or nothing when it is not one of `targets`
+    const extractTarget = async (prepared: PreparedGroup, groupIndex: number): Promise<ExtractionResult | undefined> => {
+      const group = prepared.pages;
+      if (prepared.answerKey.length > 0) {
+        setResults(prev => mergeExtractionResults(prev, tagSourceFile({ items: [], passages: [], answerKey: prepared.answerKey }, item.id, item.file.name, item.isAnswerKey)));
+      }
+      if (!targets.includes(groupIndex)) return undefined;
+
+      const outcomes: ChunkExtraction[] = [];
+      if (item.isAnswerKey && prepared.answerKey.length > 0) {
+        // Key pages whose text already gave up the key need no AI pass
+        outcomes.push({ result: { items: [], passages: [] }, status: 'ok' });
+      } else {
+        // Split parts go one after another so a retry stays within the request limit
+        const parts = splitSize && splitSize < group.length ? chunkArray(group, splitSize) : [group];
+        const contextPassage = await relay.passageBefore(groupIndex, signal);
+        running++;
+        updateQueueItem(item.id, { message: progressMessage() });
+        try {
+          for (const part of parts) {
+            const outcome = await analyzeDocumentContent(provider, part, language, { contextPassage, questionTypes, signal });
+            const linked = linkFigures(outcome.result, part.flatMap(page => page.figures || []));
+            const range = groupSourceRange(part);
+            outcomes.push({ ...outcome, result: { ...linked, items: tagSourceRange(linked.items, range), answerKey: tagSourceRange(linked.answerKey || [], range) } });
+          }
+        } finally {
+          running--;
         }
-        
-        completedGroups += batch.length;
-        setStatus(prev => ({ ...prev, current: completedGroups }));
+      }
+      finished++;
+
+      const outcome = combineChunkExtractions(outcomes);
+      // A partial chunk being retried still has its earlier rows in the results; the new read replaces them
+      const replacesEarlier = reports.has(groupIndex) && outcome.status !== 'failed';
+      reports.set(groupIndex, {
+        index: groupIndex,
+        status: outcome.status,
+        reason: outcome.reason,
+        message: outcome.message,
+        questionCount: outcome.result.items.length,
+        source: groupSourceRange(group)
+      });
+
+      // A key file contributes only its answer key
+      const tagged = tagSourceFile({
+        items: item.isAnswerKey ? [] : outcome.result.items,
+        passages: item.isAnswerKey ? [] : outcome.result.passages,
+        answerKey: outcome.result.answerKey || [],
+        figures: item.isAnswerKey ? [] : outcome.result.figures
+      }, item.id, item.file.name, item.isAnswerKey);
+      if (replacesEarlier) {
+        setResults(prev => ({ ...prev, items: prev.items.filter(result => result.sourceId !== item.id || !isFromGroup(result.source, group)) }));
+      }
+      if (tagged.items.length > 0 || tagged.answerKey?.length) {
+        // Overlapping windows extract boundary questions and passages twice; fold them together
+        setResults(prev => mergeExtractionResults(prev, tagged));
+      }
+
+      const chunks = sortedReports();
+      updateQueueItem(item.id, { current: chunks.filter(isChunkDone).length, chunks, message: progressMessage() });
+      return outcome.result;
+    };
+
+    try {
+      await mapWithConcurrency(groups, CONCURRENT_REQUESTS, extractGroup, signal);
+    } catch (error) {
+      // Chunks still in flight when cancelled stay unreported and are picked up on resume
+      if (!isAbortError(error)) throw error;
     }
+
+    return sortedReports();
   };
 
-  const handleProcess = async () => {
-    if (!file) return;
+  // Runs the file's unfinished chunks, or with `retry` only its failed and partial ones. Returns the number of failed chunks.
+  const processFile = async (item: QueueItem, provider: ExtractionProvider, retry?: { splitSize?: number }): Promise<number> => {
+    const controller = new AbortController();
+    controllersRef.current.set(item.id, controller);
+    if (isCancelled(item.id)) controller.abort();
+    const signal = controller.signal;
 
-    abortRef.current = false;
-    setStatus({ total: 0, current: 0, status: 'analyzing' });
-    setResults([]);
+    updateQueueItem(item.id, { status: 'processing', message: 'Reading document...', pages: [] });
+    // Results of chunks that finished before an interruption are kept; a fresh run replaces the file's results
+    let chunks = item.chunks || [];
+    if (!retry && !chunks.some(isChunkDone)) {
+      chunks = [];
+      setResults(prev => withoutSourceFile(prev, item.id));
+    }
 
     try {
-      const type = detectFileType(file);
-      let contentGroups: string[][] = [];
-      let mimeType = '';
-
-      if (type === DocType.PDF) {
-        setStatus({ total: 100, current: 0, status: 'analyzing', message: 'Optimizing PDF (Parallel Processing)...' });
-        // Small delay to allow UI to update before heavy work starts
-        await new Promise(r => setTimeout(r, 100));
-        
-        const images = await processPdfToImages(file);
-        if (abortRef.current) return;
-
-        contentGroups = chunkArray(images, PAGES_PER_CONTEXT);
-        mimeType = 'image/jpeg';
-
-      } else if (type === DocType.DOCX) {
-        setStatus({ total: 100, current: 10, status: 'analyzing', message: 'Reading Word Document...' });
-        const htmlChunks = await processDocxToHtml(file);
-        contentGroups = chunkArray(htmlChunks, PAGES_PER_CONTEXT);
-        mimeType = 'text/html';
+      // Small delay to allow UI to update before heavy work starts
+      await new Promise(r => setTimeout(r, 100));
+      const onPage = (page: PdfPage) => setQueue(prev => prev.map(queued => queued.id === item.id
+        ? { ...queued, pages: [...(queued.pages || []), { pageNumber: page.pageNumber, path: page.path }] }
+        : queued));
+      const prepared = await prepareDocument(item.file, pdfMode, { signal, onPage, pageFiles: item.pageFiles, preprocessing: imagePreprocessing });
+
+      // A different chunk plan (e.g. another PDF mode) means the recorded chunks no longer line up
+      if (chunks.length > 0 && prepared.groupCount !== item.total) {
+        chunks = [];
+        setResults(prev => withoutSourceFile(prev, item.id));
       }
+      const resuming = chunks.length > 0;
 
-      if (abortRef.current) {
-         setStatus({ total: 0, current: 0, status: 'idle' });
-         return;
+      const parsedItems = item.isAnswerKey || resuming ? [] : prepared.parsedItems.filter(parsed => questionTypes.includes(parsed.questionType));
+      if (!resuming && (parsedItems.length > 0 || prepared.answerKey.length > 0)) {
+        const local = tagSourceFile({ items: parsedItems, passages: [], answerKey: prepared.answerKey, figures: prepared.figures }, item.id, item.file.name, item.isAnswerKey);
+        setResults(prev => mergeExtractionResults(prev, local));
       }
 
-      setStatus({ 
-        total: contentGroups.length, 
-        current: 0, 
-        status: 'extracting', 
-        message: 'AI Extraction in Progress...' 
+      // A key file whose text already gave up its key needs no AI pass
+      const skipGroups = item.isAnswerKey && prepared.answerKey.length > 0;
+      const groupCount = skipGroups ? 0 : prepared.groupCount;
+      const reportOf = (index: number) => chunks.find(report => report.index === index);
+      const targets = Array.from({ length: groupCount }, (_, index) => index)
+        .filter(index => (retry ? reportOf(index) && reportOf(index)!.status !== 'ok' : !isChunkDone(reportOf(index))));
+      updateQueueItem(item.id, {
+        total: groupCount,
+        current: chunks.filter(isChunkDone).length,
+        chunks,
+        message: retry
+          ? `Retrying ${targets.length} chunk${targets.length === 1 ? '' : 's'}...`
+          : resuming && targets.length > 0 ? `Resuming at chunk ${targets[0] + 1}...` : 'AI Extraction in Progress...'
       });
-      
-      await processGroups(contentGroups, mimeType);
+
+      const reports = await processGroups({ ...item, chunks }, provider, skipGroups ? [] : prepared.groups, targets, signal, retry?.splitSize);
+      // Keys can sit in this file or arrive from another one, so match against everything extracted so far
+      setResults(prev => reconcileAnswerKey(prev));
+
+      const failed = reports.filter(report => report.status === 'failed').length;
+      if (signal.aborted) {
+        updateQueueItem(item.id, { status: 'cancelled', message: 'Cancelled' });
+      } else if (failed > 0 && failed === groupCount) {
+        updateQueueItem(item.id, { status: 'error', message: `All ${failed} chunks failed` });
+      } else {
+        updateQueueItem(item.id, { status: 'complete', message: 'Extraction Complete!' });
+      }
+      return failed;
+    } catch (error: any) {
+      if (signal.aborted || isAbortError(error)) {
+        updateQueueItem(item.id, { status: 'cancelled', message: 'Cancelled' });
+        return 0;
+      }
+      console.error(error);
+      const msg = error instanceof Error ? error.message : 'Processing failed.';
+      updateQueueItem(item.id, { status: 'error', message: msg });
+      return 0;
+    } finally {
+      controllersRef.current.delete(item.id);
+    }
+  };
+
+  const runExtraction = async (items: QueueItem[], retry?: { splitSize?: number }) => {
+    if (items.length === 0) return;
+
+    abortRef.current = false;
+    cancelledFilesRef.current = new Set();
+    setStatus({ total: items.length, current: 0, status: 'analyzing' });
+
+    try {
+      const provider = makeProvider();
+      let failedChunks = 0;
+
+      for (let i = 0; i < items.length; i++) {
+        if (abortRef.current) break;
+        if (cancelledFilesRef.current.has(items[i].id)) continue;
+        setStatus({ 
+          total: items.length, 
+          current: i, 
+          status: 'extracting', 
+          message: `File ${i + 1} of ${items.length}: ${items[i].file.name}` 
+        });
+        failedChunks += await processFile(items[i], provider, retry);
+      }
 
       if (abortRef.current) {
+        setQueue(prev => prev.map(item => item.status === 'queued' ? { ...item, status: 'cancelled', message: 'Cancelled' } : item));
         setStatus({ total: 0, current: 0, status: 'idle', message: 'Cancelled' });
+      } else if (failedChunks > 0) {
+        setStatus({ total: 0, current: 0, status: 'complete', message: `Finished with ${failedChunks} failed chunk${failedChunks === 1 ? '' : 's'}.` });
       } else {
         setStatus({ total: 0, current: 0, status: 'complete', message: 'Extraction Complete!' });
       }
@@ -111,29 +310,320 @@ const App: React.FC = () => {
     }
   };
 
+  const handleProcess = () => runExtraction(queue.filter(item => item.status !== 'complete'));
+
+  const handleRetryChunks = (itemId: string, splitSize?: number) => {
+    const item = queue.find(queued => queued.id === itemId);
+    if (item) runExtraction([item], { splitSize });
+  };
+
+  const updateImagePreprocessing = (patch: Partial<ImagePreprocessing>) => {
+    setImagePreprocessing(prev => ({ ...prev, ...patch }));
+  };
+
   const handleCancel = () => {
     abortRef.current = true;
+    controllersRef.current.forEach(controller => controller.abort());
     setStatus({ total: 0, current: 0, status: 'idle', message: 'Stopping...' });
   };
 
+  const handleFilesSelect = (files: File[]) => {
+    const isQueued = (file: File) => queue.some(item => [item.file, ...(item.pageFiles || [])].some(queued =>
+      queued.name === file.name && queued.size === file.size && queued.lastModified === file.lastModified
+    ));
+    const newItem = (file: File, pageFiles?: File[]): QueueItem => ({
+      id: crypto.randomUUID(),
+      file,
+      pageFiles,
+      status: 'queued',
+      total: 0,
+      current: 0,
+      isAnswerKey: ANSWER_KEY_FILE_NAME.test(file.name.replace(/\.[^.]+$/, ''))
+    });
+    const fresh = files.filter(file => !isQueued(file));
+    // Photos picked together are the pages of one document
+    const photos = sortPageFiles(fresh.filter(file => detectFileType(file) === DocType.IMAGE));
+    const added: QueueItem[] = fresh.filter(file => detectFileType(file) !== DocType.IMAGE).map(file => newItem(file));
+    if (photos.length > 0) added.push(newItem(photos[0], photos.length > 1 ? photos : undefined));
+    setQueue(prev => [...prev, ...added]);
+
+    // Keep a copy of each file so the session can be reopened without uploading again
+    added.forEach(async item => {
+      try {
+        const hashes = await Promise.all((item.pageFiles || [item.file]).map(async file => {
+          const hash = await hashFile(file);
+          await storeFile(hash, file);
+          return hash;
+        }));
+        updateQueueItem(item.id, { hash: hashes[0], pageHashes: item.pageFiles ? hashes : undefined });
+      } catch (error) {
+        console.error('Could not store file for the session', error);
+      }
+    });
+  };
+
+  const handleCancelFile = (itemId: string) => {
+    cancelledFilesRef.current.add(itemId);
+    controllersRef.current.get(itemId)?.abort();
+    setQueue(prev => prev.map(item => {
+      if (item.id !== itemId) return item;
+      return item.status === 'queued'
+        ? { ...item, status: 'cancelled', message: 'Cancelled' }
+        : { ...item, message: 'Stopping...' };
+    }));
+  };
+
+  const handleRemoveFile = (itemId: string) => {
+    const removed = queue.find(item => item.id === itemId);
+    setQueue(prev => prev.filter(item => item.id !== itemId));
+    if (removed) setResults(prev => reconcileAnswerKey(withoutSourceFile(prev, removed.id)));
+  };
+
+  // Switching a file's role means extracting it again
+  const handleToggleAnswerKey = (itemId: string) => {
+    const toggled = queue.find(item => item.id === itemId);
+    if (!toggled) return;
+    setQueue(prev => prev.map(item =>
+      item.id === itemId
+        ? { ...item, isAnswerKey: !item.isAnswerKey, status: 'queued', total: 0, current: 0, chunks: [], message: undefined }
+        : item
+    ));
+    setResults(prev => reconcileAnswerKey(withoutSourceFile(prev, toggled.id)));
+  };
+
+  // Starts a new session; the cleared one stays in the sessions list
   const handleClear = () => {
-    setFile(null);
-    setResults([]);
+    setQueue([]);
+    setResults(EMPTY_RESULTS);
     setStatus({ total: 0, current: 0, status: 'idle' });
+    setSessionId(crypto.randomUUID());
+    setSessionCreatedAt(Date.now());
   };
 
+  const openSession = async (id: string) => {
+    const session = await loadSession(id);
+    if (!session) return;
+    setQueue(await restoreQueue(session.files));
+    setResults(withSourceIds(session.results, session.files));
+    setLanguage(session.settings.language);
+    setPdfMode(session.settings.pdfMode);
+    setImagePreprocessing(session.settings.imagePreprocessing || DEFAULT_IMAGE_PREPROCESSING);
+    setQuestionTypes(session.settings.questionTypes);
+    setTaxonomy(session.settings.taxonomy || []);
+    setProviderConfig({ ...DEFAULT_PROVIDER_CONFIGS[session.settings.provider.kind], ...session.settings.provider });
+    setStatus({ total: 0, current: 0, status: 'idle' });
+    setSessionId(session.id);
+    setSessionCreatedAt(session.createdAt);
+  };
+
+  const handleOpenSession = async (id: string) => {
+    try {
+      await openSession(id);
+      setShowSessions(false);
+    } catch (error) {
+      console.error(error);
+      alert('Could not open the session.');
+    }
+  };
+
+  // Reopen the most recent session after a refresh or crash
+  useEffect(() => {
+    listSessions()
+      .then(sessions => (sessions.length > 0 ? openSession(sessions[0].id) : undefined))
+      .catch(error => console.error('Could not restore the last session', error))
+      .finally(() => setSessionReady(true));
+  }, []);
+
+  useEffect(() => {
+    if (!sessionReady || (queue.length === 0 && results.items.length === 0)) return;
+    const timer = setTimeout(() => {
+      const { apiKey, ...provider } = providerConfig;
+      const names = queue.map(item => item.file.name);
+      const session: ExtractionSession = {
+        id: sessionId,
+        name: names.length > 1 ? `${names[0]} + ${names.length - 1} more` : names[0] || 'Untitled session',
+        createdAt: sessionCreatedAt,
+        updatedAt: Date.now(),
+        files: queue.map(toSessionFile),
+        results,
+        settings: { language, pdfMode, imagePreprocessing, questionTypes, provider, taxonomy }
+      };
+      saveSession(session).catch(error => console.error('Autosave failed', error));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [sessionReady, sessionId, sessionCreatedAt, queue, results, language, pdfMode, imagePreprocessing, questionTypes, providerConfig, taxonomy]);
+
   const handleUpdateResult = (id: string, field: keyof McqData, value: string) => {
-    setResults(prev => prev.map(item => 
-      item.id === id ? { ...item, [field]: value } : item
-    ));
+    setResults(prev => ({
+      ...prev,
+      items: prev.items.map(item => 
+        item.id === id ? { ...item, [field]: field === 'passageId' && !value ? undefined : value } : item
+      )
+    }));
+  };
+
+  const handlePatchResult = (id: string, changes: Partial<McqData>) => {
+    setResults(prev => ({
+      ...prev,
+      items: prev.items.map(item => item.id === id ? { ...item, ...changes } : item)
+    }));
+  };
+
+  const handleUpdatePassage = (id: string, text: string) => {
+    setResults(prev => ({
+      ...prev,
+      passages: prev.passages.map(passage => passage.id === id ? { ...passage, text } : passage)
+    }));
+  };
+
+  const handleUpdatePassageTranslation = (id: string, text: string) => {
+    setResults(prev => ({
+      ...prev,
+      passages: prev.passages.map(passage => passage.id === id && passage.translation ? { ...passage, translation: { ...passage.translation, text } } : passage)
+    }));
+  };
+
+  // Translations are merged into the latest results, so edits made while one runs are kept
+  const handleTranslate = async (target: AppLanguage) => {
+    const controller = new AbortController();
+    translationControllerRef.current = controller;
+    setTranslationProgress('Translating...');
+    try {
+      const provider = makeProvider();
+      const outcome = await translateResults(provider, results.items, results.passages, target, {
+        signal: controller.signal,
+        onProgress: (done, total) => setTranslationProgress(`Translating ${done}/${total}`)
+      });
+      setResults(prev => ({
+        ...prev,
+        items: prev.items.map(item => outcome.items.has(item.id) ? { ...item, translation: outcome.items.get(item.id) } : item),
+        passages: prev.passages.map(passage => outcome.passages.has(passage.id) ? { ...passage, translation: outcome.passages.get(passage.id) } : passage)
+      }));
+      if (outcome.failed > 0 && !outcome.cancelled) {
+        alert(`${outcome.failed} question(s) could not be translated, or came back with a different number of choices. The other translations are kept; run Translate again to retry the rest.`);
+      }
+    } catch (error: any) {
+      console.error(error);
+      alert(error?.message || 'Translation failed.');
+    } finally {
+      translationControllerRef.current = null;
+      setTranslationProgress(undefined);
+    }
+  };
+
+  const handleCancelTranslation = () => translationControllerRef.current?.abort();
+
+  // Like translations, tags are merged into the latest results
+  const handleTag = async (nextTaxonomy: string[]) => {
+    setTaxonomy(nextTaxonomy);
+    const controller = new AbortController();
+    taggingControllerRef.current = controller;
+    setTaggingProgress('Tagging...');
+    try {
+      const provider = makeProvider();
+      const outcome = await tagQuestions(provider, results.items, results.passages, nextTaxonomy, {
+        signal: controller.signal,
+        onProgress: (done, total) => setTaggingProgress(`Tagging ${done}/${total}`)
+      });
+      setResults(prev => ({
+        ...prev,
+        items: prev.items.map(item => {
+          const tags = outcome.tags.get(item.id);
+          if (!tags) return item;
+          return {
+            ...item,
+            topic: item.topic || tags.topic,
+            difficulty: item.difficulty || tags.difficulty,
+            bloomLevel: item.bloomLevel || tags.bloomLevel
+          };
+        })
+      }));
+      const problems: string[] = [];
+      if (outcome.unmatched > 0) problems.push(`${outcome.unmatched} question(s) got a topic outside the taxonomy and were left without one. Set them in the Topic column.`);
+      if (outcome.failed > 0 && !outcome.cancelled) problems.push(`${outcome.failed} question(s) could not be tagged. The other tags are kept; run the tagging again to retry the rest.`);
+      if (problems.length > 0) alert(problems.join('\n'));
+    } catch (error: any) {
+      console.error(error);
+      alert(error?.message || 'Tagging failed.');
+    } finally {
+      taggingControllerRef.current = null;
+      setTaggingProgress(undefined);
+    }
+  };
+
+  const handleCancelTagging = () => taggingControllerRef.current?.abort();
+
+  const handleSaveToBank = async (items: McqData[]) => {
+    const text = prompt(`Tags for these ${items.length} question(s), comma-separated (e.g. subject, term):`, '');
+    if (text === null) return;
+    try {
+      const report = await saveToBank(items, results, parseTags(text));
+      setBankRevision(revision => revision + 1);
+      const parts = [`${report.added} added`];
+      if (report.updated > 0) parts.push(`${report.updated} updated`);
+      if (report.duplicates > 0) parts.push(`${report.duplicates} already in the bank from another exam (tags and source added there)`);
+      alert(`Question bank: ${parts.join(', ')}.`);
+    } catch (error: any) {
+      console.error(error);
+      alert(error?.message || 'Saving to the question bank failed.');
+    }
+  };
+
+  const handleAddFromBank = (entries: BankQuestion[]) => {
+    setResults(prev => addBankQuestions(prev, entries));
   };
 
   const handleDeleteResult = (id: string) => {
-    setResults(prev => prev.filter(item => item.id !== id));
+    setResults(prev => ({ ...prev, items: prev.items.filter(item => item.id !== id) }));
+  };
+
+  const handleToggleQuestionType = (type: QuestionType) => {
+    setQuestionTypes(prev => {
+      const next = prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type];
+      // Keep the original order so the prompt and schema stay stable
+      return ALL_QUESTION_TYPES.filter(t => next.includes(t));
+    });
+  };
+
+  const handleProviderChange = (kind: ProviderKind) => {
+    setProviderConfig(DEFAULT_PROVIDER_CONFIGS[kind]);
+  };
+
+  const handleToggleRecording = () => {
+    setRecording(recording ? null : {});
+    setRecordedCount(0);
+  };
+
+  const handleDownloadRecording = () => {
+    if (!recording) return;
+    const blob = new Blob([JSON.stringify(recording, null, 2)], { type: 'application/json' });
+    downloadFile({ fileName: `fixtures-${new Date().toISOString().slice(0, 10)}.json`, blob });
+  };
+
+  const handleFixtureLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fixtureFile = e.target.files?.[0];
+    if (!fixtureFile) return;
+    try {
+      setFixtures(JSON.parse(await fixtureFile.text()));
+    } catch {
+      setFixtures(null);
+      alert("Invalid fixture file. Expected a JSON object of recorded responses.");
+    }
   };
 
   const progressPercentage = status.total > 0 ? Math.min(100, Math.round((status.current / status.total) * 100)) : 0;
   const isProcessing = status.status === 'analyzing' || status.status === 'extracting';
+  const hasPending = queue.some(item => item.status !== 'complete');
+  const questionCounts = results.items.reduce<Record<string, number>>((counts, result) => {
+    const id = result.sourceId || '';
+    counts[id] = (counts[id] || 0) + 1;
+    return counts;
+  }, {});
+  const keyEntryCounts = (results.answerKey || []).reduce<Record<string, number>>((counts, entry) => {
+    const id = entry.sourceId || '';
+    counts[id] = (counts[id] || 0) + 1;
+    return counts;
+  }, {});
 
   return (
     <div className="min-h-screen bg-slate-50 font-sans pb-20 selection:bg-indigo-100 selection:text-indigo-800">
@@ -148,6 +638,22 @@ const App: React.FC = () => {
             </span>
           </div>
           <div className="flex items-center gap-4">
+             <button
+                onClick={() => setShowSessions(!showSessions)}
+                className={`inline-flex items-center gap-1.5 text-xs font-semibold px-3 py-1.5 rounded-full border transition-colors
+                  ${showSessions ? 'bg-indigo-50 text-indigo-700 border-indigo-200' : 'bg-white text-slate-600 border-slate-200 hover:text-indigo-600 hover:border-indigo-200'}`}
+                title="Saved sessions"
+             >
+                <History size={14} /> Sessions
+             </button>
+             <button
+                onClick={() => setShowBank(!showBank)}
+                className={`inline-flex items-center gap-1.5 text-xs font-semibold px-3 py-1.5 rounded-full border transition-colors
+                  ${showBank ? 'bg-indigo-50 text-indigo-700 border-indigo-200' : 'bg-white text-slate-600 border-slate-200 hover:text-indigo-600 hover:border-indigo-200'}`}
+                title="Question bank"
+             >
+                <Library size={14} /> Bank
+             </button>
              <span className="hidden md:inline-flex items-center gap-1.5 text-xs font-semibold text-emerald-700 bg-emerald-50 px-3 py-1.5 rounded-full border border-emerald-100">
                 <FileCheck size={14} /> Ready
              </span>
@@ -160,6 +666,22 @@ const App: React.FC = () => {
       </header>
 
       <main className="max-w-6xl mx-auto px-6 py-12">
+        {showSessions && (
+          <SessionList
+            activeId={sessionId}
+            disabled={isProcessing}
+            onOpen={handleOpenSession}
+            onClose={() => setShowSessions(false)}
+          />
+        )}
+        {showBank && (
+          <QuestionBank
+            revision={bankRevision}
+            onAdd={handleAddFromBank}
+            onClose={() => setShowBank(false)}
+          />
+        )}
+
         <div className="text-center mb-16 animate-in fade-in slide-in-from-bottom-6 duration-700">
           <h1 className="text-4xl md:text-5xl font-extrabold text-slate-900 mb-6 tracking-tight leading-tight">
             Transform Documents into <br />
@@ -168,7 +690,7 @@ const App: React.FC = () => {
             </span>
           </h1>
           <p className="text-lg text-slate-600 max-w-2xl mx-auto leading-relaxed">
-            Fast, accurate MCQ extraction with automatic passage detection.
+            Fast, accurate question extraction with automatic passage detection.
           </p>
         </div>
 
@@ -177,11 +699,20 @@ const App: React.FC = () => {
             <div className="lg:col-span-8">
               <label className="block text-sm font-semibold text-slate-800 mb-3 ml-1">Document Upload</label>
               <FileUpload 
-                onFileSelect={setFile} 
-                selectedFile={file} 
-                onClear={handleClear}
+                onFilesSelect={handleFilesSelect} 
+                compact={queue.length > 0}
                 disabled={isProcessing}
               />
+              <FileQueue
+                items={queue}
+                questionCounts={questionCounts}
+                keyEntryCounts={keyEntryCounts}
+                isProcessing={isProcessing}
+                onCancel={handleCancelFile}
+                onRemove={handleRemoveFile}
+                onToggleAnswerKey={handleToggleAnswerKey}
+                onClear={handleClear}
+              />
             </div>
             
             <div className="lg:col-span-4 space-y-6">
@@ -199,6 +730,99 @@ const App: React.FC = () => {
                     <option value={AppLanguage.AUTO}>Auto Detect (Smart)</option>
                     <option value={AppLanguage.ENGLISH}>English (Standard)</option>
                     <option value={AppLanguage.ARABIC}>Arabic (RTL Optimized)</option>
+                    <option value={AppLanguage.URDU}>Urdu (RTL)</option>
+                    <option value={AppLanguage.PERSIAN}>Persian (RTL)</option>
+                    <option value={AppLanguage.FRENCH}>French</option>
+                  </select>
+                  <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-4 text-slate-500 group-hover:text-indigo-500 transition-colors">
+                    <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20"><path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z"/></svg>
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-800 mb-3 flex items-center gap-2">
+                  <Cpu size={16} className="text-indigo-500" /> AI Provider
+                </label>
+                <div className="relative group">
+                  <select 
+                    className="w-full appearance-none bg-slate-50 border border-slate-200 text-slate-700 py-3.5 px-4 pr-8 rounded-xl leading-tight focus:outline-none focus:bg-white focus:border-indigo-500 focus:ring-4 focus:ring-indigo-500/10 transition-all font-medium cursor-pointer hover:border-indigo-300"
+                    value={providerConfig.kind}
+                    onChange={(e) => handleProviderChange(e.target.value as ProviderKind)}
+                    disabled={isProcessing}
+                  >
+                    <option value={ProviderKind.GEMINI}>Google Gemini (Cloud)</option>
+                    <option value={ProviderKind.OPENAI_COMPATIBLE}>OpenAI-Compatible (Self-hosted)</option>
+                    <option value={ProviderKind.FIXTURE}>Fixture Replay (Offline)</option>
+                  </select>
+                  <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-4 text-slate-500 group-hover:text-indigo-500 transition-colors">
+                    <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20"><path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z"/></svg>
+                  </div>
+                </div>
+
+                {providerConfig.kind === ProviderKind.OPENAI_COMPATIBLE && (
+                  <div className="mt-3 space-y-2">
+                    <input
+                      type="text"
+                      className="w-full bg-slate-50 border border-slate-200 text-slate-700 py-2.5 px-4 rounded-xl text-sm focus:outline-none focus:bg-white focus:border-indigo-500 transition-all"
+                      value={providerConfig.baseUrl || ''}
+                      onChange={(e) => setProviderConfig(prev => ({ ...prev, baseUrl: e.target.value }))}
+                      placeholder="http://localhost:11434/v1"
+                      disabled={isProcessing}
+                    />
+                    <input
+                      type="text"
+                      className="w-full bg-slate-50 border border-slate-200 text-slate-700 py-2.5 px-4 rounded-xl text-sm focus:outline-none focus:bg-white focus:border-indigo-500 transition-all"
+                      value={providerConfig.model}
+                      onChange={(e) => setProviderConfig(prev => ({ ...prev, model: e.target.value }))}
+                      placeholder="Model name"
+                      disabled={isProcessing}
+                    />
+                  </div>
+                )}
+
+                {providerConfig.kind !== ProviderKind.FIXTURE && (
+                  <div className="mt-3 flex items-center justify-between gap-2 text-xs text-slate-500">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input type="checkbox" checked={!!recording} onChange={handleToggleRecording} disabled={isProcessing} className="accent-indigo-600" />
+                      Record responses for replay
+                    </label>
+                    {recording && (
+                      <button
+                        onClick={handleDownloadRecording}
+                        disabled={recordedCount === 0}
+                        className="flex items-center gap-1 font-semibold text-indigo-600 hover:underline disabled:opacity-50 disabled:no-underline disabled:cursor-not-allowed"
+                        title="Download the recorded responses as a fixture file"
+                      >
+                        <Download size={12} /> {recordedCount} recorded
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {providerConfig.kind === ProviderKind.FIXTURE && (
+                  <label className="mt-3 block text-xs text-slate-500 cursor-pointer">
+                    <span className="font-semibold text-indigo-600 hover:underline">
+                      {fixtures ? `${Object.keys(fixtures).length} recorded responses loaded` : 'Load fixture file (.json)'}
+                    </span>
+                    <input type="file" className="hidden" accept=".json" onChange={handleFixtureLoad} disabled={isProcessing} />
+                  </label>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-800 mb-3 flex items-center gap-2">
+                  <ScanText size={16} className="text-indigo-500" /> PDF Reading
+                </label>
+                <div className="relative group">
+                  <select 
+                    className="w-full appearance-none bg-slate-50 border border-slate-200 text-slate-700 py-3.5 px-4 pr-8 rounded-xl leading-tight focus:outline-none focus:bg-white focus:border-indigo-500 focus:ring-4 focus:ring-indigo-500/10 transition-all font-medium cursor-pointer hover:border-indigo-300"
+                    value={pdfMode}
+                    onChange={(e) => setPdfMode(e.target.value as PdfProcessingMode)}
+                    disabled={isProcessing}
+                  >
+                    <option value={PdfProcessingMode.HYBRID}>Hybrid (Text Layer + Images)</option>
+                    <option value={PdfProcessingMode.IMAGES}>Images Only (Scanned)</option>
                   </select>
                   <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-4 text-slate-500 group-hover:text-indigo-500 transition-colors">
                     <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20"><path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z"/></svg>
@@ -208,11 +832,64 @@ const App: React.FC = () => {
 
               <div>
                 <label className="block text-sm font-semibold text-slate-800 mb-3 flex items-center gap-2">
-                  <LayoutTemplate size={16} className="text-indigo-500" /> Output Format
+                  <SlidersHorizontal size={16} className="text-indigo-500" /> Photo &amp; Scan Cleanup
+                </label>
+                <div className={`w-full bg-slate-50 border border-slate-200 rounded-xl p-3 space-y-2 text-sm font-medium text-slate-700 ${isProcessing ? 'opacity-60' : ''}`}>
+                  <label className={`flex items-center gap-2 ${isProcessing ? 'cursor-not-allowed' : 'cursor-pointer'}`}>
+                    <input
+                      type="checkbox"
+                      className="accent-indigo-600"
+                      checked={imagePreprocessing.enabled}
+                      onChange={(e) => updateImagePreprocessing({ enabled: e.target.checked })}
+                      disabled={isProcessing}
+                    />
+                    Clean up before extraction
+                  </label>
+                  <div className="grid grid-cols-2 gap-2 pl-5">
+                    {IMAGE_CLEANUP_STEPS.map(step => (
+                      <label key={step.key} className={`flex items-center gap-2 text-xs ${!imagePreprocessing.enabled || isProcessing ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'}`} title={step.hint}>
+                        <input
+                          type="checkbox"
+                          className="accent-indigo-600"
+                          checked={imagePreprocessing[step.key]}
+                          onChange={(e) => updateImagePreprocessing({ [step.key]: e.target.checked })}
+                          disabled={!imagePreprocessing.enabled || isProcessing}
+                        />
+                        {step.label}
+                      </label>
+                    ))}
+                  </div>
+                  <label className="flex items-center justify-between gap-2 text-xs pt-1">
+                    Longest side
+                    <select
+                      className="bg-white border border-slate-200 text-slate-600 py-1 px-2 rounded-lg focus:outline-none focus:border-indigo-500"
+                      value={imagePreprocessing.maxDimension}
+                      onChange={(e) => updateImagePreprocessing({ maxDimension: Number(e.target.value) })}
+                      disabled={isProcessing}
+                    >
+                      {IMAGE_SIZES.map(size => <option key={size} value={size}>{size} px</option>)}
+                    </select>
+                  </label>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-800 mb-3 flex items-center gap-2">
+                  <LayoutTemplate size={16} className="text-indigo-500" /> Question Types
                 </label>
-                <div className="w-full bg-slate-50 border border-slate-200 text-slate-500 py-3.5 px-4 rounded-xl flex justify-between items-center cursor-not-allowed opacity-75">
-                  <span className="font-medium">Multiple Choice (MCQ)</span>
-                  <span className="text-xs bg-slate-200 px-2 py-0.5 rounded text-slate-600">Fixed</span>
+                <div className="w-full bg-slate-50 border border-slate-200 rounded-xl p-3 grid grid-cols-2 gap-2">
+                  {ALL_QUESTION_TYPES.map(type => (
+                    <label key={type} className={`flex items-center gap-2 text-sm font-medium text-slate-700 ${isProcessing ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'}`}>
+                      <input
+                        type="checkbox"
+                        className="accent-indigo-600"
+                        checked={questionTypes.includes(type)}
+                        onChange={() => handleToggleQuestionType(type)}
+                        disabled={isProcessing}
+                      />
+                      {QUESTION_TYPE_LABELS[type]}
+                    </label>
+                  ))}
                 </div>
               </div>
             </div>
@@ -223,10 +900,10 @@ const App: React.FC = () => {
             {!isProcessing ? (
               <button
                 onClick={handleProcess}
-                disabled={!file}
+                disabled={!hasPending || questionTypes.length === 0}
                 className={`
                   relative overflow-hidden group w-full max-w-md py-4 rounded-xl font-bold text-lg shadow-lg shadow-indigo-500/20 transition-all duration-300 transform
-                  ${!file ? 'bg-slate-100 text-slate-400 cursor-not-allowed shadow-none' : 'bg-indigo-600 text-white hover:bg-indigo-700 hover:-translate-y-0.5 hover:shadow-indigo-500/40'}
+                  ${!hasPending || questionTypes.length === 0 ? 'bg-slate-100 text-slate-400 cursor-not-allowed shadow-none' : 'bg-indigo-600 text-white hover:bg-indigo-700 hover:-translate-y-0.5 hover:shadow-indigo-500/40'}
                 `}
               >
                 Extract to Excel
@@ -253,11 +930,15 @@ const App: React.FC = () => {
                   ></div>
                 </div>
                 <div className="text-center mt-3 text-xs text-indigo-600 font-medium">
-                  Found {results.length} questions so far...
+                  Found {results.items.length} questions so far...
                 </div>
               </div>
             )}
 
+            {!isProcessing && (
+              <ChunkMap items={queue} disabled={isProcessing} onRetry={handleRetryChunks} />
+            )}
+
             {status.status === 'error' && (
               <div className="mt-6 p-4 bg-red-50 text-red-700 rounded-xl border border-red-100 flex items-start gap-3 w-full max-w-md animate-in fade-in">
                 <AlertCircle className="shrink-0 mt-0.5" size={18} />
@@ -268,9 +949,25 @@ const App: React.FC = () => {
         </div>
 
         <ResultsTable 
-          data={results} 
+          data={results.items} 
+          passages={results.passages}
+          figures={results.figures || []}
           onUpdate={handleUpdateResult}
+          onPatch={handlePatchResult}
+          onUpdatePassage={handleUpdatePassage}
+          onUpdatePassageTranslation={handleUpdatePassageTranslation}
           onDelete={handleDeleteResult}
+          sourceFiles={Object.fromEntries(queue.map(item => [item.id, item.file]))}
+          pageFiles={Object.fromEntries(queue.filter(item => item.pageFiles).map(item => [item.id, item.pageFiles!]))}
+          onTranslate={handleTranslate}
+          onCancelTranslation={handleCancelTranslation}
+          onSaveToBank={handleSaveToBank}
+          translationProgress={translationProgress}
+          taxonomy={taxonomy}
+          onTaxonomyChange={setTaxonomy}
+          onTag={handleTag}
+          onCancelTagging={handleCancelTagging}
+          taggingProgress={taggingProgress}
         />
       </main>
     </div>
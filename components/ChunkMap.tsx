@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { RotateCcw, Grid3x3 } from 'lucide-react';
+import { ChunkFailureReason, ChunkReport, ChunkStatus, QueueItem } from '../types';
+import { describeSource } from '../services/extractionPipeline';
+
+interface ChunkMapProps {
+  items: QueueItem[];
+  disabled: boolean;
+  onRetry: (id: string, splitSize?: number) => void;
+}
+
+const REASON_LABELS: Record<ChunkFailureReason, string> = {
+  [ChunkFailureReason.QUOTA]: 'Quota or rate limit',
+  [ChunkFailureReason.SAFETY]: 'Blocked by safety filters',
+  [ChunkFailureReason.TRUNCATED]: 'Response cut off',
+  [ChunkFailureReason.PARSE]: 'Unreadable response',
+  [ChunkFailureReason.EMPTY]: 'Empty response',
+  [ChunkFailureReason.AUTH]: 'API key rejected',
+  [ChunkFailureReason.NETWORK]: 'Network error',
+  [ChunkFailureReason.UNKNOWN]: 'Unknown error',
+};
+
+const STATUS_CLASSES: Record<ChunkStatus, string> = {
+  ok: 'bg-emerald-400 border-emerald-500',
+  partial: 'bg-amber-300 border-amber-400',
+  failed: 'bg-red-400 border-red-500',
+};
+
+// Page groups a retry can split a chunk into; 0 keeps the original grouping
+const SPLIT_OPTIONS = [
+  { value: 0, label: 'Same grouping' },
+  { value: 2, label: '2 pages per request' },
+  { value: 1, label: '1 page per request' },
+];
+
+const describeChunk = (report: ChunkReport): string => {
+  const lines = [`Chunk ${report.index + 1}${report.source ? ` · ${describeSource(report.source)}` : ''}`];
+  if (report.status === 'ok') lines.push(`${report.questionCount} questions`);
+  else {
+    lines.push(`${report.status === 'partial' ? 'Partial' : 'Failed'}: ${REASON_LABELS[report.reason || ChunkFailureReason.UNKNOWN]}`);
+    if (report.questionCount > 0) lines.push(`${report.questionCount} questions recovered`);
+    if (report.message) lines.push(report.message);
+  }
+  return lines.join('\n');
+};
+
+// One square per chunk of each file, so failed parts of a document can be spotted and retried
+export const ChunkMap: React.FC<ChunkMapProps> = ({ items, disabled, onRetry }) => {
+  const [splitSize, setSplitSize] = useState(0);
+  const files = items.filter(item => item.total > 0 && (item.chunks?.length || 0) > 0);
+  if (files.length === 0) return null;
+
+  return (
+    <div className="mt-6 w-full border border-slate-200 rounded-2xl overflow-hidden bg-white">
+      <div className="flex items-center justify-between gap-3 px-4 py-2.5 bg-slate-50 border-b border-slate-200">
+        <span className="text-xs font-bold text-slate-600 uppercase tracking-wide flex items-center gap-1.5">
+          <Grid3x3 size={14} /> Chunk Map
+        </span>
+        <select
+          className="bg-white border border-slate-200 text-slate-600 text-xs py-1 px-2 rounded-lg focus:outline-none focus:border-indigo-500"
+          value={splitSize}
+          onChange={(e) => setSplitSize(Number(e.target.value))}
+          disabled={disabled}
+          title="How retried chunks are sent to the model"
+        >
+          {SPLIT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+      </div>
+      <ul className="divide-y divide-slate-100 max-h-72 overflow-auto">
+        {files.map(item => {
+          const reports = new Map<number, ChunkReport>((item.chunks || []).map(report => [report.index, report]));
+          const retryable = (item.chunks || []).filter(report => report.status !== 'ok').length;
+          return (
+            <li key={item.id} className="px-4 py-3">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <span className="text-sm font-semibold text-slate-800 truncate" title={item.file.name}>{item.file.name}</span>
+                {retryable > 0 && (
+                  <button
+                    onClick={() => onRetry(item.id, splitSize || undefined)}
+                    disabled={disabled}
+                    className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-semibold border border-red-100 text-red-600 bg-red-50 hover:bg-red-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
+                  >
+                    <RotateCcw size={12} /> Retry failed ({retryable})
+                  </button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {Array.from({ length: item.total }, (_, index) => {
+                  const report = reports.get(index);
+                  return (
+                    <span
+                      key={index}
+                      className={`w-4 h-4 rounded-sm border ${report ? STATUS_CLASSES[report.status] : 'bg-slate-100 border-slate-200'}`}
+                      title={report ? describeChunk(report) : `Chunk ${index + 1} · Not extracted yet`}
+                    />
+                  );
+                })}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React from 'react';
+import { FileText, File as FileIcon, Image as ImageIcon, Presentation, X, Loader2, CheckCircle2, AlertCircle, Ban, Clock, KeyRound } from 'lucide-react';
+import { DocType, QueueItem, QueueItemStatus } from '../types';
+import { detectFileType } from '../services/documentProcessor';
+
+interface FileQueueProps {
+  items: QueueItem[];
+  questionCounts: Record<string, number>; // Extracted questions per queue item id
+  keyEntryCounts: Record<string, number>; // Answer-key entries per queue item id
+  isProcessing: boolean;
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+  onToggleAnswerKey: (id: string) => void;
+  onClear: () => void;
+}
+
+const STATUS_STYLES: Record<QueueItemStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  queued: { label: 'Queued', className: 'text-slate-500', icon: <Clock size={14} /> },
+  processing: { label: 'Processing', className: 'text-indigo-600', icon: <Loader2 size={14} className="animate-spin" /> },
+  complete: { label: 'Done', className: 'text-emerald-600', icon: <CheckCircle2 size={14} /> },
+  error: { label: 'Failed', className: 'text-red-600', icon: <AlertCircle size={14} /> },
+  cancelled: { label: 'Cancelled', className: 'text-amber-600', icon: <Ban size={14} /> },
+};
+
+const FILE_ICONS: Partial<Record<DocType, React.ReactNode>> = {
+  [DocType.PDF]: <FileIcon size={18} />,
+  [DocType.IMAGE]: <ImageIcon size={18} />,
+  [DocType.PPTX]: <Presentation size={18} />,
+};
+
+export const FileQueue: React.FC<FileQueueProps> = ({ items, questionCounts, keyEntryCounts, isProcessing, onCancel, onRemove, onToggleAnswerKey, onClear }) => {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="mt-4 border border-slate-200 rounded-2xl overflow-hidden bg-white">
+      <div className="flex items-center justify-between px-4 py-2.5 bg-slate-50 border-b border-slate-200">
+        <span className="text-xs font-bold text-slate-600 uppercase tracking-wide">
+          {items.length} file{items.length === 1 ? '' : 's'} · {items.filter(i => i.status === 'complete').length} done
+        </span>
+        {!isProcessing && (
+          <button onClick={onClear} className="text-xs font-semibold text-slate-400 hover:text-red-500 transition-colors">
+            Clear all
+          </button>
+        )}
+      </div>
+      <ul className="divide-y divide-slate-100 max-h-72 overflow-auto">
+        {items.map(item => {
+          const style = STATUS_STYLES[item.status];
+          const percentage = item.total > 0 ? Math.min(100, Math.round((item.current / item.total) * 100)) : 0;
+          const textPages = item.pages?.filter(p => p.path === 'text').length || 0;
+          const imagePages = (item.pages?.length || 0) - textPages;
+          const canCancel = item.status === 'queued' || item.status === 'processing';
+          const failedChunks = item.chunks?.filter(chunk => chunk.status === 'failed').length || 0;
+
+          return (
+            <li key={item.id} className="px-4 py-3 flex items-center gap-3">
+              <div className="w-9 h-9 bg-indigo-50 rounded-lg flex items-center justify-center text-indigo-600 shrink-0">
+                {FILE_ICONS[detectFileType(item.file)] || <FileText size={18} />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="text-sm font-semibold text-slate-800 truncate flex items-center gap-1.5" title={item.file.name}>
+                    <span className="truncate">{item.file.name}</span>
+                    {item.isAnswerKey && (
+                      <span className="shrink-0 px-1.5 py-0.5 rounded-md bg-amber-50 text-amber-700 border border-amber-100 text-[10px] font-bold uppercase">Answer key</span>
+                    )}
+                  </h3>
+                  <span className={`flex items-center gap-1 text-xs font-semibold shrink-0 ${style.className}`}>
+                    {style.icon} {style.label}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between gap-2 text-[11px] text-slate-500 mt-0.5">
+                  <span className="truncate">
+                    {(((item.pageFiles || [item.file]).reduce((size, file) => size + file.size, 0)) / 1024 / 1024).toFixed(2)} MB
+                    {item.pageFiles && ` · ${item.pageFiles.length} photos`}
+                    {item.pages && item.pages.length > 0 && ` · ${textPages} text / ${imagePages} image pages`}
+                    {questionCounts[item.id] > 0 && ` · ${questionCounts[item.id]} questions`}
+                    {keyEntryCounts[item.id] > 0 && ` · ${keyEntryCounts[item.id]} key answers`}
+                    {failedChunks > 0 && <span className="text-red-600"> · {failedChunks} failed chunk{failedChunks === 1 ? '' : 's'}</span>}
+                  </span>
+                  {item.message && item.status !== 'complete' && (
+                    <span className={`truncate ${item.status === 'error' ? 'text-red-600' : ''}`} title={item.message}>{item.message}</span>
+                  )}
+                </div>
+                {item.status === 'processing' && (
+                  <div className="w-full bg-slate-100 rounded-full h-1.5 mt-2 overflow-hidden">
+                    <div className="bg-indigo-600 h-full rounded-full transition-all duration-700 ease-out" style={{ width: `${percentage}%` }}></div>
+                  </div>
+                )}
+              </div>
+              {!isProcessing && (
+                <button
+                  onClick={() => onToggleAnswerKey(item.id)}
+                  className={`p-1.5 rounded-full transition-colors ${item.isAnswerKey ? 'text-amber-600 bg-amber-50 hover:bg-amber-100' : 'text-slate-300 hover:text-amber-600 hover:bg-amber-50'}`}
+                  title={item.isAnswerKey ? 'Treat as a question file' : 'Use as the answer key for the other files'}
+                >
+                  <KeyRound size={16} />
+                </button>
+              )}
+              {canCancel && isProcessing ? (
+                <button
+                  onClick={() => onCancel(item.id)}
+                  className="p-1.5 hover:bg-red-50 rounded-full transition-colors text-slate-400 hover:text-red-500"
+                  title="Cancel file"
+                >
+                  <Ban size={16} />
+                </button>
+              ) : !isProcessing && (
+                <button
+                  onClick={() => onRemove(item.id)}
+                  className="p-1.5 hover:bg-slate-100 rounded-full transition-colors text-slate-400 hover:text-red-500"
+                  title="Remove file"
+                >
+                  <X size={16} />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
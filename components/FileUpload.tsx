@@ -1,83 +1,68 @@
 import React, { useCallback } from 'react';
-import { Upload, FileText, File as FileIcon, X } from 'lucide-react';
+import { Upload } from 'lucide-react';
 import { DocType } from '../types';
-import { detectFileType } from '../services/documentProcessor';
+import { detectFileType, identifyFile } from '../services/documentProcessor';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
-  selectedFile: File | null;
-  onClear: () => void;
+  onFilesSelect: (files: File[]) => void;
+  compact?: boolean;
   disabled?: boolean;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFile, onClear, disabled }) => {
+export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect, compact, disabled }) => {
+  const validateAndAdd = async (files: File[]) => {
+    // Browsers often report no type, so unrecognised files are checked by content
+    const identified = await Promise.all(files.map(identifyFile));
+    const supported = identified.filter(file => detectFileType(file) !== DocType.UNKNOWN);
+    const rejected = files.length - supported.length;
+
+    if (supported.length > 0) onFilesSelect(supported);
+    if (rejected > 0) {
+      alert(`${rejected} file(s) skipped. Please upload PDF, Word (DOCX), PowerPoint (PPTX), ODT, text, Markdown or image (PNG, JPEG, WebP, HEIC) files.`);
+    }
+  };
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     if (disabled) return;
-    
-    const file = e.dataTransfer.files[0];
-    if (file) validateAndSet(file);
-  }, [disabled]);
+
+    const files = Array.from<File>(e.dataTransfer.files);
+    if (files.length > 0) validateAndAdd(files);
+  }, [disabled, onFilesSelect]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (disabled) return;
-    const file = e.target.files?.[0];
-    if (file) validateAndSet(file);
+    const files = Array.from<File>(e.target.files || []);
+    if (files.length > 0) validateAndAdd(files);
+    // Allow re-selecting the same files after removing them from the queue
+    e.target.value = '';
   };
 
-  const validateAndSet = (file: File) => {
-    const type = detectFileType(file);
-    if (type !== DocType.UNKNOWN) {
-      onFileSelect(file);
-    } else {
-      alert("Please upload a PDF or DOCX file.");
-    }
-  };
-
-  if (selectedFile) {
-    return (
-      <div className="w-full p-6 border-2 border-indigo-100 bg-indigo-50/50 rounded-2xl flex items-center justify-between">
-        <div className="flex items-center space-x-4">
-          <div className="w-12 h-12 bg-indigo-100 rounded-xl flex items-center justify-center text-indigo-600">
-            {detectFileType(selectedFile) === DocType.PDF ? <FileIcon size={24} /> : <FileText size={24} />}
-          </div>
-          <div>
-            <h3 className="text-sm font-semibold text-slate-800">{selectedFile.name}</h3>
-            <p className="text-xs text-slate-500">{(selectedFile.size / 1024 / 1024).toFixed(2)} MB</p>
-          </div>
-        </div>
-        {!disabled && (
-          <button 
-            onClick={onClear}
-            className="p-2 hover:bg-white rounded-full transition-colors text-slate-400 hover:text-red-500"
-          >
-            <X size={20} />
-          </button>
-        )}
-      </div>
-    );
-  }
-
   return (
     <div
       onDrop={handleDrop}
       onDragOver={(e) => e.preventDefault()}
-      className={`w-full h-64 border-2 border-dashed rounded-2xl flex flex-col items-center justify-center text-center transition-all cursor-pointer group
+      className={`w-full ${compact ? 'h-28' : 'h-64'} border-2 border-dashed rounded-2xl flex flex-col items-center justify-center text-center transition-all cursor-pointer group
         ${disabled ? 'opacity-50 cursor-not-allowed border-slate-200 bg-slate-50' : 'border-slate-300 hover:border-indigo-500 hover:bg-indigo-50/30'}`}
     >
-      <label className="w-full h-full flex flex-col items-center justify-center cursor-pointer">
-        <div className="w-16 h-16 bg-white rounded-2xl shadow-sm border border-slate-100 flex items-center justify-center mb-4 group-hover:scale-110 transition-transform text-indigo-500">
-          <Upload size={32} />
+      <label className={`w-full h-full flex ${compact ? 'flex-row gap-4' : 'flex-col'} items-center justify-center cursor-pointer`}>
+        <div className={`${compact ? 'w-12 h-12' : 'w-16 h-16 mb-4'} bg-white rounded-2xl shadow-sm border border-slate-100 flex items-center justify-center group-hover:scale-110 transition-transform text-indigo-500`}>
+          <Upload size={compact ? 24 : 32} />
+        </div>
+        <div className={compact ? 'text-left' : ''}>
+          <h3 className="text-lg font-semibold text-slate-700">
+            {compact ? 'Add more files' : 'Click to upload or drag & drop'}
+          </h3>
+          <p className={`text-sm text-slate-500 ${compact ? 'mt-0.5' : 'mt-2 max-w-xs mx-auto'}`}>
+            Supports PDF, Word, PowerPoint, ODT, text, Markdown and photos of pages.<br/>
+            Files are processed securely in your browser.
+          </p>
         </div>
-        <h3 className="text-lg font-semibold text-slate-700">Click to upload or drag & drop</h3>
-        <p className="text-sm text-slate-500 mt-2 max-w-xs mx-auto">
-          Supports PDF and Word (.docx).<br/>
-          Files are processed securely in your browser.
-        </p>
-        <input 
-          type="file" 
-          className="hidden" 
-          accept=".pdf,.docx" 
+        <input
+          type="file"
+          className="hidden"
+          accept=".pdf,.docx,.pptx,.odt,.txt,.md,.markdown,.png,.jpg,.jpeg,.webp,.heic,.heif"
+          multiple
           onChange={handleChange}
           disabled={disabled}
         />
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { X, Library, Trash2, Loader2, Search, Tag, Plus } from 'lucide-react';
+import { QuestionType } from '../types';
+import { BankQuestion, deleteFromBank, listBank, parseTags, searchBank, updateBankTags } from '../services/questionBank';
+import { ALL_QUESTION_TYPES, QUESTION_TYPE_LABELS } from '../services/questionTypes';
+import { richTextToPlain } from '../services/richText';
+import { textDirection } from '../services/languageService';
+
+interface QuestionBankProps {
+  revision: number; // Bumped after a save, so the list reloads
+  onAdd: (entries: BankQuestion[]) => void;
+  onClose: () => void;
+}
+
+const filterClass = "bg-white text-slate-600 border border-slate-200 hover:border-indigo-200 px-2.5 py-2 rounded-lg text-xs font-semibold outline-none focus:ring-2 focus:ring-indigo-500/20";
+
+export const QuestionBank: React.FC<QuestionBankProps> = ({ revision, onAdd, onClose }) => {
+  const [entries, setEntries] = useState<BankQuestion[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [tag, setTag] = useState('');
+  const [questionType, setQuestionType] = useState<QuestionType | ''>('');
+  const [sourceFile, setSourceFile] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const refresh = () => {
+    listBank()
+      .then(setEntries)
+      .catch(error => {
+        console.error(error);
+        setEntries([]);
+      });
+  };
+
+  useEffect(refresh, [revision]);
+
+  const all: BankQuestion[] = entries || [];
+  const tags = Array.from(new Set(all.flatMap(entry => entry.tags))).sort((a, b) => a.localeCompare(b));
+  const sourceFiles = Array.from(new Set(all.flatMap(entry => entry.sources.map(source => source.file || '')))).filter(Boolean).sort();
+  const shown = searchBank(all, { query, tag, questionType: questionType || undefined, sourceFile });
+  const selectedShown = shown.filter(entry => selected.has(entry.id));
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const handleEditTags = async (entry: BankQuestion) => {
+    const text = prompt('Tags for this question (comma-separated):', entry.tags.join(', '));
+    if (text === null) return;
+    await updateBankTags(entry, parseTags(text));
+    refresh();
+  };
+
+  const handleDelete = async (entry: BankQuestion) => {
+    if (!confirm('Remove this question from the bank?')) return;
+    await deleteFromBank(entry.id);
+    refresh();
+  };
+
+  const handleAdd = () => {
+    onAdd(selectedShown);
+    setSelected(new Set());
+  };
+
+  return (
+    <div className="mb-10 border border-slate-200 rounded-2xl bg-white shadow-xl shadow-slate-200/60 overflow-hidden animate-in fade-in">
+      <div className="flex items-center justify-between px-4 py-3 bg-slate-50 border-b border-slate-200">
+        <h3 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+          <Library size={16} className="text-indigo-500" /> Question Bank
+          {entries && <span className="text-xs font-medium text-slate-500">{entries.length} question{entries.length === 1 ? '' : 's'}</span>}
+        </h3>
+        <button onClick={onClose} className="p-1.5 hover:bg-white rounded-full transition-colors text-slate-400 hover:text-red-500" title="Close question bank">
+          <X size={16} />
+        </button>
+      </div>
+      <div className="px-4 py-3 border-b border-slate-100 flex items-center gap-2 flex-wrap">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search questions, choices, passages, tags..."
+            className="w-full pl-8 pr-3 py-2 rounded-lg border border-slate-200 text-sm outline-none focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20"
+          />
+        </div>
+        <select value={tag} onChange={(e) => setTag(e.target.value)} className={filterClass} title="Filter by tag">
+          <option value="">All tags</option>
+          {tags.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <select value={questionType} onChange={(e) => setQuestionType(e.target.value as QuestionType | '')} className={filterClass} title="Filter by question type">
+          <option value="">All types</option>
+          {ALL_QUESTION_TYPES.map(type => <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>)}
+        </select>
+        {sourceFiles.length > 1 && (
+          <select value={sourceFile} onChange={(e) => setSourceFile(e.target.value)} className={`${filterClass} max-w-[200px]`} title="Filter by source file">
+            <option value="">All sources</option>
+            {sourceFiles.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        )}
+      </div>
+      {entries === null ? (
+        <div className="p-6 flex justify-center text-slate-400"><Loader2 size={20} className="animate-spin" /></div>
+      ) : entries.length === 0 ? (
+        <p className="p-6 text-center text-sm text-slate-400">The bank is empty. Use "Save to Bank" in the results to keep reviewed questions here.</p>
+      ) : shown.length === 0 ? (
+        <p className="p-6 text-center text-sm text-slate-400">No questions match these filters.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 max-h-96 overflow-auto">
+          {shown.map(entry => {
+            const question = richTextToPlain(entry.item.question);
+            return (
+              <li key={entry.id} className={`px-4 py-3 flex items-start gap-3 ${selected.has(entry.id) ? 'bg-indigo-50/50' : ''}`}>
+                <input type="checkbox" checked={selected.has(entry.id)} onChange={() => toggle(entry.id)} className="mt-1 accent-indigo-600" />
+                <div className="flex-1 min-w-0">
+                  <div dir={textDirection(question)} className="text-sm font-medium text-slate-800 line-clamp-2 text-start">{question || 'Untitled question'}</div>
+                  <div className="text-[11px] text-slate-500 mt-1 flex items-center gap-1.5 flex-wrap">
+                    <span className="font-bold uppercase text-indigo-600">{QUESTION_TYPE_LABELS[entry.item.questionType]}</span>
+                    {entry.tags.map(name => (
+                      <span key={name} className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 font-semibold">{name}</span>
+                    ))}
+                    <span>
+                      · {entry.sources.map(source => source.file || 'Unknown source').join(', ')} · saved {new Date(entry.createdAt).toLocaleDateString()}
+                    </span>
+                    {entry.sources.length > 1 && <span className="text-amber-600 font-semibold">· in {entry.sources.length} exams</span>}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleEditTags(entry)}
+                  className="p-1.5 rounded-lg text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+                  title="Edit tags"
+                >
+                  <Tag size={16} />
+                </button>
+                <button
+                  onClick={() => handleDelete(entry)}
+                  className="p-1.5 rounded-lg text-slate-300 hover:text-red-500 hover:bg-red-50 transition-colors"
+                  title="Remove from bank"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {shown.length > 0 && (
+        <div className="flex items-center justify-between gap-3 px-4 py-3 bg-slate-50 border-t border-slate-200">
+          <button
+            onClick={() => setSelected(selectedShown.length === shown.length ? new Set() : new Set(shown.map(entry => entry.id)))}
+            className="text-xs font-semibold text-slate-500 hover:text-indigo-600 transition-colors"
+          >
+            {selectedShown.length === shown.length ? 'Select none' : `Select all ${shown.length} shown`}
+          </button>
+          <button
+            onClick={handleAdd}
+            disabled={selectedShown.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold border border-slate-200 bg-white text-slate-600 hover:text-indigo-600 hover:border-indigo-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus size={14} /> Add {selectedShown.length || ''} to results
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,281 @@
+import React from 'react';
+import { Plus, X, ArrowRight } from 'lucide-react';
+import { McqData, QuestionType, QuestionTranslation, CHOICE_LETTERS, MIN_CHOICES, MAX_CHOICES } from '../types';
+import { answerLetters, joinAnswerLetters, countBlanks } from '../services/questionTypes';
+
+interface EditorProps {
+  item: McqData;
+  onPatch: (changes: Partial<McqData>) => void;
+}
+
+const removeButtonClass = "mt-1.5 p-1 rounded-md text-slate-300 hover:text-red-500 hover:bg-red-50 opacity-0 group-hover/choice:opacity-100 focus:opacity-100 transition-all";
+const addButtonClass = "flex items-center gap-1 ml-7 text-xs font-semibold text-slate-400 hover:text-indigo-600 transition-colors";
+const inputClass = "w-full border border-transparent hover:border-slate-300 focus:border-indigo-500 focus:bg-white rounded-md p-2 text-slate-700 text-sm transition-all";
+
+// Options of multiple-choice, multiple-select and true/false questions
+export const ChoicesEditor: React.FC<EditorProps> = ({ item, onPatch }) => {
+  const letters = answerLetters(item);
+  // True/false keeps its two fixed slots
+  const fixed = item.questionType === QuestionType.TRUE_FALSE;
+
+  const handleChange = (index: number, value: string) => {
+    onPatch({ choices: item.choices.map((choice, i) => (i === index ? value : choice)) });
+  };
+
+  // Later choices move up a letter, so the answer has to follow them
+  const handleRemove = (index: number) => {
+    if (item.choices.length <= MIN_CHOICES) return;
+    const shifted = letters
+      .map(letter => CHOICE_LETTERS.indexOf(letter))
+      .filter(answerIndex => answerIndex !== index)
+      .map(answerIndex => CHOICE_LETTERS[answerIndex > index ? answerIndex - 1 : answerIndex]);
+    // A translation is kept in line with the original choices
+    const translation = item.translation && { ...item.translation, choices: item.translation.choices.filter((_, i) => i !== index) };
+    onPatch({ choices: item.choices.filter((_, i) => i !== index), correctAnswer: joinAnswerLetters(shifted), translation });
+  };
+
+  return (
+    <div className="space-y-2.5">
+      {item.choices.map((choice, i) => {
+        const opt = CHOICE_LETTERS[i];
+        const correct = letters.includes(opt);
+        return (
+          <div key={i} className="flex items-start gap-2 relative group/choice">
+            <span className={`text-xs font-bold mt-2.5 w-5 ${correct ? 'text-emerald-600' : 'text-slate-400'}`}>
+              {opt}
+            </span>
+            <input
+              type="text"
+              dir="auto"
+              className={`${inputClass} ${correct ? 'font-semibold text-emerald-800 bg-emerald-50/50 border-emerald-200' : 'bg-transparent'}`}
+              value={choice}
+              onChange={(e) => handleChange(i, e.target.value)}
+            />
+            {!fixed && item.choices.length > MIN_CHOICES && (
+              <button onClick={() => handleRemove(i)} className={removeButtonClass} title={`Remove choice ${opt}`}>
+                <X size={14} />
+              </button>
+            )}
+          </div>
+        );
+      })}
+      {!fixed && item.choices.length < MAX_CHOICES && (
+        <button onClick={() => onPatch({ choices: [...item.choices, ''] })} className={addButtonClass}>
+          <Plus size={14} /> Add choice
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Per-blank answers for fill-in-the-blank, accepted answers for short answer
+export const AnswersEditor: React.FC<EditorProps> = ({ item, onPatch }) => {
+  const answers = item.answers?.length ? item.answers : [''];
+  const isBlank = item.questionType === QuestionType.FILL_IN_BLANK;
+  const blanks = isBlank ? countBlanks(item.question) : 0;
+
+  const handleChange = (index: number, value: string) => {
+    onPatch({ answers: answers.map((answer, i) => (i === index ? value : answer)) });
+  };
+
+  return (
+    <div className="space-y-2.5">
+      {answers.map((answer, i) => (
+        <div key={i} className="flex items-start gap-2 relative group/choice">
+          <span className="text-xs font-bold mt-2.5 w-5 text-emerald-600">{isBlank ? i + 1 : '='}</span>
+          <input
+            type="text"
+            dir="auto"
+            className={`${inputClass} font-semibold text-emerald-800 bg-emerald-50/50 border-emerald-200`}
+            value={answer}
+            onChange={(e) => handleChange(i, e.target.value)}
+            placeholder={isBlank ? `Blank ${i + 1}` : 'Accepted answer'}
+          />
+          {answers.length > 1 && (
+            <button onClick={() => onPatch({ answers: answers.filter((_, j) => j !== i) })} className={removeButtonClass} title="Remove answer">
+              <X size={14} />
+            </button>
+          )}
+        </div>
+      ))}
+      <button onClick={() => onPatch({ answers: [...answers, ''] })} className={addButtonClass}>
+        <Plus size={14} /> {isBlank ? 'Add blank' : 'Add accepted answer'}
+      </button>
+      {isBlank && blanks !== answers.length && (
+        <p className="ml-7 text-[11px] text-amber-600">
+          The question has {blanks} blank{blanks === 1 ? '' : 's'} (___) but {answers.length} answer{answers.length === 1 ? '' : 's'}.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export const PairsEditor: React.FC<EditorProps> = ({ item, onPatch }) => {
+  const pairs = item.pairs?.length ? item.pairs : [{ prompt: '', match: '' }];
+
+  const handleChange = (index: number, field: 'prompt' | 'match', value: string) => {
+    onPatch({ pairs: pairs.map((pair, i) => (i === index ? { ...pair, [field]: value } : pair)) });
+  };
+
+  return (
+    <div className="space-y-2.5">
+      {pairs.map((pair, i) => (
+        <div key={i} className="flex items-start gap-1.5 relative group/choice">
+          <span className="text-xs font-bold mt-2.5 w-5 text-slate-400">{i + 1}</span>
+          <input
+            type="text"
+            dir="auto"
+            className={`${inputClass} bg-transparent`}
+            value={pair.prompt}
+            onChange={(e) => handleChange(i, 'prompt', e.target.value)}
+            placeholder="Prompt"
+          />
+          <ArrowRight size={14} className="mt-2.5 shrink-0 text-slate-300 rtl:rotate-180" />
+          <input
+            type="text"
+            dir="auto"
+            className={`${inputClass} font-semibold text-emerald-800 bg-emerald-50/50 border-emerald-200`}
+            value={pair.match}
+            onChange={(e) => handleChange(i, 'match', e.target.value)}
+            placeholder="Match"
+          />
+          {pairs.length > 1 && (
+            <button onClick={() => onPatch({ pairs: pairs.filter((_, j) => j !== i) })} className={removeButtonClass} title="Remove pair">
+              <X size={14} />
+            </button>
+          )}
+        </div>
+      ))}
+      <button onClick={() => onPatch({ pairs: [...pairs, { prompt: '', match: '' }] })} className={addButtonClass}>
+        <Plus size={14} /> Add pair
+      </button>
+    </div>
+  );
+};
+
+// Single letter select for one-answer types, toggles for multiple-select, nothing for the rest
+export const AnswerPicker: React.FC<EditorProps> = ({ item, onPatch }) => {
+  const letters = answerLetters(item);
+
+  if (item.questionType === QuestionType.MULTIPLE_SELECT) {
+    const toggle = (letter: string) => onPatch({
+      correctAnswer: joinAnswerLetters(letters.includes(letter) ? letters.filter(l => l !== letter) : [...letters, letter])
+    });
+    return (
+      <div className="mt-2 flex flex-wrap justify-center gap-1.5">
+        {item.choices.map((_, i) => {
+          const letter = CHOICE_LETTERS[i];
+          const selected = letters.includes(letter);
+          return (
+            <button
+              key={letter}
+              onClick={() => toggle(letter)}
+              className={`w-8 h-8 rounded-lg text-xs font-bold border transition-all
+                ${selected ? 'bg-emerald-100 text-emerald-700 border-emerald-200 shadow-sm' : 'bg-slate-50 text-slate-400 border-slate-200 hover:border-slate-300'}`}
+              title={selected ? `Unmark ${letter}` : `Mark ${letter} correct`}
+            >
+              {letter}
+            </button>
+          );
+        })}
+      </div>
+    );
+  }
+
+  // Answers of the other types live in their editors
+  if (item.questionType !== QuestionType.MULTIPLE_CHOICE && item.questionType !== QuestionType.TRUE_FALSE) {
+    return <div className="mt-4 text-slate-300">—</div>;
+  }
+
+  const isTrueFalse = item.questionType === QuestionType.TRUE_FALSE;
+  return (
+    <div className="mt-2">
+      <select
+        value={item.correctAnswer}
+        onChange={(e) => onPatch({ correctAnswer: e.target.value })}
+        className={`w-full p-2.5 rounded-lg font-bold text-center border cursor-pointer transition-all outline-none focus:ring-2
+          ${item.correctAnswer
+            ? 'bg-emerald-100 text-emerald-700 border-emerald-200 focus:ring-emerald-500/20 shadow-sm'
+            : 'bg-slate-50 text-slate-400 border-slate-200 hover:border-slate-300 focus:ring-indigo-500/20'}
+        `}
+      >
+        <option value="">?</option>
+        {item.choices.map((choice, i) => (
+          <option key={i} value={CHOICE_LETTERS[i]}>{isTrueFalse ? choice || CHOICE_LETTERS[i] : CHOICE_LETTERS[i]}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+// The translated text of a question, slot by slot next to the original. Choices cannot be added
+// or removed here, since they have to line up with the original ones.
+export const TranslationEditor: React.FC<EditorProps & { translation: QuestionTranslation }> = ({ item, translation, onPatch }) => {
+  const update = (changes: Partial<QuestionTranslation>) => onPatch({ translation: { ...translation, ...changes } });
+  const replace = (list: string[] | undefined, index: number, value: string) =>
+    Array.from({ length: Math.max(list?.length || 0, index + 1) }, (_, i) => (i === index ? value : list?.[i] || ''));
+  const replacePair = (index: number, field: 'prompt' | 'match', value: string) =>
+    update({
+      pairs: (item.pairs || []).map((_, i) => {
+        const pair = translation.pairs?.[i] || { prompt: '', match: '' };
+        return i === index ? { ...pair, [field]: value } : pair;
+      })
+    });
+  const letters = answerLetters(item);
+
+  return (
+    <div className="space-y-2.5">
+      <textarea
+        dir="auto"
+        className={`${inputClass} bg-transparent font-medium text-slate-900 resize-y min-h-[80px] leading-relaxed`}
+        value={translation.question}
+        onChange={(e) => update({ question: e.target.value })}
+        placeholder={`Question in ${translation.language}...`}
+      />
+      {item.choices.map((_, i) => (
+        <div key={i} className="flex items-start gap-2">
+          <span className={`text-xs font-bold mt-2.5 w-5 ${letters.includes(CHOICE_LETTERS[i]) ? 'text-emerald-600' : 'text-slate-400'}`}>{CHOICE_LETTERS[i]}</span>
+          <input
+            type="text"
+            dir="auto"
+            className={`${inputClass} bg-transparent`}
+            value={translation.choices[i] || ''}
+            onChange={(e) => update({ choices: replace(translation.choices, i, e.target.value) })}
+          />
+        </div>
+      ))}
+      {(item.answers || []).map((_, i) => (
+        <div key={i} className="flex items-start gap-2">
+          <span className="text-xs font-bold mt-2.5 w-5 text-emerald-600">{item.questionType === QuestionType.FILL_IN_BLANK ? i + 1 : '='}</span>
+          <input
+            type="text"
+            dir="auto"
+            className={`${inputClass} font-semibold text-emerald-800 bg-emerald-50/50 border-emerald-200`}
+            value={translation.answers?.[i] || ''}
+            onChange={(e) => update({ answers: replace(translation.answers, i, e.target.value) })}
+          />
+        </div>
+      ))}
+      {(item.pairs || []).map((_, i) => (
+        <div key={i} className="flex items-start gap-1.5">
+          <span className="text-xs font-bold mt-2.5 w-5 text-slate-400">{i + 1}</span>
+          <input
+            type="text"
+            dir="auto"
+            className={`${inputClass} bg-transparent`}
+            value={translation.pairs?.[i]?.prompt || ''}
+            onChange={(e) => replacePair(i, 'prompt', e.target.value)}
+          />
+          <ArrowRight size={14} className="mt-2.5 shrink-0 text-slate-300 rtl:rotate-180" />
+          <input
+            type="text"
+            dir="auto"
+            className={`${inputClass} font-semibold text-emerald-800 bg-emerald-50/50 border-emerald-200`}
+            value={translation.pairs?.[i]?.match || ''}
+            onChange={(e) => replacePair(i, 'match', e.target.value)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,16 +1,119 @@
 import React, { useState } from 'react';
-import { McqData } from '../types';
-import * as XLSX from 'xlsx';
-import { Download, Table as TableIcon, Trash2, Edit3, ClipboardCheck, Copy, Check } from 'lucide-react';
+import { McqData, Passage, QuestionType, AnswerEvidence, AppLanguage, Difficulty, BloomLevel, CHOICE_LETTERS, Figure, FigureLink } from '../types';
+import { Download, Table as TableIcon, Trash2, Edit3, ClipboardCheck, Copy, Check, FileText, Eye, BookOpen, Loader2, AlertTriangle, AlertCircle, ShieldCheck, ArrowUpNarrowWide, X, Sigma, Languages, Library, Tags, StopCircle } from 'lucide-react';
+import { SourcePreview } from './SourcePreview';
+import { ValidationSettings } from './ValidationSettings';
+import { TaxonomySettings } from './TaxonomySettings';
+import { ChoicesEditor, AnswersEditor, PairsEditor, AnswerPicker, TranslationEditor } from './QuestionEditors';
+import { RichText, AnswerContentPreview } from './RichText';
+import { describeSource } from '../services/extractionPipeline';
+import { ExportFormat, EXPORT_FORMAT_LABELS, PassageExportMode, downloadFile, exportQuestions, labelPassages } from '../services/exportService';
+import { ALL_QUESTION_TYPES, QUESTION_TYPE_LABELS, convertQuestionType, isChoiceType } from '../services/questionTypes';
+import { DEFAULT_VALIDATION_CONFIG, ValidationConfig, checkExport, countIssues, validateItems } from '../services/validationService';
+import { conflictsWithKey } from '../services/answerKeyService';
+import { figureDataUrl, figureMarker } from '../services/figureService';
+import { richTextToPlain } from '../services/richText';
+import { textDirection } from '../services/languageService';
+import { TRANSLATION_LANGUAGES, TranslationExportMode, translatedItem } from '../services/translationService';
+import { BLOOM_LEVEL_LABELS, DIFFICULTY_LABELS, hasTags } from '../services/taggingService';
+
+const ANSWER_EVIDENCE_LABELS: Record<AnswerEvidence, string> = {
+  [AnswerEvidence.HIGHLIGHT]: 'Highlight',
+  [AnswerEvidence.MARK]: 'Mark',
+  [AnswerEvidence.STYLE]: 'Bold / underline',
+  [AnswerEvidence.ANSWER_KEY]: 'Answer key',
+  [AnswerEvidence.INFERRED]: 'Inferred',
+  [AnswerEvidence.NONE]: 'No evidence'
+};
+
+// Rows below this are worth a second look
+const LOW_CONFIDENCE = 0.7;
+
+// Rows without a score (typed in or from older sessions) are treated as certain
+const confidenceOf = (item: McqData): number => item.confidence ?? 1;
+
+const confidenceClass = (confidence: number): string => {
+  if (confidence < 0.5) return 'bg-red-50 text-red-600 border-red-100';
+  if (confidence < LOW_CONFIDENCE) return 'bg-amber-50 text-amber-600 border-amber-100';
+  return 'bg-emerald-50 text-emerald-600 border-emerald-100';
+};
+
+// Read from the current text rather than the detected language, so edits and bilingual
+// documents (Arabic rows next to English ones) each lay out their own way
+const rowDirection = (item: McqData): 'rtl' | 'ltr' =>
+  textDirection([item.question, ...item.choices, ...(item.answers || []), ...(item.pairs || []).map(pair => pair.prompt)].join(' '));
+
+// Thumbnails of the figures linked to a question; choice figures are tagged with their letter
+const FigureThumbnails: React.FC<{ links: FigureLink[]; figureById: Map<string, Figure>; onRemove: (link: FigureLink) => void }> = ({ links, figureById, onRemove }) => {
+  const shown = links.filter(link => figureById.has(link.figureId));
+  if (shown.length === 0) return null;
+  return (
+    <div className="mt-2 ml-1 flex flex-wrap gap-2">
+      {shown.map(link => {
+        const figure = figureById.get(link.figureId)!;
+        return (
+          <div key={`${link.figureId}-${link.choice ?? 'q'}`} className="relative group/figure">
+            <img
+              src={figureDataUrl(figure)}
+              alt={figureMarker(figure.label)}
+              title={figureMarker(figure.label)}
+              className="h-20 max-w-[160px] object-contain rounded-md border border-slate-200 bg-white"
+            />
+            {link.choice !== undefined && (
+              <span className="absolute bottom-1 left-1 px-1 rounded bg-indigo-600 text-white text-[10px] font-bold">{CHOICE_LETTERS[link.choice]}</span>
+            )}
+            <button
+              onClick={() => onRemove(link)}
+              className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-white border border-slate-200 text-slate-400 hover:text-red-500 opacity-0 group-hover/figure:opacity-100 transition-opacity"
+              title="Unlink figure"
+            >
+              <X size={10} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
 
 interface ResultsTableProps {
   data: McqData[];
+  passages: Passage[];
+  figures?: Figure[]; // Images linked to questions, by FigureLink.figureId
   onUpdate: (id: string, field: keyof McqData, value: string) => void;
+  onPatch: (id: string, changes: Partial<McqData>) => void;
+  onUpdatePassage: (id: string, text: string) => void;
+  onUpdatePassageTranslation?: (id: string, text: string) => void;
   onDelete: (id: string) => void;
+  sourceFiles?: Record<string, File>; // Uploaded files by queue item id, used to preview where a question came from
+  pageFiles?: Record<string, File[]>; // Photos of image documents, by queue item id
+  onTranslate?: (target: AppLanguage) => void;
+  translationProgress?: string; // Set while a translation is running
+  onCancelTranslation?: () => void;
+  onSaveToBank?: (items: McqData[]) => void;
+  taxonomy?: string[]; // Topics offered for the topic column and the tagging pass
+  onTaxonomyChange?: (taxonomy: string[]) => void;
+  onTag?: (taxonomy: string[]) => void;
+  taggingProgress?: string; // Set while the tagging pass runs
+  onCancelTagging?: () => void;
 }
 
-export const ResultsTable: React.FC<ResultsTableProps> = ({ data, onUpdate, onDelete }) => {
+export const ResultsTable: React.FC<ResultsTableProps> = ({ data, passages, figures = [], onUpdate, onPatch, onUpdatePassage, onUpdatePassageTranslation, onDelete, sourceFiles: uploadedFiles = {}, pageFiles = {}, onTranslate, translationProgress, onCancelTranslation, onSaveToBank, taxonomy = [], onTaxonomyChange, onTag, taggingProgress, onCancelTagging }) => {
   const [copied, setCopied] = useState(false);
+  const [fileFilter, setFileFilter] = useState<string>('');
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [passageMode, setPassageMode] = useState<PassageExportMode>('sheet');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(ExportFormat.EXCEL);
+  const [exporting, setExporting] = useState(false);
+  const [validationConfig, setValidationConfig] = useState<ValidationConfig>(DEFAULT_VALIDATION_CONFIG);
+  const [showRules, setShowRules] = useState(false);
+  const [showTaxonomy, setShowTaxonomy] = useState(false);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [lowConfidenceFirst, setLowConfidenceFirst] = useState(false);
+  // Shows question text rendered (math, tables, code) instead of the Markdown source
+  const [richPreview, setRichPreview] = useState(false);
+  const [translateTarget, setTranslateTarget] = useState<AppLanguage>(AppLanguage.ENGLISH);
+  const [languageMode, setLanguageMode] = useState<TranslationExportMode>('original');
 
   if (data.length === 0) {
       return (
@@ -23,23 +126,98 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, onUpdate, onDe
       );
   }
 
-  const handleDownload = () => {
-    const headers = ['Question', 'Choice A', 'Choice B', 'Choice C', 'Choice D', 'Correct Answer', 'Passage'];
-    const rows = data.map(item => [
-      item.question, item.choiceA, item.choiceB, item.choiceC, item.choiceD, item.correctAnswer, item.passage || ''
-    ]);
-    const worksheet = XLSX.utils.aoa_to_sheet([headers, ...rows]);
-    const wscols = [{ wch: 60 }, { wch: 20 }, { wch: 20 }, { wch: 20 }, { wch: 20 }, { wch: 15 }, { wch: 40 }];
-    worksheet['!cols'] = wscols;
-    const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, "MCQs");
-    XLSX.writeFile(workbook, "extracted_mcqs.xlsx");
+  // Keep rows from the same file together, in upload order. Files are told apart by queue item,
+  // so two uploads with the same name stay separate.
+  const sourceIds: string[] = Array.from(new Set(data.map(item => item.sourceId || '')));
+  const sourceNames = new Map<string, string>();
+  const nameCounts = new Map<string, number>();
+  sourceIds.forEach(id => {
+    const name = data.find(item => (item.sourceId || '') === id)?.sourceFile || 'Unknown source';
+    const count = (nameCounts.get(name) || 0) + 1;
+    nameCounts.set(name, count);
+    sourceNames.set(id, count > 1 ? `${name} (${count})` : name);
+  });
+  const activeFilter = sourceIds.includes(fileFilter) ? fileFilter : '';
+  const fileRows = data
+    .filter(item => !activeFilter || (item.sourceId || '') === activeFilter)
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => sourceIds.indexOf(a.item.sourceId || '') - sourceIds.indexOf(b.item.sourceId || '') || a.index - b.index)
+    .map(({ item }) => item);
+
+  // Issues are derived on every render so they follow edits immediately
+  const issues = validateItems(fileRows, validationConfig);
+  const errorCount = countIssues(issues, 'error');
+  const warningCount = countIssues(issues, 'warning');
+  // The problem filter only narrows the view; copy and export still cover every row of the file filter
+  const filtered = problemsOnly ? fileRows.filter(item => issues.has(item.id)) : fileRows;
+  // Array.sort is stable, so equally confident rows keep document order
+  const visible = lowConfidenceFirst ? [...filtered].sort((a, b) => confidenceOf(a) - confidenceOf(b)) : filtered;
+  const lowConfidenceCount = fileRows.filter(item => confidenceOf(item) < LOW_CONFIDENCE).length;
+  const keyedCount = fileRows.filter(item => item.keyAnswer !== undefined).length;
+  const keyConflictCount = fileRows.filter(conflictsWithKey).length;
+  // File headers only make sense while rows stay grouped by file
+  const showGroups = !activeFilter && sourceIds.length > 1 && !lowConfidenceFirst;
+  const previewItem = visible.find(item => item.id === previewId);
+  // The translation column appears once any row of the file filter has been translated
+  const showTranslation = fileRows.some(item => item.translation);
+  // Topic, difficulty and Bloom columns appear once there is a taxonomy or any row is tagged
+  const showTags = taxonomy.length > 0 || fileRows.some(hasTags);
+  const columnCount = 6 + (showTranslation ? 1 : 0) + (showTags ? 3 : 0);
+  const untaggedCount = fileRows.filter(item => !item.topic || !item.difficulty || !item.bloomLevel).length;
+
+  // Short labels (P1, P2...) in order of first use, shared by the table and the exports
+  const passageById = new Map<string, Passage>(passages.map((passage: Passage) => [passage.id, passage]));
+  const figureById = new Map<string, Figure>(figures.map((figure: Figure) => [figure.id, figure]));
+  const unlinkFigure = (item: McqData, removed: FigureLink) =>
+    onPatch(item.id, { figures: (item.figures || []).filter(link => link !== removed) });
+  const passageLabels = new Map<string, string>(
+    Array.from(labelPassages(fileRows, passages).entries()).map(([id, { label }]) => [id, label])
+  );
+  const passageText = (item: McqData) => (item.passageId && passageById.get(item.passageId)?.text) || '';
+  const passageLabel = (item: McqData) => (item.passageId && passageLabels.get(item.passageId)) || '';
+  const linkedCount = (passageId: string) => fileRows.filter(item => item.passageId === passageId).length;
+
+  const handleDownload = async () => {
+    const check = checkExport(issues, validationConfig);
+    if (check.errorCount > 0) {
+      const summary = `${check.errorCount} validation error(s) remain in ${check.erroredItems} question(s).`;
+      if (check.blocked) {
+        alert(`${summary} Fix them or turn off "Block export while errors remain" in the validation rules.`);
+        return;
+      }
+      if (!confirm(`${summary} Export anyway?`)) return;
+    }
+
+    setExporting(true);
+    try {
+      const file = await exportQuestions(exportFormat, fileRows, passages, { passageMode, languageMode: showTranslation ? languageMode : 'original' }, figures);
+      downloadFile(file);
+      if (file.skipped > 0) {
+        alert(`${file.skipped} question(s) were left out of the ${EXPORT_FORMAT_LABELS[exportFormat]} export because they have no answer or the format does not support their type.`);
+      }
+    } catch (err: any) {
+      alert(err?.message || 'Export failed.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const copyAnswerText = (item: McqData): string => {
+    if (item.questionType === QuestionType.MATCHING) {
+      return (item.pairs || []).map(pair => `${richTextToPlain(pair.prompt)} → ${richTextToPlain(pair.match)}\n`).join('');
+    }
+    if (!isChoiceType(item.questionType)) return `Answer: ${(item.answers || []).map(richTextToPlain).join(' | ')}`;
+    const choices = item.choices.map((choice, i) => `${CHOICE_LETTERS[i]}) ${richTextToPlain(choice)}\n`).join('');
+    return `${choices}Answer: ${item.correctAnswer}`;
   };
 
   const handleCopy = () => {
-    const text = data.map(item => 
-      `${item.question}\nA) ${item.choiceA}\nB) ${item.choiceB}\nC) ${item.choiceC}\nD) ${item.choiceD}\nAnswer: ${item.correctAnswer}\n`
-    ).join('\n---\n');
+    const text = fileRows.map((item, index) => {
+      // Each passage is written once, before the first of its questions
+      const startsPassage = item.passageId && fileRows[index - 1]?.passageId !== item.passageId;
+      const passage = startsPassage && passageText(item) ? `[${passageLabel(item)}] ${richTextToPlain(passageText(item))}\n\n` : '';
+      return `${passage}${richTextToPlain(item.question)}\n${copyAnswerText(item)}\n`;
+    }).join('\n---\n');
     navigator.clipboard.writeText(text);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
@@ -54,11 +232,116 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, onUpdate, onDe
           </div>
           Extracted Results 
           <span className="text-sm font-medium text-slate-500 ml-2 bg-slate-100 px-2 py-0.5 rounded-md border border-slate-200">
-            {data.length} items
+            {visible.length} items
           </span>
+          {keyedCount > 0 && (
+            <span
+              className={`text-xs font-semibold px-2 py-1 rounded-md border ${keyConflictCount > 0 ? 'bg-amber-50 text-amber-700 border-amber-100' : 'bg-emerald-50 text-emerald-700 border-emerald-100'}`}
+              title="Questions matched to an answer key by their printed number"
+            >
+              {keyedCount} matched to key{keyConflictCount > 0 && ` · ${keyConflictCount} conflict${keyConflictCount === 1 ? '' : 's'}`}
+            </span>
+          )}
         </h2>
         
-        <div className="flex items-center gap-3">
+        <div className="flex items-center gap-3 flex-wrap">
+            <button
+              onClick={() => setProblemsOnly(!problemsOnly)}
+              disabled={issues.size === 0 && !problemsOnly}
+              className={`flex items-center gap-2 border px-4 py-2.5 rounded-xl font-semibold text-sm transition-all shadow-sm disabled:opacity-50 disabled:cursor-not-allowed
+                ${problemsOnly ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-200'}`}
+              title="Show only questions with validation issues"
+            >
+              {errorCount > 0 ? <AlertCircle size={16} className="text-red-500" /> : <AlertTriangle size={16} className={warningCount > 0 ? 'text-amber-500' : ''} />}
+              {problemsOnly ? 'Showing problems' : 'Only problems'} ({issues.size})
+            </button>
+            <button
+              onClick={() => setLowConfidenceFirst(!lowConfidenceFirst)}
+              className={`flex items-center gap-2 border px-4 py-2.5 rounded-xl font-semibold text-sm transition-all shadow-sm
+                ${lowConfidenceFirst ? 'bg-indigo-50 text-indigo-700 border-indigo-200' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-200'}`}
+              title="Sort the least confident extractions to the top"
+            >
+              <ArrowUpNarrowWide size={16} />
+              Low confidence first ({lowConfidenceCount})
+            </button>
+            <button
+              onClick={() => setRichPreview(!richPreview)}
+              className={`flex items-center gap-2 border px-4 py-2.5 rounded-xl font-semibold text-sm transition-all shadow-sm
+                ${richPreview ? 'bg-indigo-50 text-indigo-700 border-indigo-200' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-200'}`}
+              title="Switch between rendered math and tables, and the editable Markdown/LaTeX source"
+            >
+              {richPreview ? <Edit3 size={16} /> : <Sigma size={16} />}
+              {richPreview ? 'Edit text' : 'Preview'}
+            </button>
+            <button
+              onClick={() => setShowTaxonomy(!showTaxonomy)}
+              className={`p-2.5 rounded-xl border transition-all shadow-sm ${showTaxonomy ? 'bg-indigo-50 text-indigo-600 border-indigo-200' : 'bg-white text-slate-500 border-slate-200 hover:text-indigo-600 hover:border-indigo-200'}`}
+              title="Topics, difficulty and Bloom level"
+            >
+              <Tags size={18} />
+            </button>
+            <button
+              onClick={() => setShowRules(!showRules)}
+              className={`p-2.5 rounded-xl border transition-all shadow-sm ${showRules ? 'bg-indigo-50 text-indigo-600 border-indigo-200' : 'bg-white text-slate-500 border-slate-200 hover:text-indigo-600 hover:border-indigo-200'}`}
+              title="Validation rules"
+            >
+              <ShieldCheck size={18} />
+            </button>
+            {sourceIds.length > 1 && (
+              <select
+                value={activeFilter}
+                onChange={(e) => setFileFilter(e.target.value)}
+                className="bg-white text-slate-600 border border-slate-200 hover:border-indigo-200 px-3 py-2.5 rounded-xl font-semibold text-sm shadow-sm outline-none focus:ring-2 focus:ring-indigo-500/20 max-w-[220px]"
+                title="Filter by source file"
+              >
+                <option value="">All files ({sourceIds.length})</option>
+                {sourceIds.map(id => (
+                  <option key={id} value={id}>{sourceNames.get(id)}</option>
+                ))}
+              </select>
+            )}
+            {onTranslate && (
+              <div className="flex items-center">
+                <select
+                  value={translateTarget}
+                  onChange={(e) => setTranslateTarget(e.target.value as AppLanguage)}
+                  disabled={!!translationProgress}
+                  className="bg-white text-slate-600 border border-slate-200 border-r-0 hover:border-indigo-200 px-3 py-2.5 rounded-l-xl font-semibold text-sm shadow-sm outline-none focus:ring-2 focus:ring-indigo-500/20"
+                  title="Language to translate into"
+                >
+                  {TRANSLATION_LANGUAGES.map(language => (
+                    <option key={language} value={language}>{language}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onTranslate(translateTarget)}
+                  disabled={!!translationProgress}
+                  className="flex items-center gap-2 bg-white text-slate-600 hover:text-indigo-600 border border-slate-200 hover:border-indigo-200 px-4 py-2.5 rounded-r-xl font-semibold text-sm transition-all shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
+                  title="Translate the questions that have no translation into this language yet"
+                >
+                  {translationProgress ? <Loader2 size={16} className="animate-spin" /> : <Languages size={16} />}
+                  {translationProgress || 'Translate'}
+                </button>
+                {translationProgress && onCancelTranslation && (
+                  <button
+                    onClick={onCancelTranslation}
+                    className="ml-2 p-2.5 rounded-xl border border-slate-200 bg-white text-slate-400 hover:text-red-500 hover:border-red-200 transition-all shadow-sm"
+                    title="Stop translating; finished batches are kept"
+                  >
+                    <StopCircle size={16} />
+                  </button>
+                )}
+              </div>
+            )}
+            {onSaveToBank && (
+              <button
+                onClick={() => onSaveToBank(fileRows)}
+                className="flex items-center gap-2 bg-white text-slate-600 hover:text-indigo-600 border border-slate-200 hover:border-indigo-200 px-4 py-2.5 rounded-xl font-semibold text-sm transition-all shadow-sm"
+                title="Keep these questions in the local question bank"
+              >
+                <Library size={16} /> Save to Bank
+              </button>
+            )}
             <button
               onClick={handleCopy}
               className="flex items-center gap-2 bg-white text-slate-600 hover:text-indigo-600 border border-slate-200 hover:border-indigo-200 px-4 py-2.5 rounded-xl font-semibold transition-all shadow-sm"
@@ -66,88 +349,290 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, onUpdate, onDe
               {copied ? <Check size={18} className="text-emerald-500" /> : <Copy size={18} />}
               {copied ? 'Copied' : 'Copy Text'}
             </button>
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              className="bg-white text-slate-600 border border-slate-200 hover:border-indigo-200 px-3 py-2.5 rounded-xl font-semibold text-sm shadow-sm outline-none focus:ring-2 focus:ring-indigo-500/20"
+              title="Export format"
+            >
+              {Object.values(ExportFormat).map(format => (
+                <option key={format} value={format}>{EXPORT_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+            {exportFormat === ExportFormat.EXCEL && passageLabels.size > 0 && (
+              <select
+                value={passageMode}
+                onChange={(e) => setPassageMode(e.target.value as PassageExportMode)}
+                className="bg-white text-slate-600 border border-slate-200 hover:border-indigo-200 px-3 py-2.5 rounded-xl font-semibold text-sm shadow-sm outline-none focus:ring-2 focus:ring-indigo-500/20"
+                title="How passages are written to Excel"
+              >
+                <option value="sheet">Passages: separate sheet</option>
+                <option value="column">Passages: inline column</option>
+              </select>
+            )}
+            {showTranslation && (
+              <select
+                value={languageMode}
+                onChange={(e) => setLanguageMode(e.target.value as TranslationExportMode)}
+                className="bg-white text-slate-600 border border-slate-200 hover:border-indigo-200 px-3 py-2.5 rounded-xl font-semibold text-sm shadow-sm outline-none focus:ring-2 focus:ring-indigo-500/20"
+                title="Which text to export"
+              >
+                <option value="original">Text: original</option>
+                <option value="translation">Text: translation</option>
+                <option value="bilingual">Text: bilingual</option>
+              </select>
+            )}
             <button
             onClick={handleDownload}
+            disabled={exporting}
             className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-6 py-2.5 rounded-xl font-bold transition-all shadow-lg shadow-emerald-500/20 hover:shadow-emerald-500/30 active:scale-95"
             >
-            <Download size={18} />
-            Download Excel
+            {exporting ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
+            Download
             </button>
         </div>
       </div>
 
-      <div className="border border-slate-200 rounded-2xl overflow-hidden shadow-xl shadow-slate-200/50 bg-white flex flex-col max-h-[800px]">
+      {showTaxonomy && (
+        <TaxonomySettings
+          taxonomy={taxonomy}
+          onChange={(next) => onTaxonomyChange?.(next)}
+          onTag={onTag ? (next) => onTag(next) : undefined}
+          progress={taggingProgress}
+          onCancel={onCancelTagging}
+          untagged={untaggedCount}
+          onClose={() => setShowTaxonomy(false)}
+        />
+      )}
+      {showRules && (
+        <ValidationSettings config={validationConfig} onChange={setValidationConfig} onClose={() => setShowRules(false)} />
+      )}
+
+      <div className="flex flex-col lg:flex-row gap-4 items-start">
+      <div className="flex-1 min-w-0 w-full border border-slate-200 rounded-2xl overflow-hidden shadow-xl shadow-slate-200/50 bg-white flex flex-col max-h-[800px]">
         <div className="overflow-auto custom-scrollbar">
-          <table className="w-full text-left text-sm border-collapse">
+          <table className="w-full text-start text-sm border-collapse">
             <thead className="bg-slate-50 text-slate-700 border-b border-slate-200 sticky top-0 z-10 shadow-sm">
               <tr>
                 <th className="p-4 font-bold text-center w-14 bg-slate-50">#</th>
                 <th className="p-4 font-bold min-w-[280px] bg-slate-50">Question</th>
-                <th className="p-4 font-bold min-w-[320px] bg-slate-50">Choices (A-D)</th>
+                <th className="p-4 font-bold min-w-[320px] bg-slate-50">Choices / Answers</th>
+                {showTranslation && <th className="p-4 font-bold min-w-[320px] bg-slate-50">Translation</th>}
                 <th className="p-4 font-bold w-28 bg-slate-50 text-center">Answer</th>
                 <th className="p-4 font-bold min-w-[200px] bg-slate-50">Passage</th>
+                {showTags && (
+                  <>
+                    <th className="p-4 font-bold min-w-[180px] bg-slate-50">Topic</th>
+                    <th className="p-4 font-bold w-32 bg-slate-50">Difficulty</th>
+                    <th className="p-4 font-bold w-36 bg-slate-50">Bloom Level</th>
+                  </>
+                )}
                 <th className="p-4 font-bold w-16 bg-slate-50"></th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-100">
-              {data.map((item, index) => (
-                <tr key={item.id} className="hover:bg-indigo-50/30 transition-colors group">
-                  <td className="p-4 text-slate-400 align-top text-center font-semibold pt-6">{index + 1}</td>
-                  <td className="p-3 align-top">
-                    <textarea
-                      className="w-full bg-transparent border border-transparent hover:border-slate-300 focus:border-indigo-500 focus:bg-white focus:ring-4 focus:ring-indigo-500/10 rounded-lg p-3 text-slate-900 font-medium resize-y min-h-[100px] transition-all text-base leading-relaxed"
-                      value={item.question}
-                      onChange={(e) => onUpdate(item.id, 'question', e.target.value)}
-                      placeholder="Question..."
-                    />
+              {visible.map((item, index) => (
+                <React.Fragment key={item.id}>
+                {showGroups && (index === 0 || visible[index - 1].sourceId !== item.sourceId) && (
+                  <tr className="bg-slate-50/80">
+                    <td colSpan={columnCount} className="px-4 py-2 text-xs font-bold text-slate-600 uppercase tracking-wide">
+                      <span className="flex items-center gap-2">
+                        <FileText size={14} className="text-indigo-500" />
+                        {sourceNames.get(item.sourceId || '')}
+                      </span>
+                    </td>
+                  </tr>
+                )}
+                {item.passageId && passageById.has(item.passageId) && (index === 0 || visible[index - 1].passageId !== item.passageId) && (
+                  <tr className="bg-amber-50/40" dir={textDirection(passageById.get(item.passageId)!.text)}>
+                    <td className="p-4 text-center align-top pt-5">
+                      <BookOpen size={16} className="text-amber-500 mx-auto" />
+                    </td>
+                    <td colSpan={columnCount - 1} className="p-3">
+                      <div className="text-[11px] font-bold text-amber-700 uppercase tracking-wide mb-1.5 ml-1">
+                        Passage {passageLabel(item)} · {linkedCount(item.passageId)} linked question{linkedCount(item.passageId) === 1 ? '' : 's'}
+                      </div>
+                      <div className={showTranslation ? 'grid grid-cols-2 gap-3' : ''}>
+                        {richPreview ? (
+                          <RichText text={passageById.get(item.passageId)!.text} className="bg-white/60 border border-amber-100 rounded-lg p-3 text-slate-700 text-sm" placeholder="Passage..." />
+                        ) : (
+                          <textarea
+                            dir="auto"
+                            className="w-full bg-white/60 border border-amber-100 hover:border-amber-300 focus:border-indigo-500 focus:bg-white focus:ring-4 focus:ring-indigo-500/10 rounded-lg p-3 text-slate-700 text-sm resize-y min-h-[90px] transition-all leading-relaxed"
+                            value={passageById.get(item.passageId)!.text}
+                            onChange={(e) => onUpdatePassage(item.passageId!, e.target.value)}
+                            placeholder="Passage..."
+                          />
+                        )}
+                        {showTranslation && (richPreview || !onUpdatePassageTranslation ? (
+                          <RichText text={passageById.get(item.passageId)!.translation?.text || ''} className="bg-white/60 border border-amber-100 rounded-lg p-3 text-slate-700 text-sm" placeholder="Not translated" />
+                        ) : (
+                          <textarea
+                            dir="auto"
+                            className="w-full bg-white/60 border border-amber-100 hover:border-amber-300 focus:border-indigo-500 focus:bg-white focus:ring-4 focus:ring-indigo-500/10 rounded-lg p-3 text-slate-700 text-sm resize-y min-h-[90px] transition-all leading-relaxed"
+                            value={passageById.get(item.passageId)!.translation?.text || ''}
+                            onChange={(e) => onUpdatePassageTranslation(item.passageId!, e.target.value)}
+                            placeholder="Translated passage..."
+                          />
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                )}
+                <tr dir={rowDirection(item)} className={`transition-colors group ${item.id === previewId ? 'bg-indigo-50/60' : 'hover:bg-indigo-50/30'}`}>
+                  <td className="p-4 text-slate-400 align-top text-center font-semibold pt-6">
+                    {fileRows.indexOf(item) + 1}
+                    {item.questionNumber && item.questionNumber !== String(fileRows.indexOf(item) + 1) && (
+                      <div className="text-[10px] font-medium text-slate-400 mt-0.5" title="Number printed in the document">Q{item.questionNumber}</div>
+                    )}
+                    {issues.has(item.id) && (
+                      <div
+                        className={`mt-1.5 mx-auto w-fit px-1.5 py-0.5 rounded-md text-[10px] font-bold flex items-center gap-0.5
+                          ${issues.get(item.id)!.some(issue => issue.severity === 'error') ? 'bg-red-50 text-red-600' : 'bg-amber-50 text-amber-600'}`}
+                        title={issues.get(item.id)!.map(issue => issue.message).join('\n')}
+                      >
+                        <AlertTriangle size={10} /> {issues.get(item.id)!.length}
+                      </div>
+                    )}
+                    {item.source && (
+                      <div className="text-[10px] font-medium text-slate-400 mt-1 leading-tight">{describeSource(item.source)}</div>
+                    )}
                   </td>
                   <td className="p-3 align-top">
-                    <div className="space-y-2.5">
-                        {['A', 'B', 'C', 'D'].map((opt) => (
-                            <div key={opt} className="flex items-start gap-2 relative group/choice">
-                                <span className={`text-xs font-bold mt-2.5 w-5 ${item.correctAnswer === opt ? 'text-emerald-600' : 'text-slate-400'}`}>
-                                    {opt}
-                                </span>
-                                <input
-                                    type="text"
-                                    className={`w-full border border-transparent hover:border-slate-300 focus:border-indigo-500 focus:bg-white rounded-md p-2 text-slate-700 text-sm transition-all 
-                                    ${item.correctAnswer === opt ? 'font-semibold text-emerald-800 bg-emerald-50/50 border-emerald-200' : 'bg-transparent'}`}
-                                    value={item[`choice${opt}` as keyof McqData] as string}
-                                    onChange={(e) => onUpdate(item.id, `choice${opt}` as keyof McqData, e.target.value)}
-                                />
-                            </div>
+                    <select
+                      value={item.questionType}
+                      onChange={(e) => onPatch(item.id, convertQuestionType(item, e.target.value as QuestionType))}
+                      className="mb-1.5 ml-1 px-2 py-1 rounded-md text-[11px] font-bold uppercase tracking-wide border border-slate-200 bg-slate-50 text-indigo-600 cursor-pointer outline-none hover:border-slate-300 focus:ring-2 focus:ring-indigo-500/20"
+                      title="Question type"
+                    >
+                      {ALL_QUESTION_TYPES.map(type => (
+                        <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
+                    {richPreview ? (
+                      <RichText text={item.question} className="p-3 text-slate-900 font-medium text-base" placeholder="Question..." />
+                    ) : (
+                      <textarea
+                        dir="auto"
+                        className="w-full bg-transparent border border-transparent hover:border-slate-300 focus:border-indigo-500 focus:bg-white focus:ring-4 focus:ring-indigo-500/10 rounded-lg p-3 text-slate-900 font-medium resize-y min-h-[100px] transition-all text-base leading-relaxed"
+                        value={item.question}
+                        onChange={(e) => onUpdate(item.id, 'question', e.target.value)}
+                        placeholder="Question..."
+                      />
+                    )}
+                    <FigureThumbnails links={item.figures || []} figureById={figureById} onRemove={(link) => unlinkFigure(item, link)} />
+                    {issues.has(item.id) && (
+                      <ul className="mt-1 ml-1 space-y-0.5">
+                        {issues.get(item.id)!.map((issue, i) => (
+                          <li key={i} className={`text-[11px] flex items-start gap-1 ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}>
+                            {issue.severity === 'error' ? <AlertCircle size={12} className="mt-px shrink-0" /> : <AlertTriangle size={12} className="mt-px shrink-0" />}
+                            {issue.message}
+                          </li>
                         ))}
-                    </div>
+                      </ul>
+                    )}
+                  </td>
+                  <td className="p-3 align-top">
+                    {richPreview && <AnswerContentPreview item={item} />}
+                    {!richPreview && isChoiceType(item.questionType) && <ChoicesEditor item={item} onPatch={(changes) => onPatch(item.id, changes)} />}
+                    {!richPreview && item.questionType === QuestionType.MATCHING && <PairsEditor item={item} onPatch={(changes) => onPatch(item.id, changes)} />}
+                    {!richPreview && (item.questionType === QuestionType.FILL_IN_BLANK || item.questionType === QuestionType.SHORT_ANSWER) && (
+                      <AnswersEditor item={item} onPatch={(changes) => onPatch(item.id, changes)} />
+                    )}
                   </td>
+                  {showTranslation && (
+                    <td className="p-3 align-top" dir={item.translation ? textDirection(item.translation.question) : undefined}>
+                      {item.translation && (
+                        <div className="mb-1.5 ml-1 text-[11px] font-bold uppercase tracking-wide text-slate-400">{item.translation.language}</div>
+                      )}
+                      {!item.translation && <div className="p-3 text-slate-300 italic text-sm">Not translated</div>}
+                      {item.translation && richPreview && (
+                        <div className="space-y-2">
+                          <RichText text={item.translation.question} className="p-3 text-slate-900 font-medium text-base" />
+                          <AnswerContentPreview item={translatedItem(item, item.translation)} />
+                        </div>
+                      )}
+                      {item.translation && !richPreview && (
+                        <TranslationEditor item={item} translation={item.translation} onPatch={(changes) => onPatch(item.id, changes)} />
+                      )}
+                    </td>
+                  )}
                   <td className="p-3 align-top text-center">
-                    <div className="mt-2">
-                        <select
-                            value={item.correctAnswer}
-                            onChange={(e) => onUpdate(item.id, 'correctAnswer', e.target.value)}
-                            className={`w-full p-2.5 rounded-lg font-bold text-center border cursor-pointer transition-all outline-none focus:ring-2
-                                ${item.correctAnswer 
-                                    ? 'bg-emerald-100 text-emerald-700 border-emerald-200 focus:ring-emerald-500/20 shadow-sm' 
-                                    : 'bg-slate-50 text-slate-400 border-slate-200 hover:border-slate-300 focus:ring-indigo-500/20'}
-                            `}
-                        >
-                            <option value="">?</option>
-                            <option value="A">A</option>
-                            <option value="B">B</option>
-                            <option value="C">C</option>
-                            <option value="D">D</option>
-                            <option value="E">E</option>
-                        </select>
-                    </div>
+                    <AnswerPicker item={item} onPatch={(changes) => onPatch(item.id, changes)} />
+                    {(item.answerEvidence || item.confidence !== undefined) && (
+                      <div
+                        className={`mt-2 mx-auto w-fit px-1.5 py-0.5 rounded-md border text-[10px] font-bold leading-tight ${confidenceClass(confidenceOf(item))}`}
+                        title="What the answer was read from, and how sure the extractor was"
+                      >
+                        {item.answerEvidence && <div>{ANSWER_EVIDENCE_LABELS[item.answerEvidence]}</div>}
+                        {item.confidence !== undefined && <div>{Math.round(item.confidence * 100)}%</div>}
+                      </div>
+                    )}
                   </td>
                   <td className="p-3 align-top">
-                    <textarea
-                      className="w-full bg-slate-50/50 border border-transparent hover:border-slate-300 focus:border-indigo-500 focus:bg-white focus:ring-4 focus:ring-indigo-500/10 rounded-lg p-3 text-slate-600 text-xs resize-y min-h-[100px] transition-all italic leading-relaxed"
-                      value={item.passage || ''}
-                      onChange={(e) => onUpdate(item.id, 'passage', e.target.value)}
-                      placeholder="Passage..."
-                    />
+                    <select
+                      value={item.passageId && passageById.has(item.passageId) ? item.passageId : ''}
+                      onChange={(e) => onUpdate(item.id, 'passageId', e.target.value)}
+                      className="w-full mt-2 p-2.5 rounded-lg text-xs border border-slate-200 bg-slate-50/50 text-slate-600 cursor-pointer outline-none hover:border-slate-300 focus:ring-2 focus:ring-indigo-500/20"
+                      title="Linked passage"
+                    >
+                      <option value="">No passage</option>
+                      {passages
+                        .filter(passage => (passage.sourceId || '') === (item.sourceId || ''))
+                        .map(passage => (
+                          <option key={passage.id} value={passage.id}>
+                            {passageLabels.get(passage.id) || 'Unlinked'}: {passage.text.slice(0, 40)}{passage.text.length > 40 ? '…' : ''}
+                          </option>
+                        ))}
+                    </select>
                   </td>
+                  {showTags && (
+                    <>
+                      <td className="p-3 align-top">
+                        <input
+                          type="text"
+                          dir="auto"
+                          list="taxonomy-topics"
+                          value={item.topic || ''}
+                          onChange={(e) => onPatch(item.id, { topic: e.target.value || undefined })}
+                          placeholder="Topic"
+                          className={`w-full mt-2 p-2.5 rounded-lg text-xs border bg-slate-50/50 text-slate-700 outline-none hover:border-slate-300 focus:ring-2 focus:ring-indigo-500/20
+                            ${item.topic && taxonomy.length > 0 && !taxonomy.includes(item.topic) ? 'border-amber-300' : 'border-slate-200'}`}
+                          title={item.topic && taxonomy.length > 0 && !taxonomy.includes(item.topic) ? 'Not in the topic taxonomy' : 'Topic'}
+                        />
+                      </td>
+                      <td className="p-3 align-top">
+                        <select
+                          value={item.difficulty || ''}
+                          onChange={(e) => onPatch(item.id, { difficulty: (e.target.value || undefined) as Difficulty | undefined })}
+                          className="w-full mt-2 p-2.5 rounded-lg text-xs border border-slate-200 bg-slate-50/50 text-slate-600 cursor-pointer outline-none hover:border-slate-300 focus:ring-2 focus:ring-indigo-500/20"
+                          title="Difficulty"
+                        >
+                          <option value="">—</option>
+                          {Object.values(Difficulty).map(level => <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>)}
+                        </select>
+                      </td>
+                      <td className="p-3 align-top">
+                        <select
+                          value={item.bloomLevel || ''}
+                          onChange={(e) => onPatch(item.id, { bloomLevel: (e.target.value || undefined) as BloomLevel | undefined })}
+                          className="w-full mt-2 p-2.5 rounded-lg text-xs border border-slate-200 bg-slate-50/50 text-slate-600 cursor-pointer outline-none hover:border-slate-300 focus:ring-2 focus:ring-indigo-500/20"
+                          title="Bloom level"
+                        >
+                          <option value="">—</option>
+                          {Object.values(BloomLevel).map(level => <option key={level} value={level}>{BLOOM_LEVEL_LABELS[level]}</option>)}
+                        </select>
+                      </td>
+                    </>
+                  )}
                   <td className="p-3 align-middle text-center">
+                    <button
+                        onClick={() => setPreviewId(previewId === item.id ? null : item.id)}
+                        className={`p-2.5 rounded-lg transition-all focus:opacity-100 ${item.id === previewId ? 'text-indigo-600 bg-indigo-100 opacity-100' : 'text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 opacity-0 group-hover:opacity-100'}`}
+                        title="Preview Source"
+                    >
+                        <Eye size={18} />
+                    </button>
                     <button
                         onClick={() => onDelete(item.id)}
                         className="text-slate-300 hover:text-red-500 hover:bg-red-50 p-2.5 rounded-lg transition-all opacity-0 group-hover:opacity-100 focus:opacity-100"
@@ -157,11 +642,24 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, onUpdate, onDe
                     </button>
                   </td>
                 </tr>
+                </React.Fragment>
               ))}
             </tbody>
           </table>
+          <datalist id="taxonomy-topics">
+            {taxonomy.map(topic => <option key={topic} value={topic} />)}
+          </datalist>
         </div>
       </div>
+      {previewItem && (
+        <SourcePreview
+          file={previewItem.sourceId ? uploadedFiles[previewItem.sourceId] : undefined}
+          pageFiles={previewItem.sourceId ? pageFiles[previewItem.sourceId] : undefined}
+          source={previewItem.source}
+          onClose={() => setPreviewId(null)}
+        />
+      )}
+      </div>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,57 @@
+import React from 'react';
+import { McqData, QuestionType, CHOICE_LETTERS } from '../types';
+import { richTextToHtml } from '../services/richText';
+import { answerLetters, isChoiceType } from '../services/questionTypes';
+
+// Tables, code and math inside rendered question text
+const richTextClass = "leading-relaxed break-words [&_p+p]:mt-2 [&_code]:bg-slate-100 [&_code]:px-1 [&_code]:rounded [&_code]:text-[0.9em] [&_pre]:bg-slate-100 [&_pre]:p-2 [&_pre]:rounded-md [&_pre]:my-2 [&_pre]:overflow-x-auto [&_table]:my-2 [&_table]:border-collapse [&_th]:border [&_th]:border-slate-300 [&_th]:px-2 [&_th]:py-1 [&_th]:bg-slate-50 [&_td]:border [&_td]:border-slate-300 [&_td]:px-2 [&_td]:py-1 [&_math]:text-[1.05em]";
+
+// Markdown with LaTeX math, rendered (MathML is drawn by the browser itself)
+export const RichText: React.FC<{ text: string; className?: string; placeholder?: string }> = ({ text, className = '', placeholder }) => {
+  if (!text.trim()) return <div className={`${className} text-slate-300 italic`}>{placeholder}</div>;
+  return <div dir="auto" className={`${richTextClass} ${className}`} dangerouslySetInnerHTML={{ __html: richTextToHtml(text) }} />;
+};
+
+// Read-only view of a question's choices, pairs or accepted answers
+export const AnswerContentPreview: React.FC<{ item: McqData }> = ({ item }) => {
+  if (isChoiceType(item.questionType)) {
+    const letters = answerLetters(item);
+    return (
+      <div className="space-y-2.5">
+        {item.choices.map((choice, i) => {
+          const correct = letters.includes(CHOICE_LETTERS[i]);
+          return (
+            <div key={i} className="flex items-start gap-2">
+              <span className={`text-xs font-bold mt-0.5 w-5 shrink-0 ${correct ? 'text-emerald-600' : 'text-slate-400'}`}>{CHOICE_LETTERS[i]}</span>
+              <RichText text={choice} className={`text-sm ${correct ? 'font-semibold text-emerald-800' : 'text-slate-700'}`} />
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+  if (item.questionType === QuestionType.MATCHING) {
+    return (
+      <div className="space-y-2.5">
+        {(item.pairs || []).map((pair, i) => (
+          <div key={i} className="flex items-start gap-2 text-sm text-slate-700">
+            <span className="text-xs font-bold mt-0.5 w-5 shrink-0 text-slate-400">{i + 1}</span>
+            <RichText text={pair.prompt} className="flex-1" />
+            <span className="text-slate-300 rtl:rotate-180">→</span>
+            <RichText text={pair.match} className="flex-1 font-semibold text-emerald-800" placeholder="No match" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+  return (
+    <div className="space-y-2.5">
+      {(item.answers || []).map((answer, i) => (
+        <div key={i} className="flex items-start gap-2">
+          <span className="text-xs font-bold mt-0.5 w-5 shrink-0 text-emerald-600">{item.questionType === QuestionType.FILL_IN_BLANK ? i + 1 : '='}</span>
+          <RichText text={answer} className="text-sm font-semibold text-emerald-800" />
+        </div>
+      ))}
+    </div>
+  );
+};
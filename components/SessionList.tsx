@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { X, History, Trash2, FolderOpen, Loader2 } from 'lucide-react';
+import { SessionSummary, deleteSession, listSessions } from '../services/sessionStore';
+
+interface SessionListProps {
+  activeId: string;
+  disabled: boolean; // Sessions cannot be switched while extracting
+  onOpen: (id: string) => void;
+  onClose: () => void;
+}
+
+export const SessionList: React.FC<SessionListProps> = ({ activeId, disabled, onOpen, onClose }) => {
+  const [sessions, setSessions] = useState<SessionSummary[] | null>(null);
+
+  const refresh = () => {
+    listSessions()
+      .then(setSessions)
+      .catch(error => {
+        console.error(error);
+        setSessions([]);
+      });
+  };
+
+  useEffect(refresh, []);
+
+  const handleDelete = async (session: SessionSummary) => {
+    if (!confirm(`Delete the session "${session.name}"? Its results and edits cannot be recovered.`)) return;
+    await deleteSession(session.id);
+    refresh();
+  };
+
+  return (
+    <div className="mb-10 border border-slate-200 rounded-2xl bg-white shadow-xl shadow-slate-200/60 overflow-hidden animate-in fade-in">
+      <div className="flex items-center justify-between px-4 py-3 bg-slate-50 border-b border-slate-200">
+        <h3 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+          <History size={16} className="text-indigo-500" /> Saved Sessions
+        </h3>
+        <button onClick={onClose} className="p-1.5 hover:bg-white rounded-full transition-colors text-slate-400 hover:text-red-500" title="Close sessions">
+          <X size={16} />
+        </button>
+      </div>
+      {sessions === null ? (
+        <div className="p-6 flex justify-center text-slate-400"><Loader2 size={20} className="animate-spin" /></div>
+      ) : sessions.length === 0 ? (
+        <p className="p-6 text-center text-sm text-slate-400">No saved sessions yet. Work is saved automatically once files are added.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 max-h-80 overflow-auto">
+          {sessions.map(session => {
+            const active = session.id === activeId;
+            return (
+              <li key={session.id} className={`px-4 py-3 flex items-center gap-3 ${active ? 'bg-indigo-50/50' : ''}`}>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-semibold text-slate-800 truncate" title={session.name}>
+                    {session.name}
+                    {active && <span className="ml-2 text-[10px] font-bold uppercase text-indigo-600">Current</span>}
+                  </div>
+                  <div className="text-[11px] text-slate-500 mt-0.5">
+                    {new Date(session.updatedAt).toLocaleString()} · {session.fileCount} file{session.fileCount === 1 ? '' : 's'} · {session.questionCount} questions
+                    {session.unfinished > 0 && <span className="text-amber-600"> · {session.unfinished} unfinished</span>}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onOpen(session.id)}
+                  disabled={disabled || active}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold border border-slate-200 text-slate-600 hover:text-indigo-600 hover:border-indigo-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <FolderOpen size={14} /> Open
+                </button>
+                <button
+                  onClick={() => handleDelete(session)}
+                  disabled={active}
+                  className="p-1.5 rounded-lg text-slate-300 hover:text-red-500 hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={active ? 'The open session cannot be deleted' : 'Delete session'}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, AlertCircle, FileSearch } from 'lucide-react';
+import { DocumentSection, DocxChunk, SourceRange } from '../types';
+import { processDocxToHtml, processOdtToPages, processPptxToSlides, processTextToHtml, renderPdfPagePreview } from '../services/documentProcessor';
+import { describeSource } from '../services/extractionPipeline';
+import { renderFigureMarkers } from '../services/figureService';
+
+interface SourcePreviewProps {
+  file?: File;
+  pageFiles?: File[]; // Photos of an image document, in page order
+  source?: SourceRange;
+  onClose: () => void;
+}
+
+// Long ranges are capped so a bad provenance value cannot render a whole book
+const MAX_PREVIEW_PAGES = 6;
+
+const chunkCache = new WeakMap<File, Promise<DocxChunk[]>>();
+const sectionCache = new WeakMap<File, Promise<DocumentSection[]>>();
+
+// DOCX and text chunks, numbered the way their source ranges are
+const loadHtmlChunks = (file: File, kind: SourceRange['kind']): Promise<DocxChunk[]> => {
+  let loading = chunkCache.get(file);
+  if (!loading) {
+    loading = kind === 'docx' ? processDocxToHtml(file) : processTextToHtml(file);
+    chunkCache.set(file, loading);
+  }
+  return loading;
+};
+
+// Slides of a PPTX file or pages of an ODT file
+const loadSections = (file: File, kind: SourceRange['kind']): Promise<DocumentSection[]> => {
+  let loading = sectionCache.get(file);
+  if (!loading) {
+    loading = kind === 'pptx' ? processPptxToSlides(file) : processOdtToPages(file);
+    sectionCache.set(file, loading);
+  }
+  return loading;
+};
+
+export const SourcePreview: React.FC<SourcePreviewProps> = ({ file, pageFiles, source, onClose }) => {
+  const [pageImages, setPageImages] = useState<{ page: number; url: string }[]>([]);
+  const [html, setHtml] = useState<string>('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const objectUrls: string[] = [];
+    setPageImages([]);
+    setHtml('');
+    setError(null);
+    if (!file || !source) return;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        if (source.kind === 'image') {
+          const photos = pageFiles || [file];
+          const last = Math.min(source.end, source.start + MAX_PREVIEW_PAGES - 1, photos.length);
+          for (let page = source.start; page <= last; page++) {
+            const url = URL.createObjectURL(photos[page - 1]);
+            objectUrls.push(url);
+            setPageImages(prev => [...prev, { page, url }]);
+          }
+        } else if (source.kind === 'pdf') {
+          const last = Math.min(source.end, source.start + MAX_PREVIEW_PAGES - 1);
+          for (let page = source.start; page <= last; page++) {
+            const url = await renderPdfPagePreview(file, page);
+            if (cancelled) return;
+            setPageImages(prev => [...prev, { page, url }]);
+          }
+        } else if (source.kind === 'pptx' || source.kind === 'odt') {
+          const sections = await loadSections(file, source.kind);
+          if (cancelled) return;
+          const label = source.kind === 'pptx' ? 'Slide' : 'Page';
+          const last = Math.min(source.end, source.start + MAX_PREVIEW_PAGES - 1);
+          setHtml(sections
+            .filter(section => section.number >= source.start && section.number <= last)
+            .map(section => `<h6>${label} ${section.number}</h6>${renderFigureMarkers(section.html, section.figures || [])}`)
+            .join(''));
+        } else {
+          const chunks = await loadHtmlChunks(file, source.kind);
+          if (cancelled) return;
+          setHtml(chunks.slice(source.start - 1, source.end).map(chunk => renderFigureMarkers(chunk.html, chunk.figures || [])).join(''));
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(err?.message || 'Failed to load source preview.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      objectUrls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [file, pageFiles, source?.kind, source?.start, source?.end]);
+
+  const pageLabel = source?.kind === 'image' ? 'Photo' : 'Page';
+
+  return (
+    <aside className="w-full lg:w-[420px] shrink-0 border border-slate-200 rounded-2xl overflow-hidden shadow-xl shadow-slate-200/50 bg-white flex flex-col max-h-[800px]">
+      <div className="flex items-center justify-between px-4 py-3 bg-slate-50 border-b border-slate-200">
+        <div className="min-w-0">
+          <h3 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+            <FileSearch size={16} className="text-indigo-500" /> Source Preview
+          </h3>
+          <p className="text-[11px] text-slate-500 truncate">
+            {source ? describeSource(source) : 'No location recorded'}{file ? ` · ${file.name}` : ''}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-1.5 hover:bg-white rounded-full transition-colors text-slate-400 hover:text-red-500" title="Close preview">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="overflow-auto custom-scrollbar p-4 space-y-4">
+        {!file && (
+          <p className="text-sm text-slate-400 text-center py-8">The original file is no longer in the upload queue.</p>
+        )}
+        {file && !source && (
+          <p className="text-sm text-slate-400 text-center py-8">This question has no recorded source location.</p>
+        )}
+        {error && (
+          <div className="p-3 bg-red-50 text-red-700 rounded-xl border border-red-100 flex items-start gap-2 text-xs">
+            <AlertCircle className="shrink-0" size={14} /> {error}
+          </div>
+        )}
+        {pageImages.map(({ page, url }) => (
+          <figure key={page} className="border border-slate-200 rounded-lg overflow-hidden">
+            <img src={url} alt={`${pageLabel} ${page}`} className="w-full" />
+            <figcaption className="text-[10px] font-semibold text-slate-500 bg-slate-50 px-2 py-1 border-t border-slate-200">{pageLabel} {page}</figcaption>
+          </figure>
+        ))}
+        {html && (
+          <div
+            className="text-sm text-slate-700 leading-relaxed [&_mark]:bg-yellow-200 [&_p]:my-1.5 [&_h6]:text-[10px] [&_h6]:font-semibold [&_h6]:text-slate-500 [&_h6]:uppercase [&_h6]:mt-4 [&_h6]:border-b [&_h6]:border-slate-200"
+            dangerouslySetInnerHTML={{ __html: html }}
+          />
+        )}
+        {loading && (
+          <div className="flex items-center justify-center gap-2 text-xs text-indigo-600 py-4">
+            <Loader2 size={14} className="animate-spin" /> Loading source...
+          </div>
+        )}
+      </div>
+    </aside>
+  );
+};
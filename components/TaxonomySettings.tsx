@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { X, Tags, Loader2, StopCircle } from 'lucide-react';
+import { parseTaxonomy } from '../services/taggingService';
+
+interface TaxonomySettingsProps {
+  taxonomy: string[];
+  onChange: (taxonomy: string[]) => void;
+  onTag?: (taxonomy: string[]) => void; // Runs the tagging pass with the taxonomy as typed
+  progress?: string; // Set while tagging runs
+  onCancel?: () => void; // Stops tagging; finished batches are kept
+  untagged: number; // Questions still missing a topic, difficulty or Bloom level
+  onClose: () => void;
+}
+
+export const TaxonomySettings: React.FC<TaxonomySettingsProps> = ({ taxonomy, onChange, onTag, progress, onCancel, untagged, onClose }) => {
+  // Edited as free text and parsed on blur, so blank lines can be typed
+  const [draft, setDraft] = useState(taxonomy.join('\n'));
+
+  return (
+    <div className="mb-4 border border-slate-200 rounded-2xl bg-white shadow-lg shadow-slate-200/50 overflow-hidden animate-in fade-in">
+      <div className="flex items-center justify-between px-4 py-3 bg-slate-50 border-b border-slate-200">
+        <h3 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+          <Tags size={16} className="text-indigo-500" /> Topics & Tagging
+        </h3>
+        <button onClick={onClose} className="p-1.5 hover:bg-white rounded-full transition-colors text-slate-400 hover:text-red-500" title="Close tagging">
+          <X size={16} />
+        </button>
+      </div>
+      <div className="p-4 grid grid-cols-1 md:grid-cols-[1fr_260px] gap-4">
+        <div>
+          <label className="block text-xs font-semibold text-slate-600 mb-1.5">Topic taxonomy</label>
+          <textarea
+            dir="auto"
+            className="w-full border border-slate-200 hover:border-slate-300 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-500/10 rounded-lg p-3 text-sm text-slate-700 font-mono resize-y min-h-[120px] outline-none transition-all"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={() => onChange(parseTaxonomy(draft))}
+            placeholder={'Algebra/Linear equations\nAlgebra/Quadratics\nGeometry/Triangles'}
+          />
+          <p className="mt-1 text-[11px] text-slate-500">
+            One topic per line, with "/" between levels. Topics become Moodle question categories. Leave empty to let the model name topics itself.
+          </p>
+        </div>
+        <div className="flex flex-col justify-between gap-3">
+          <p className="text-xs text-slate-600 leading-relaxed">
+            The tagging pass sends each question's text to the selected provider and fills in its topic, difficulty and Bloom level. Values already set are kept.
+          </p>
+          {onTag && (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => onTag(parseTaxonomy(draft))}
+                disabled={!!progress || untagged === 0}
+                className="flex-1 flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2.5 rounded-xl font-semibold text-sm transition-all shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                {progress ? <Loader2 size={16} className="animate-spin" /> : <Tags size={16} />}
+                {progress || (untagged > 0 ? `Tag ${untagged} question${untagged === 1 ? '' : 's'}` : 'All questions tagged')}
+              </button>
+              {progress && onCancel && (
+                <button
+                  onClick={onCancel}
+                  className="p-2.5 rounded-xl border border-slate-200 bg-white text-slate-400 hover:text-red-500 hover:border-red-200 transition-all shadow-sm"
+                  title="Stop tagging; finished batches are kept"
+                >
+                  <StopCircle size={16} />
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
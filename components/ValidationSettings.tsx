@@ -0,0 +1,78 @@
+import React from 'react';
+import { X, ShieldCheck } from 'lucide-react';
+import { IssueSeverity } from '../types';
+import { ValidationConfig, VALIDATION_RULES } from '../services/validationService';
+
+interface ValidationSettingsProps {
+  config: ValidationConfig;
+  onChange: (config: ValidationConfig) => void;
+  onClose: () => void;
+}
+
+export const ValidationSettings: React.FC<ValidationSettingsProps> = ({ config, onChange, onClose }) => {
+  const updateRule = (id: string, patch: Partial<{ enabled: boolean; severity: IssueSeverity }>) => {
+    onChange({ ...config, rules: { ...config.rules, [id]: { ...config.rules[id], ...patch } } });
+  };
+
+  return (
+    <div className="mb-4 border border-slate-200 rounded-2xl bg-white shadow-lg shadow-slate-200/50 overflow-hidden animate-in fade-in">
+      <div className="flex items-center justify-between px-4 py-3 bg-slate-50 border-b border-slate-200">
+        <h3 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+          <ShieldCheck size={16} className="text-indigo-500" /> Validation Rules
+        </h3>
+        <button onClick={onClose} className="p-1.5 hover:bg-white rounded-full transition-colors text-slate-400 hover:text-red-500" title="Close rules">
+          <X size={16} />
+        </button>
+      </div>
+      <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2">
+        {VALIDATION_RULES.map(rule => {
+          const settings = config.rules[rule.id];
+          return (
+            <div key={rule.id} className="flex items-center justify-between gap-3">
+              <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="accent-indigo-600"
+                  checked={settings.enabled}
+                  onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                />
+                {rule.label}
+              </label>
+              <select
+                value={settings.severity}
+                onChange={(e) => updateRule(rule.id, { severity: e.target.value as IssueSeverity })}
+                disabled={!settings.enabled}
+                className={`px-2 py-1 rounded-md text-xs font-semibold border outline-none cursor-pointer disabled:opacity-50
+                  ${settings.severity === 'error' ? 'bg-red-50 text-red-700 border-red-100' : 'bg-amber-50 text-amber-700 border-amber-100'}`}
+              >
+                <option value="error">Error</option>
+                <option value="warning">Warning</option>
+              </select>
+            </div>
+          );
+        })}
+      </div>
+      <div className="px-4 py-3 border-t border-slate-100 flex flex-wrap items-center gap-6 text-sm text-slate-700">
+        <label className="flex items-center gap-2">
+          Minimum question length
+          <input
+            type="number"
+            min={0}
+            className="w-16 px-2 py-1 rounded-md border border-slate-200 text-sm outline-none focus:border-indigo-500"
+            value={config.minQuestionLength}
+            onChange={(e) => onChange({ ...config, minQuestionLength: Math.max(0, Number(e.target.value) || 0) })}
+          />
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            className="accent-indigo-600"
+            checked={config.blockExportOnErrors}
+            onChange={(e) => onChange({ ...config, blockExportOnErrors: e.target.checked })}
+          />
+          Block export while errors remain
+        </label>
+      </div>
+    </div>
+  );
+};
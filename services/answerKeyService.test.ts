@@ -0,0 +1,130 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { AnswerEvidence, AnswerKeyEntry, ExtractionResult, McqData, QuestionType, SourceRange } from '../types';
+import { conflictsWithKey, mergeAnswerKeys, normalizeKeyAnswer, parseAnswerKeyHtml, reconcileAnswerKey } from './answerKeyService';
+
+const pages = (start: number, end = start): SourceRange => ({ kind: 'pdf', start, end });
+
+const question = (number: string, overrides: Partial<McqData> = {}): McqData => ({
+  id: `q${number}-${overrides.source?.start ?? 0}`,
+  questionType: QuestionType.MULTIPLE_CHOICE,
+  question: `Question ${number}`,
+  choices: ['one', 'two', 'three', 'four'],
+  correctAnswer: '',
+  questionNumber: number,
+  sourceId: 'exam',
+  ...overrides
+});
+
+const key = (number: string, answer: string, overrides: Partial<AnswerKeyEntry> = {}): AnswerKeyEntry => ({
+  number,
+  answer,
+  sourceId: 'exam',
+  ...overrides
+});
+
+const answers = (result: ExtractionResult) => result.items.map(item => item.correctAnswer);
+
+describe('parseAnswerKeyHtml', () => {
+  it('reads key lines and number/answer grids', () => {
+    expect(parseAnswerKeyHtml('<p>1-B 2-d 3) (c)</p><p>4. True</p>')).toEqual([
+      { number: '1', answer: 'B' },
+      { number: '2', answer: 'D' },
+      { number: '3', answer: 'C' },
+      { number: '4', answer: 'T' }
+    ]);
+    expect(parseAnswerKeyHtml('<table><tr><td>Q</td><td>1</td><td>2</td><td>3</td></tr><tr><td>Ans</td><td>A</td><td>ب</td><td>C</td></tr></table>'))
+      .toEqual([{ number: '1', answer: 'A' }, { number: '2', answer: 'B' }, { number: '3', answer: 'C' }]);
+  });
+
+  it('does not take a lone numbered question for a key', () => {
+    expect(parseAnswerKeyHtml('<p>3. True</p><p>The sun is a star.</p>')).toEqual([]);
+  });
+});
+
+describe('normalizeKeyAnswer', () => {
+  it('writes letters, Arabic letters and true/false words the way items store them', () => {
+    expect(normalizeKeyAnswer('(b)')).toBe('B');
+    expect(normalizeKeyAnswer('c, a')).toBe('A,C');
+    expect(normalizeKeyAnswer('ج')).toBe('C');
+    expect(normalizeKeyAnswer('False')).toBe('F');
+    expect(normalizeKeyAnswer('photosynthesis')).toBe('photosynthesis');
+  });
+});
+
+describe('mergeAnswerKeys', () => {
+  it('drops an entry read again by an overlapping chunk', () => {
+    const merged = mergeAnswerKeys([key('1', 'B', { source: pages(3, 4) })], [key('1', 'B', { source: pages(4, 5) })]);
+    expect(merged).toHaveLength(1);
+  });
+
+  it('keeps equal entries of a later section whose numbering restarts', () => {
+    const existing = [key('1', 'B', { source: pages(2) })];
+    expect(mergeAnswerKeys(existing, [key('1', 'B', { source: pages(6) })])).toHaveLength(2);
+  });
+
+  it('lets each existing entry absorb only one re-read', () => {
+    const existing = [key('1', 'B', { source: pages(1, 2) })];
+    const incoming = [key('1', 'B', { source: pages(2, 3) }), key('1', 'B', { source: pages(2, 3) })];
+    expect(mergeAnswerKeys(existing, incoming)).toHaveLength(2);
+  });
+
+  it('keeps entries of different files apart', () => {
+    expect(mergeAnswerKeys([key('1', 'B')], [key('1', 'B', { sourceId: 'other' })])).toHaveLength(2);
+  });
+});
+
+describe('reconcileAnswerKey', () => {
+  it('fills unanswered questions and records the key next to existing answers', () => {
+    const result = reconcileAnswerKey({
+      items: [question('1'), question('2', { correctAnswer: 'A' }), question('3', { questionType: QuestionType.TRUE_FALSE, choices: ['True', 'False'] })],
+      passages: [],
+      answerKey: [key('1', 'C'), key('2', 'D'), key('3', 'F')]
+    });
+
+    expect(answers(result)).toEqual(['C', 'A', 'B']);
+    expect(result.items[0]).toMatchObject({ keyAnswer: 'C', keyFilled: true, answerEvidence: AnswerEvidence.ANSWER_KEY });
+    expect(result.items[1]).toMatchObject({ keyAnswer: 'D' });
+    expect(result.items[1].keyFilled).toBeUndefined();
+    expect(conflictsWithKey(result.items[1])).toBe(true);
+  });
+
+  it('pairs restarted numbering by document order, not by arrival order', () => {
+    // The second section's chunk finished first
+    const result = reconcileAnswerKey({
+      items: [question('1', { source: pages(5) }), question('1', { source: pages(1) })],
+      passages: [],
+      answerKey: [key('1', 'D', { source: pages(6) }), key('1', 'A', { source: pages(2) })]
+    });
+    expect(answers(result)).toEqual(['D', 'A']);
+  });
+
+  it("prefers the file's own key over a separate key file", () => {
+    const result = reconcileAnswerKey({
+      items: [question('1'), question('1', { sourceId: 'other' })],
+      passages: [],
+      answerKey: [key('1', 'A'), key('1', 'B', { sourceId: 'keys', separateFile: true })]
+    });
+    expect(answers(result)).toEqual(['A', 'B']);
+  });
+
+  it('clears answers the key filled once the key entry is gone', () => {
+    const unanswered = question('1', { answerEvidence: AnswerEvidence.HIGHLIGHT });
+    const filled = reconcileAnswerKey({ items: [unanswered, question('2')], passages: [], answerKey: [key('1', 'B'), key('2', 'C')] });
+    expect(filled.items[0].answerEvidence).toBe(AnswerEvidence.ANSWER_KEY);
+    // The user changed question 2's answer by hand
+    const edited = { ...filled, items: [filled.items[0], { ...filled.items[1], correctAnswer: 'D' }], answerKey: [] };
+
+    const result = reconcileAnswerKey(edited);
+    expect(answers(result)).toEqual(['', 'D']);
+    // The evidence goes back to what the extraction found
+    expect(result.items[0]).toEqual(unanswered);
+    expect(result.items[1].keyFilled).toBeUndefined();
+  });
+
+  it('leaves keys that do not fit the question alone', () => {
+    const result = reconcileAnswerKey({ items: [question('1', { choices: ['one', 'two'] })], passages: [], answerKey: [key('1', 'E')] });
+    expect(result.items[0].correctAnswer).toBe('');
+    expect(result.items[0].keyAnswer).toBeUndefined();
+  });
+});
@@ -0,0 +1,227 @@
+import { McqData, QuestionType, AnswerEvidence, AnswerKeyEntry, ExtractionResult, SourceRange, CHOICE_LETTERS } from '../types';
+import { stripBidiControls, toWesternDigits } from './languageService';
+import { ARABIC_LETTERS, TRUE_WORDS, FALSE_WORDS, answerLetters, countBlanks, hasAnswer, isChoiceType, joinAnswerLetters } from './questionTypes';
+
+// Answer keys print the questions unmarked and list the answers by number ("1-B 2-D ..."),
+// on the last page or in a separate file. These helpers read such keys and fill in the
+// answers of the questions they belong to.
+
+// A block of key lines needs this many entries, so a stray "3. True" question is not taken for a key
+const MIN_KEY_ENTRIES = 3;
+
+const KEY_LETTER = '[A-Ha-h]|الف|أ|ا|ب|ج|هـ|ه|د|و';
+// Longest first, so "true" is not read as "t"
+const KEY_WORD = [...TRUE_WORDS, ...FALSE_WORDS].sort((a, b) => b.length - a.length).join('|');
+const KEY_ANSWER = `(?:${KEY_WORD}|(?:${KEY_LETTER})(?:\\s*,\\s*(?:${KEY_LETTER}))*)`;
+// "12-B", "12) b", "12. (ج)", "12 True"
+const KEY_ENTRY = new RegExp(`(?<![0-9٠-٩۰-۹])([0-9٠-٩۰-۹]{1,3})\\s*[-.):=–]?\\s*\\(?(${KEY_ANSWER})\\)?(?=[\\s,;|/]|$)`, 'giu');
+const KEY_SEPARATORS = /[\s,;|/]/g;
+const NUMBER_TOKEN = /^[0-9٠-٩۰-۹]{1,3}[.)]?$/;
+const ANSWER_TOKEN = new RegExp(`^\\(?(?:${KEY_ANSWER})\\)?$`, 'iu');
+
+// "Q12.", "١٢", "012" -> "12"
+export const normalizeQuestionNumber = (raw: unknown): string | undefined => {
+  if (typeof raw !== 'string' && typeof raw !== 'number') return undefined;
+  const digits = toWesternDigits(String(raw)).match(/[0-9]+/);
+  return digits ? String(parseInt(digits[0], 10)) : undefined;
+};
+
+// Letters become "A" or "A,C", true/false words become T/F; anything else is kept as answer text
+export const normalizeKeyAnswer = (raw: string): string => {
+  const answer = raw.trim().replace(/^\((.*)\)$/, '$1').trim();
+  if (TRUE_WORDS.includes(answer.toLowerCase())) return 'T';
+  if (FALSE_WORDS.includes(answer.toLowerCase())) return 'F';
+  const tokens = answer.split(/\s*[,\s]\s*/).filter(Boolean);
+  const letters = tokens.map(token => ARABIC_LETTERS[token] ?? token.toUpperCase());
+  if (letters.length > 0 && letters.every(letter => letter.length === 1 && CHOICE_LETTERS.includes(letter))) {
+    return joinAnswerLetters(letters);
+  }
+  return answer;
+};
+
+const toEntry = (number: string, answer: string): AnswerKeyEntry | null => {
+  const normalized = normalizeQuestionNumber(number);
+  return normalized ? { number: normalized, answer: normalizeKeyAnswer(answer) } : null;
+};
+
+// Entries of a line made up only of key entries, or null for any other line
+const parseKeyLine = (text: string): AnswerKeyEntry[] | null => {
+  const matches = Array.from(text.matchAll(KEY_ENTRY));
+  if (matches.length === 0 || text.replace(KEY_ENTRY, '').replace(KEY_SEPARATORS, '') !== '') return null;
+  return matches.map(match => toEntry(match[1], match[2])).filter((entry): entry is AnswerKeyEntry => !!entry);
+};
+
+// A leading "Question" / "Answer" label cell is not part of the key
+const withoutLabel = (tokens: string[], pattern: RegExp): string[] =>
+  tokens.length > 1 && !pattern.test(tokens[0]) ? tokens.slice(1) : tokens;
+
+// A row of numbers followed by a row of answers, as in "1 2 3 4" / "B D A C" grids
+const parseKeyGrid = (numbers: string[], answers: string[]): AnswerKeyEntry[] | null => {
+  const numberCells = withoutLabel(numbers, NUMBER_TOKEN);
+  const answerCells = withoutLabel(answers, ANSWER_TOKEN);
+  if (numberCells.length < 2 || numberCells.length !== answerCells.length) return null;
+  if (!numberCells.every(cell => NUMBER_TOKEN.test(cell)) || !answerCells.every(cell => ANSWER_TOKEN.test(cell))) return null;
+  return numberCells
+    .map((cell, i) => toEntry(cell, answerCells[i]))
+    .filter((entry): entry is AnswerKeyEntry => !!entry);
+};
+
+// Reads answer-key lines and tables from mammoth HTML or a PDF text layer page
+export const parseAnswerKeyHtml = (html: string): AnswerKeyEntry[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  // Table rows keep their cells apart; other lines are split on whitespace
+  const rows: string[][] = [];
+  doc.body.querySelectorAll('p, li, h1, h2, h3, h4, h5, h6, tr').forEach(el => {
+    if (el.tagName.toLowerCase() === 'tr') {
+      rows.push(Array.from(el.children).map(cell => stripBidiControls(cell.textContent || '').trim()).filter(Boolean));
+    } else if (!el.closest('li, tr') || el.tagName.toLowerCase() === 'li') {
+      rows.push(stripBidiControls(el.textContent || '').trim().split(/\s+/).filter(Boolean));
+    }
+  });
+
+  const entries: AnswerKeyEntry[] = [];
+  let block: AnswerKeyEntry[] = [];
+  const endBlock = () => {
+    if (block.length >= MIN_KEY_ENTRIES) entries.push(...block);
+    block = [];
+  };
+
+  for (let i = 0; i < rows.length; i++) {
+    if (rows[i].length === 0) continue;
+    const grid = i + 1 < rows.length ? parseKeyGrid(rows[i], rows[i + 1]) : null;
+    if (grid) {
+      block.push(...grid);
+      i++;
+      continue;
+    }
+    const line = parseKeyLine(rows[i].join(' '));
+    if (line) {
+      block.push(...line);
+    } else {
+      endBlock();
+    }
+  }
+  endBlock();
+
+  return entries;
+};
+
+// Entries without a source could have been read anywhere
+const sourcesOverlap = (a?: SourceRange, b?: SourceRange): boolean => {
+  if (!a || !b) return true;
+  if (a.kind !== b.kind) return false;
+  // DOCX and text chunks number their paragraphs through the whole file
+  if ((a.kind === 'docx' || a.kind === 'text') && a.paragraphStart !== undefined && b.paragraphStart !== undefined) {
+    return a.paragraphStart <= (b.paragraphEnd ?? b.paragraphStart) && b.paragraphStart <= (a.paragraphEnd ?? a.paragraphStart);
+  }
+  return a.start <= b.end && b.start <= a.end;
+};
+
+// Overlapping chunks read the same key lines twice. An entry is only dropped as a re-read of
+// one from an overlapping chunk, and each existing entry stands for one re-read, so "1-B" of
+// a second section whose numbering restarts is kept.
+export const mergeAnswerKeys = (existing: AnswerKeyEntry[], incoming: AnswerKeyEntry[]): AnswerKeyEntry[] => {
+  const merged = [...existing];
+  const matched = new Set<AnswerKeyEntry>();
+  for (const entry of incoming) {
+    const duplicate = existing.find(other =>
+      !matched.has(other)
+      && other.number === entry.number && other.answer === entry.answer && (other.sourceId || '') === (entry.sourceId || '')
+      && sourcesOverlap(other.source, entry.source)
+    );
+    if (duplicate) matched.add(duplicate);
+    else merged.push(entry);
+  }
+  return merged;
+};
+
+// The item's current answer, written the way keyAnswer is
+export const formatAnswer = (item: McqData): string => {
+  if (isChoiceType(item.questionType)) return joinAnswerLetters(answerLetters(item));
+  return (item.answers || []).map(answer => answer.trim()).filter(Boolean).join(' | ');
+};
+
+// The answer fields a key entry gives this item, or null when it does not fit the item's type
+const answerFromKey = (item: McqData, answer: string): Partial<McqData> | null => {
+  const letters = answer.split(',').filter(letter => CHOICE_LETTERS.indexOf(letter) >= 0 && CHOICE_LETTERS.indexOf(letter) < item.choices.length);
+  const isLetters = letters.length > 0 && letters.length === answer.split(',').length;
+
+  switch (item.questionType) {
+    case QuestionType.MULTIPLE_CHOICE:
+      return isLetters && letters.length === 1 ? { correctAnswer: letters[0] } : null;
+    case QuestionType.MULTIPLE_SELECT:
+      return isLetters ? { correctAnswer: joinAnswerLetters(letters) } : null;
+    case QuestionType.TRUE_FALSE:
+      if (answer === 'T') return { correctAnswer: 'A' };
+      if (answer === 'F') return { correctAnswer: 'B' };
+      return isLetters && letters.length === 1 ? { correctAnswer: letters[0] } : null;
+    case QuestionType.FILL_IN_BLANK:
+      return { answers: countBlanks(item.question) > 1 ? answer.split(/\s*[,;|]\s*/) : [answer] };
+    case QuestionType.SHORT_ANSWER:
+      return { answers: [answer] };
+    default:
+      // Matching keys list one letter per prompt, which a single entry cannot hold
+      return null;
+  }
+};
+
+export const conflictsWithKey = (item: McqData): boolean =>
+  item.keyAnswer !== undefined && hasAnswer(item) && formatAnswer(item).toLowerCase() !== item.keyAnswer.toLowerCase();
+
+const withoutKeyAnswer = (item: McqData): McqData => (item.keyAnswer === undefined ? item : { ...item, keyAnswer: undefined });
+
+// The item as it was before the key filled in its answer. An answer edited since then is the
+// user's own and is kept.
+const withoutKeyFill = (item: McqData): McqData => {
+  if (!item.keyFilled) return item;
+  if (formatAnswer(item) !== item.keyAnswer) return { ...item, keyFilled: undefined, evidenceBeforeKey: undefined };
+  const cleared = isChoiceType(item.questionType) ? { correctAnswer: '' } : { answers: [] };
+  return { ...item, ...cleared, keyFilled: undefined, answerEvidence: item.evidenceBeforeKey, evidenceBeforeKey: undefined };
+};
+
+// Document order within a file. Chunks finish in any order, so neither `result.items` nor
+// `result.answerKey` keeps it.
+const inDocumentOrder = <T extends { source?: SourceRange }>(list: T[]): T[] =>
+  list
+    .map((value, index) => ({ value, index }))
+    .sort((a, b) =>
+      (a.value.source?.start ?? 0) - (b.value.source?.start ?? 0)
+      || (a.value.source?.paragraphStart ?? 0) - (b.value.source?.paragraphStart ?? 0)
+      || a.index - b.index)
+    .map(({ value }) => value);
+
+// Matches every numbered question to its key entry. Unanswered questions take the key's answer;
+// answered ones keep theirs and record the key's, so disagreements show up as validation issues.
+// A file's own key wins over separate key files. When numbering restarts (sections), the n-th
+// question with a number, in document order, pairs with the n-th key entry for it.
+// Answers taken from a key entry that has since gone (its file removed or no longer a key) are cleared.
+export const reconcileAnswerKey = (result: ExtractionResult): ExtractionResult => {
+  const keys = inDocumentOrder(result.answerKey || []);
+  const occurrenceOf = new Map<McqData, number>();
+  const counts = new Map<string, number>();
+  inDocumentOrder(result.items).forEach(item => {
+    if (!item.questionNumber) return;
+    const slot = `${item.sourceId || ''}\n${item.questionNumber}`;
+    const occurrence = counts.get(slot) ?? 0;
+    counts.set(slot, occurrence + 1);
+    occurrenceOf.set(item, occurrence);
+  });
+
+  const items = result.items.map(original => {
+    const item = withoutKeyFill(original);
+    if (!item.questionNumber) return withoutKeyAnswer(item);
+    const file = item.sourceId || '';
+
+    const own = keys.filter(entry => !entry.separateFile && (entry.sourceId || '') === file && entry.number === item.questionNumber);
+    const candidates = own.length > 0 ? own : keys.filter(entry => entry.separateFile && entry.number === item.questionNumber);
+    const entry = candidates[occurrenceOf.get(original) ?? 0];
+    const patch = entry && answerFromKey(item, entry.answer);
+    if (!patch) return withoutKeyAnswer(item);
+
+    const keyAnswer = formatAnswer({ ...item, ...patch });
+    if (hasAnswer(item)) return { ...item, keyAnswer };
+    return { ...item, ...patch, keyAnswer, keyFilled: true, answerEvidence: AnswerEvidence.ANSWER_KEY, evidenceBeforeKey: item.answerEvidence };
+  });
+
+  return { ...result, items };
+};
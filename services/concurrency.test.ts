@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { isAbortError, mapWithConcurrency } from './concurrency';
+
+// A promise the test settles by hand
+const deferred = <T = void>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(done => { resolve = done; });
+  return { promise, resolve };
+};
+
+// Lets pending callbacks run
+const flush = () => new Promise(done => setTimeout(done, 0));
+
+// Yields 0..count-1, recording how far it was read and whether it was closed early
+const counting = (count: number) => {
+  const state = { pulled: 0, returned: false };
+  const items: Iterable<number> = {
+    [Symbol.iterator]: () => ({
+      next: () => (state.pulled < count ? { done: false, value: state.pulled++ } : { done: true, value: undefined }),
+      return: () => {
+        state.returned = true;
+        return { done: true, value: undefined };
+      }
+    })
+  };
+  return { items, state };
+};
+
+describe('mapWithConcurrency', () => {
+  it('starts the next item in a free slot while another is still slow', async () => {
+    const slow = deferred<string>();
+    const started: number[] = [];
+    const running = mapWithConcurrency([0, 1, 2, 3], 2, async item => {
+      started.push(item);
+      return item === 0 ? slow.promise : `item ${item}`;
+    });
+
+    await flush();
+    expect(started).toEqual([0, 1, 2, 3]);
+    slow.resolve('item 0');
+    expect(await running).toEqual(['item 0', 'item 1', 'item 2', 'item 3']);
+  });
+
+  it('keeps the input order when later items finish first', async () => {
+    const gates = [deferred(), deferred(), deferred()];
+    const running = mapWithConcurrency([0, 1, 2], 3, async item => {
+      await gates[item].promise;
+      return item * 10;
+    });
+
+    [2, 0, 1].forEach(item => gates[item].resolve());
+    expect(await running).toEqual([0, 10, 20]);
+  });
+
+  it('pulls a stream only as slots free up', async () => {
+    const { items, state } = counting(5);
+    const gates = Array.from({ length: 5 }, () => deferred());
+    const running = mapWithConcurrency(items, 2, async item => gates[item].promise);
+
+    await flush();
+    expect(state.pulled).toBe(2);
+    gates[0].resolve();
+    await flush();
+    expect(state.pulled).toBe(3);
+    gates.forEach(gate => gate.resolve());
+    await running;
+  });
+
+  it('starts nothing new once the signal aborts and rejects with the abort', async () => {
+    const controller = new AbortController();
+    const { items, state } = counting(10);
+    const gate = deferred();
+    const started: number[] = [];
+    const running = mapWithConcurrency(items, 2, async item => {
+      started.push(item);
+      await gate.promise;
+    }, controller.signal);
+
+    await flush();
+    controller.abort();
+    gate.resolve();
+    const error = await running.catch(error => error);
+    expect(isAbortError(error)).toBe(true);
+    expect(started).toEqual([0, 1]);
+    expect(state.returned).toBe(true);
+  });
+
+  it('stops and closes the source when a worker throws', async () => {
+    const { items, state } = counting(10);
+    const slow = deferred();
+    const started: number[] = [];
+    const running = mapWithConcurrency(items, 2, async item => {
+      started.push(item);
+      if (item === 1) throw new Error('bad page');
+      await slow.promise;
+    });
+
+    await expect(running).rejects.toThrow('bad page');
+    expect(state.returned).toBe(true);
+    slow.resolve();
+    await flush();
+    expect(started).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,60 @@
+// True for the errors fetch, the Gemini SDK and AbortSignal.throwIfAborted raise on cancellation
+export const isAbortError = (error: unknown): boolean =>
+  (error as any)?.name === 'AbortError';
+
+// Resolves after `ms`, or rejects as soon as `signal` aborts
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs `worker` over `items` with at most `limit` in flight, starting the next item as soon as
+// one finishes, so a slow item only holds up its own slot. `items` may be a stream, in which case
+// items are pulled only when a slot is free. Results keep the input order.
+// No new item starts once `signal` aborts or a worker throws.
+export const mapWithConcurrency = async <T, R>(
+  items: Iterable<T> | AsyncIterable<T>,
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  const iterator: Iterator<T> | AsyncIterator<T> = Symbol.asyncIterator in items
+    ? items[Symbol.asyncIterator]()
+    : items[Symbol.iterator]();
+  const results: R[] = [];
+  let next = 0;
+  let stopped = false;
+
+  const runSlot = async () => {
+    while (!stopped) {
+      signal?.throwIfAborted();
+      const pulled = await iterator.next();
+      if (pulled.done) return;
+      const index = next++;
+      try {
+        results[index] = await worker(pulled.value, index);
+      } catch (error) {
+        stopped = true;
+        throw error;
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: limit }, runSlot));
+  } finally {
+    // Lets a stream release what it holds, e.g. the PDF render worker
+    stopped = true;
+    await iterator.return?.();
+  }
+  return results;
+};
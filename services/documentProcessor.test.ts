@@ -0,0 +1,36 @@
+// @vitest-environment jsdom
+import { File as NodeFile } from 'node:buffer';
+import { describe, expect, it, vi } from 'vitest';
+
+// Text files never reach pdf.js
+vi.mock('./pdfPageReader', () => ({}));
+
+import { processTextToHtml } from './documentProcessor';
+
+// jsdom's File has no text(), which the text reader uses
+const textFile = (name: string, text: string): File =>
+  new NodeFile([text], name, { type: name.endsWith('.md') ? 'text/markdown' : 'text/plain' }) as unknown as File;
+
+const htmlOf = async (name: string, text: string): Promise<string> =>
+  (await processTextToHtml(textFile(name, text))).map(chunk => chunk.html).join('');
+
+describe('processTextToHtml', () => {
+  it('writes each line of a text file as an escaped paragraph', async () => {
+    expect(await htmlOf('exam.txt', '1. Is 2 < 3?\n\n**A) yes**')).toBe('<p>1. Is 2 &lt; 3?</p><p>**A) yes**</p>');
+  });
+
+  it('keeps Markdown answer styling and drops bullets', async () => {
+    const html = await htmlOf('exam.md', '## Part 1\n1. Capital of France?\n- [ ] Rome\n- [x] Paris\n- ==Lyon==\n- **Nice**');
+    expect(html).toBe('<h2>Part 1</h2><p>1. Capital of France?</p><p>Rome</p><p><mark>Paris</mark></p><p><mark>Lyon</mark></p><p><strong>Nice</strong></p>');
+  });
+
+  it('leaves math and code out of emphasis', async () => {
+    const html = await htmlOf('exam.md', 'Simplify $a*b*c$ and $$x*y*z$$ in `a*b*c`, *not* here');
+    expect(html).toBe('<p>Simplify $a*b*c$ and $$x*y*z$$ in <code>a*b*c</code>, <em>not</em> here</p>');
+  });
+
+  it('groups table rows into one table', async () => {
+    const html = await htmlOf('key.md', '| Q | 1 | 2 |\n|---|---|---|\n| A | B | $x_1$ |');
+    expect(html).toBe('<table><tr><td>Q</td><td>1</td><td>2</td></tr><tr><td>A</td><td>B</td><td>$x_1$</td></tr></table>');
+  });
+});
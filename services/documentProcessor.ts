@@ -1,121 +1,278 @@
-import * as pdfjsLib from 'pdfjs-dist';
 import mammoth from 'mammoth';
-import { DocType } from '../types';
+import JSZip from 'jszip';
+import { DocType, DocumentSection, DocxChunk, Figure, ImagePreprocessing, PdfPage, PdfProcessingMode, SectionChunk } from '../types';
+import { PdfWorkerRequest, PdfWorkerResponse, getDocument, renderPageImage } from './pdfPageReader';
+import { DEFAULT_IMAGE_PREPROCESSING, encodeJpeg, preprocessImage } from './imagePreprocessor';
+import { FIGURE_MIME_TYPES, figureMarker, figuresIn } from './figureService';
+import { splitMath } from './richText';
 
-// PDF.js Initialization - Robust handling for ESM environments
-let getDocument: any = null;
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const PPTX_MIME = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+const ODT_MIME = 'application/vnd.oasis.opendocument.text';
 
-try {
-  // Try to resolve the library in various ways to support different bundlers/ESM environments
-  const lib = pdfjsLib as any;
-  getDocument = lib.getDocument || lib.default?.getDocument;
-  
-  const version = lib.version || lib.default?.version || '4.8.69';
-  const GlobalWorkerOptions = lib.GlobalWorkerOptions || lib.default?.GlobalWorkerOptions;
+const MIME_TYPES: Record<string, DocType> = {
+  'application/pdf': DocType.PDF,
+  [DOCX_MIME]: DocType.DOCX,
+  [PPTX_MIME]: DocType.PPTX,
+  [ODT_MIME]: DocType.ODT,
+  'text/plain': DocType.TEXT,
+  'text/markdown': DocType.MARKDOWN,
+  'text/x-markdown': DocType.MARKDOWN,
+  'image/png': DocType.IMAGE,
+  'image/jpeg': DocType.IMAGE,
+  'image/webp': DocType.IMAGE,
+  'image/heic': DocType.IMAGE,
+  'image/heif': DocType.IMAGE
+};
+
+const EXTENSION_TYPES: Record<string, DocType> = {
+  pdf: DocType.PDF,
+  docx: DocType.DOCX,
+  pptx: DocType.PPTX,
+  odt: DocType.ODT,
+  txt: DocType.TEXT,
+  md: DocType.MARKDOWN,
+  markdown: DocType.MARKDOWN,
+  png: DocType.IMAGE,
+  jpg: DocType.IMAGE,
+  jpeg: DocType.IMAGE,
+  webp: DocType.IMAGE,
+  heic: DocType.IMAGE,
+  heif: DocType.IMAGE
+};
 
-  if (GlobalWorkerOptions) {
-    // Explicitly set the worker source to the same version
-    GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${version}/build/pdf.worker.min.mjs`;
+const HEIC_FILE = /\.(heic|heif)$/i;
+
+const extensionOf = (name: string): string => name.match(/\.([^./]+)$/)?.[1].toLowerCase() || '';
+
+// The extension wins over the reported type: browsers report .md files as text/plain, or nothing at all
+export const detectFileType = (file: File): DocType =>
+  EXTENSION_TYPES[extensionOf(file.name)] || MIME_TYPES[file.type] || DocType.UNKNOWN;
+
+// Office formats are all zip packages; the entries inside tell them apart
+const sniffZipType = async (file: File): Promise<string | null> => {
+  try {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const mimetype = await zip.file('mimetype')?.async('string');
+    if (mimetype?.trim() === ODT_MIME) return ODT_MIME;
+    if (zip.file('word/document.xml')) return DOCX_MIME;
+    if (zip.file('ppt/presentation.xml')) return PPTX_MIME;
+  } catch {
+    // Not a readable zip after all
   }
-} catch (e) {
-  console.error("Critical: PDF.js failed to initialize.", e);
-}
+  return null;
+};
+
+// Reads the MIME type from the file's first bytes. Plain text has no signature, so it is only
+// assumed for files without an extension.
+const sniffMimeType = async (file: File): Promise<string | null> => {
+  const head = new Uint8Array(await file.slice(0, 4096).arrayBuffer());
+  const ascii = (start: number, length: number) => String.fromCharCode(...head.subarray(start, start + length));
+
+  if (ascii(0, 5) === '%PDF-') return 'application/pdf';
+  if (ascii(0, 4) === 'PK\x03\x04') return sniffZipType(file);
+  if (head[0] === 0x89 && ascii(1, 3) === 'PNG') return 'image/png';
+  if (head[0] === 0xFF && head[1] === 0xD8 && head[2] === 0xFF) return 'image/jpeg';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') return 'image/webp';
+  if (ascii(4, 4) === 'ftyp' && /^(heic|heix|hevc|mif1|msf1)$/.test(ascii(8, 4))) return 'image/heic';
+
+  if (extensionOf(file.name) || head.includes(0)) return null;
+  try {
+    // `stream` tolerates a character cut in half at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+    return 'text/plain';
+  } catch {
+    return null;
+  }
+};
 
-export const detectFileType = (file: File): DocType => {
-  if (file.type === 'application/pdf') return DocType.PDF;
-  if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') return DocType.DOCX;
-  return DocType.UNKNOWN;
+// Files that neither their name nor their reported type identify (an empty type or
+// application/octet-stream) are identified from their content. The returned copy carries the
+// detected MIME type, so detectFileType recognises it from then on.
+export const identifyFile = async (file: File): Promise<File> => {
+  if (detectFileType(file) !== DocType.UNKNOWN) return file;
+  const type = await sniffMimeType(file);
+  return type ? new File([file], file.name, { type, lastModified: file.lastModified }) : file;
 };
 
-// Helper: Process array in batches
-async function batchProcess<T, R>(items: T[], batchSize: number, fn: (item: T) => Promise<R>): Promise<R[]> {
-  const results: R[] = [];
-  for (let i = 0; i < items.length; i += batchSize) {
-    const batch = items.slice(i, i + batchSize);
-    const batchResults = await Promise.all(batch.map(fn));
-    results.push(...batchResults);
+// Photos taken in order get increasing numbers in their names (IMG_0009, IMG_0010)
+export const sortPageFiles = (files: File[]): File[] =>
+  [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }) || a.lastModified - b.lastModified);
+
+// Decodes a photo or scan, applies its EXIF orientation and preprocessing, and returns it as a JPEG page
+export const processImagePage = async (file: File, pageNumber: number, preprocessing: ImagePreprocessing = DEFAULT_IMAGE_PREPROCESSING): Promise<PdfPage> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(HEIC_FILE.test(file.name) || file.type.includes('hei')
+      ? `${file.name}: this browser cannot read HEIC photos. Convert them to JPEG (or open the app in Safari).`
+      : `${file.name} could not be read as an image.`);
+  }
+
+  try {
+    const canvas = preprocessImage(bitmap, bitmap.width, bitmap.height, preprocessing);
+    const data = await encodeJpeg(canvas, 0.85);
+    return { pageNumber, path: 'image', mimeType: 'image/jpeg', data, source: { kind: 'image', start: pageNumber, end: pageNumber } };
+  } finally {
+    bitmap.close();
   }
-  return results;
+};
+
+// Pages the render worker may read ahead of extraction
+const PDF_READ_AHEAD = 12;
+
+export interface PdfPageStream {
+  pageCount: number;
+  pages: AsyncGenerator<PdfPage>; // In page order, read while earlier pages are being extracted
 }
 
-// Converts a PDF file into an array of Base64 Image strings
-export const processPdfToImages = async (file: File): Promise<string[]> => {
+// Opens a PDF in the render worker. In hybrid mode, pages with a usable text layer come back as
+// HTML text; scanned or low-text pages are rendered to JPEG images. Aborting `signal` stops the worker.
+export const openPdfPageStream = async (
+  file: File,
+  mode: PdfProcessingMode = PdfProcessingMode.HYBRID,
+  preprocessing: ImagePreprocessing = DEFAULT_IMAGE_PREPROCESSING,
+  signal?: AbortSignal
+): Promise<PdfPageStream> => {
+  signal?.throwIfAborted();
+  const worker = new Worker(new URL('./pdfRenderWorker.ts', import.meta.url), { type: 'module' });
+
+  const inbox: PdfWorkerResponse[] = [];
+  let failure: unknown = null;
+  let notify: (() => void) | null = null;
+  const wakeReader = () => {
+    notify?.();
+    notify = null;
+  };
+  const fail = (error: unknown) => {
+    failure = error;
+    worker.terminate();
+    wakeReader();
+  };
+  const onAbort = () => fail(signal!.reason);
+  const close = () => {
+    worker.terminate();
+    signal?.removeEventListener('abort', onAbort);
+  };
+
+  signal?.addEventListener('abort', onAbort, { once: true });
+  worker.onmessage = (event: MessageEvent<PdfWorkerResponse>) => {
+    inbox.push(event.data);
+    wakeReader();
+  };
+  worker.onerror = (event) => fail(new Error(`Failed to process PDF: ${event.message}`));
+
+  const receive = async (): Promise<PdfWorkerResponse> => {
+    while (!failure && inbox.length === 0) {
+      await new Promise<void>(resolve => { notify = resolve; });
+    }
+    if (failure) throw failure;
+    const message = inbox.shift()!;
+    if (message.type === 'error') throw new Error(message.message);
+    return message;
+  };
+
+  const open: PdfWorkerRequest = { type: 'open', file, mode, preprocessing, readAhead: PDF_READ_AHEAD };
+  worker.postMessage(open);
+  let opened: PdfWorkerResponse;
+  try {
+    opened = await receive();
+  } catch (error) {
+    close();
+    throw error;
+  }
+
+  async function* pages(): AsyncGenerator<PdfPage> {
+    const pull: PdfWorkerRequest = { type: 'pull' };
+    try {
+      while (true) {
+        const message = await receive();
+        if (message.type === 'done') return;
+        if (message.type === 'page') {
+          worker.postMessage(pull);
+          yield message.page;
+        }
+      }
+    } finally {
+      close();
+    }
+  }
+
+  return { pageCount: opened.type === 'opened' ? opened.pageCount : 0, pages: pages() };
+};
+
+// Loaded documents are kept per file so flipping between previews stays fast
+const previewDocuments = new WeakMap<File, Promise<any>>();
+
+// Renders a single PDF page as a JPEG data URL for the source preview pane
+export const renderPdfPagePreview = async (file: File, pageNumber: number): Promise<string> => {
   if (!getDocument) {
     throw new Error("PDF processing engine failed to load. Please refresh the page.");
   }
 
-  const arrayBuffer = await file.arrayBuffer();
-  
-  try {
-    const pdf = await getDocument({ data: arrayBuffer }).promise;
-    const numPages = pdf.numPages;
-    const pageIndices = Array.from({ length: numPages }, (_, i) => i + 1);
-
-    const renderPage = async (pageNum: number): Promise<string> => {
-      const page = await pdf.getPage(pageNum);
-      const viewport = page.getViewport({ scale: 1.5 }); 
-      const canvas = document.createElement('canvas');
-      const context = canvas.getContext('2d');
-      
-      if (!context) return '';
-
-      canvas.height = viewport.height;
-      canvas.width = viewport.width;
-
-      context.fillStyle = '#FFFFFF';
-      context.fillRect(0, 0, canvas.width, canvas.height);
-
-      await page.render({
-        canvasContext: context,
-        viewport: viewport
-      }).promise;
-
-      // Extract image data
-      const base64 = canvas.toDataURL('image/jpeg', 0.8).split(',')[1];
-      return base64;
-    };
-
-    const images = await batchProcess(pageIndices, 4, renderPage);
-    return images.filter(img => img.length > 0);
-  } catch (err: any) {
-    console.error("PDF Render Error:", err);
-    throw new Error(`Failed to process PDF: ${err.message}`);
+  let loading = previewDocuments.get(file);
+  if (!loading) {
+    loading = file.arrayBuffer().then(data => getDocument({ data }).promise);
+    previewDocuments.set(file, loading);
   }
+
+  const pdf = await loading;
+  const page = await pdf.getPage(pageNumber);
+  const image = await renderPageImage(page, 1.2);
+  return image ? `data:image/jpeg;base64,${image}` : '';
 };
 
-// Chunking helper for HTML content
-const chunkHtmlContent = (html: string, maxChunkSize: number = 30000): string[] => {
-  if (html.length <= maxChunkSize) return [html];
+// Chunking helper for HTML content, tracking which paragraphs each chunk covers.
+// Consecutive chunks share up to `overlapSize` characters of trailing paragraphs so a
+// question cut at a boundary appears whole in at least one of them.
+const chunkHtmlContent = (html: string, maxChunkSize: number = 30000, overlapSize: number = 1500): DocxChunk[] => {
+  const parts = html.split('</p>').map((part, i, all) => (i < all.length - 1 ? part + '</p>' : part));
+  const lastParagraph = Math.max(1, parts.length - 1);
+  if (html.length <= maxChunkSize) return [{ html, paragraphStart: 1, paragraphEnd: lastParagraph }];
 
-  const chunks: string[] = [];
-  const parts = html.split('</p>');
-  
-  let currentChunk = '';
+  const chunks: DocxChunk[] = [];
+  const makeChunk = (start: number, end: number): DocxChunk => ({
+    html: parts.slice(start, end).join(''),
+    paragraphStart: start + 1,
+    paragraphEnd: Math.max(start + 1, Math.min(end, lastParagraph))
+  });
+
+  let start = 0;      // First paragraph of the current chunk
+  let freshStart = 0; // First paragraph not already covered by the previous chunk
+  let size = 0;
   
   for (let i = 0; i < parts.length; i++) {
-    let part = parts[i];
-    if (i < parts.length - 1) part += '</p>';
-
-    if (currentChunk.length + part.length > maxChunkSize) {
-      if (currentChunk.length > 0) {
-        chunks.push(currentChunk);
-        currentChunk = part;
-      } else {
-        chunks.push(part);
-        currentChunk = '';
+    if (size + parts[i].length > maxChunkSize && i > freshStart) {
+      chunks.push(makeChunk(start, i));
+
+      let overlapStart = i;
+      let overlap = 0;
+      while (overlapStart - 1 > start && overlap + parts[overlapStart - 1].length <= overlapSize) {
+        overlapStart--;
+        overlap += parts[overlapStart].length;
       }
-    } else {
-      currentChunk += part;
+      start = overlapStart;
+      freshStart = i;
+      size = overlap;
     }
+    size += parts[i].length;
   }
   
-  if (currentChunk.length > 0) chunks.push(currentChunk);
+  if (parts.slice(freshStart).join('').trim().length > 0) chunks.push(makeChunk(start, parts.length));
   
   return chunks;
 };
 
-// Converts DOCX to an array of base64 encoded HTML chunks
-export const processDocxToHtml = async (file: File): Promise<string[]> => {
+// Keep answer styling visible in the HTML: Word highlights and underlines are dropped by default
+const DOCX_STYLE_MAP = [
+  "highlight => mark",
+  "u => u"
+];
+
+// Converts DOCX to an array of raw HTML chunks. Embedded images are taken out as figures and
+// leave a marker in the text, so they no longer bloat the chunks as data URIs.
+export const processDocxToHtml = async (file: File): Promise<DocxChunk[]> => {
   const arrayBuffer = await file.arrayBuffer();
   
   // Ensure global Buffer is available (polyfilled in index.html)
@@ -125,8 +282,421 @@ export const processDocxToHtml = async (file: File): Promise<string[]> => {
      win.Buffer = win.buffer.Buffer;
   }
   
-  const result = await mammoth.convertToHtml({ arrayBuffer });
-  const rawHtml = result.value;
-  const chunks = chunkHtmlContent(rawHtml);
-  return chunks.map(chunk => btoa(unescape(encodeURIComponent(chunk))));
-};
\ No newline at end of file
+  const figures: Figure[] = [];
+  const convertImage = mammoth.images.imgElement(async image => {
+    if (!FIGURE_MIME_TYPES.includes(image.contentType)) return { src: '' };
+    // Labelled before the read, so labels follow document order
+    const figure: Figure = { id: crypto.randomUUID(), label: String(figures.length + 1), mimeType: image.contentType, data: '' };
+    figures.push(figure);
+    figure.data = await image.readAsBase64String();
+    return { src: `figure:${figure.label}` };
+  });
+
+  const result = await mammoth.convertToHtml({ arrayBuffer }, { styleMap: DOCX_STYLE_MAP, convertImage });
+  const html = result.value
+    .replace(/<img [^>]*src="figure:([\d.]+)"[^>]*>/g, (_, label: string) => ` ${figureMarker(label)} `)
+    .replace(/<img [^>]*>/g, '');
+  return chunkHtmlContent(html).map(chunk => ({ ...chunk, figures: figuresIn(chunk.html, figures) }));
+};
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// The answer styling docxRuleParser and the model look for, and sub- and superscripts, which
+// docxRuleParser keeps as math
+interface RunStyle {
+  bold?: boolean;
+  underline?: boolean;
+  highlight?: boolean;
+  script?: 'sup' | 'sub';
+}
+
+const styleRun = (html: string, style: RunStyle): string => {
+  if (!html.trim()) return html;
+  let styled = style.script ? `<${style.script}>${html}</${style.script}>` : html;
+  if (style.bold) styled = `<strong>${styled}</strong>`;
+  if (style.underline) styled = `<u>${styled}</u>`;
+  if (style.highlight) styled = `<mark>${styled}</mark>`;
+  return styled;
+};
+
+// Groups whole slides or pages into chunks of up to `maxChunkSize` characters. Each chunk after
+// the first repeats the last `overlap` sections of the one before, so a question running across
+// a boundary is seen whole at least once. A section longer than a chunk is split by paragraph.
+export const chunkSections = (sections: DocumentSection[], overlap: number = 0, maxChunkSize: number = 30000): SectionChunk[] => {
+  const chunks: SectionChunk[] = [];
+  let group: DocumentSection[] = [];
+  const groupSize = (list: DocumentSection[]) => list.reduce((size, section) => size + section.html.length, 0);
+  const flush = () => {
+    if (group.length === 0) return;
+    chunks.push({
+      html: group.map(section => section.html).join(''),
+      start: group[0].number,
+      end: group[group.length - 1].number,
+      figures: group.flatMap(section => section.figures || [])
+    });
+  };
+
+  for (const section of sections) {
+    if (section.html.length > maxChunkSize) {
+      flush();
+      group = [];
+      chunkHtmlContent(section.html, maxChunkSize).forEach(piece => chunks.push({
+        html: piece.html,
+        start: section.number,
+        end: section.number,
+        paragraphStart: piece.paragraphStart,
+        paragraphEnd: piece.paragraphEnd,
+        figures: figuresIn(piece.html, section.figures || [])
+      }));
+      continue;
+    }
+    if (group.length > 0 && groupSize(group) + section.html.length > maxChunkSize) {
+      flush();
+      const carried = overlap > 0 ? group.slice(-overlap) : [];
+      group = groupSize(carried) + section.html.length <= maxChunkSize ? carried : [];
+    }
+    group.push(section);
+  }
+  flush();
+  return chunks;
+};
+
+const XML_NS = {
+  drawing: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  presentation: 'http://schemas.openxmlformats.org/presentationml/2006/main',
+  relationships: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  packageRelationships: 'http://schemas.openxmlformats.org/package/2006/relationships',
+  office: 'urn:oasis:names:tc:opendocument:xmlns:office:1.0',
+  text: 'urn:oasis:names:tc:opendocument:xmlns:text:1.0',
+  table: 'urn:oasis:names:tc:opendocument:xmlns:table:1.0',
+  style: 'urn:oasis:names:tc:opendocument:xmlns:style:1.0',
+  fo: 'urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0',
+  draw: 'urn:oasis:names:tc:opendocument:xmlns:drawing:1.0',
+  xlink: 'http://www.w3.org/1999/xlink'
+};
+
+const FIGURE_EXTENSION_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+};
+
+// An image part of an office package as a figure; null for formats browsers cannot show
+const readFigure = async (zip: JSZip, path: string, label: string): Promise<Figure | null> => {
+  const mimeType = FIGURE_EXTENSION_TYPES[extensionOf(path)];
+  const entry = zip.file(path);
+  if (!mimeType || !FIGURE_MIME_TYPES.includes(mimeType) || !entry) return null;
+  return { id: crypto.randomUUID(), label, mimeType, data: await entry.async('base64') };
+};
+
+const readXml = async (zip: JSZip, path: string): Promise<Document | null> => {
+  const xml = await zip.file(path)?.async('string');
+  return xml ? new DOMParser().parseFromString(xml, 'application/xml') : null;
+};
+
+// Package paths are relative to the part that links them ("../notesSlides/notesSlide1.xml")
+const resolvePartPath = (from: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = from.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+};
+
+// Relationship id -> { target part path, relationship type } for one part
+const readRelationships = async (zip: JSZip, partPath: string): Promise<Map<string, { path: string; type: string }>> => {
+  const parts = partPath.split('/');
+  const name = parts.pop();
+  const rels = await readXml(zip, [...parts, '_rels', `${name}.rels`].join('/'));
+  const relationships = new Map<string, { path: string; type: string }>();
+  Array.from(rels?.getElementsByTagNameNS(XML_NS.packageRelationships, 'Relationship') || []).forEach(rel => {
+    relationships.set(rel.getAttribute('Id') || '', {
+      path: resolvePartPath(partPath, rel.getAttribute('Target') || ''),
+      type: rel.getAttribute('Type') || ''
+    });
+  });
+  return relationships;
+};
+
+// A DrawingML paragraph (slide text box, table cell or notes) as an HTML paragraph
+const drawingParagraphHtml = (paragraph: Element): string => {
+  let html = '';
+  paragraph.childNodes.forEach(node => {
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const run = node as Element;
+    if (run.localName === 'br') {
+      html += '<br>';
+    } else if (run.localName === 'r' || run.localName === 'fld') {
+      const text = run.getElementsByTagNameNS(XML_NS.drawing, 't')[0]?.textContent || '';
+      const props = run.getElementsByTagNameNS(XML_NS.drawing, 'rPr')[0];
+      const underline = props?.getAttribute('u');
+      // Baseline shift in thousandths of a percent: positive is raised
+      const baseline = Number(props?.getAttribute('baseline') || 0);
+      html += styleRun(escapeHtml(text), {
+        bold: ['1', 'true'].includes(props?.getAttribute('b') || ''),
+        underline: !!underline && underline !== 'none',
+        highlight: !!props?.getElementsByTagNameNS(XML_NS.drawing, 'highlight').length,
+        script: baseline > 0 ? 'sup' : baseline < 0 ? 'sub' : undefined
+      });
+    }
+  });
+  return html.replace(/<br>/g, '').trim() ? `<p>${html}</p>` : '';
+};
+
+// Text paragraphs and pictures in document order; a picture becomes its figure marker
+const drawingTextHtml = (root: Element, pictures: Map<Element, Figure> = new Map()): string =>
+  Array.from(root.getElementsByTagName('*'))
+    .map(element => {
+      if (element.namespaceURI === XML_NS.drawing && element.localName === 'p') return drawingParagraphHtml(element);
+      const figure = pictures.get(element);
+      return figure ? `<p>${figureMarker(figure.label)}</p>` : '';
+    })
+    .join('');
+
+// Only the notes body; the notes page also repeats the slide image and number
+const notesHtml = (notes: Document): string =>
+  Array.from(notes.getElementsByTagNameNS(XML_NS.presentation, 'sp'))
+    .filter(shape => shape.getElementsByTagNameNS(XML_NS.presentation, 'ph')[0]?.getAttribute('type') === 'body')
+    .map(shape => drawingTextHtml(shape))
+    .join('');
+
+// Converts a PowerPoint deck to one HTML section per slide, in presentation order. Speaker
+// notes follow their slide's text, since review decks often keep the answer there. Pictures
+// become figures labelled by slide ("[Figure 4.2]").
+export const processPptxToSlides = async (file: File): Promise<DocumentSection[]> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const presentationPath = 'ppt/presentation.xml';
+  const presentation = await readXml(zip, presentationPath);
+  if (!presentation) throw new Error(`${file.name} is not a PowerPoint presentation.`);
+
+  const relationships = await readRelationships(zip, presentationPath);
+  const slidePaths = Array.from(presentation.getElementsByTagNameNS(XML_NS.presentation, 'sldId'))
+    .map(slideId => relationships.get(slideId.getAttributeNS(XML_NS.relationships, 'id') || '')?.path)
+    .filter((path): path is string => !!path);
+
+  const slides = await Promise.all(slidePaths.map(async (path, index): Promise<DocumentSection> => {
+    const slide = await readXml(zip, path);
+    const slideRelationships = await readRelationships(zip, path);
+    const notesPath = Array.from(slideRelationships.values()).find(rel => rel.type.endsWith('/notesSlide'))?.path;
+    const notes = notesPath ? await readXml(zip, notesPath) : null;
+
+    const pictures = new Map<Element, Figure>();
+    for (const picture of Array.from(slide?.getElementsByTagNameNS(XML_NS.presentation, 'pic') || [])) {
+      const embed = picture.getElementsByTagNameNS(XML_NS.drawing, 'blip')[0]?.getAttributeNS(XML_NS.relationships, 'embed');
+      const target = embed ? slideRelationships.get(embed)?.path : undefined;
+      const figure = target ? await readFigure(zip, target, `${index + 1}.${pictures.size + 1}`) : null;
+      if (figure) pictures.set(picture, figure);
+    }
+
+    const html = (slide ? drawingTextHtml(slide.documentElement, pictures) : '') + (notes ? notesHtml(notes) : '');
+    return { number: index + 1, html, figures: Array.from(pictures.values()) };
+  }));
+  return slides.filter(slide => slide.html.length > 0);
+};
+
+interface OdtStyle extends RunStyle {
+  parent?: string;
+  breakBefore?: boolean;
+  breakAfter?: boolean;
+}
+
+// Named and automatic styles, so spans and paragraphs can be checked for answer styling
+const readOdtStyles = (documents: (Document | null)[]): Map<string, OdtStyle> => {
+  const styles = new Map<string, OdtStyle>();
+  documents.forEach(doc => {
+    Array.from(doc?.getElementsByTagNameNS(XML_NS.style, 'style') || []).forEach(element => {
+      const text = element.getElementsByTagNameNS(XML_NS.style, 'text-properties')[0];
+      const paragraph = element.getElementsByTagNameNS(XML_NS.style, 'paragraph-properties')[0];
+      const weight = text?.getAttributeNS(XML_NS.fo, 'font-weight') || '';
+      const underline = text?.getAttributeNS(XML_NS.style, 'text-underline-style') || '';
+      const background = text?.getAttributeNS(XML_NS.fo, 'background-color') || '';
+      // "super 58%", "sub 58%" or a signed percentage such as "33% 58%"
+      const position = (text?.getAttributeNS(XML_NS.style, 'text-position') || '').split(/\s+/)[0];
+      styles.set(element.getAttributeNS(XML_NS.style, 'name') || '', {
+        parent: element.getAttributeNS(XML_NS.style, 'parent-style-name') || undefined,
+        bold: weight === 'bold' || Number(weight) >= 600,
+        underline: !!underline && underline !== 'none',
+        highlight: !!background && background !== 'transparent',
+        script: position === 'super' || parseFloat(position) > 0 ? 'sup' : position === 'sub' || parseFloat(position) < 0 ? 'sub' : undefined,
+        breakBefore: paragraph?.getAttributeNS(XML_NS.fo, 'break-before') === 'page',
+        breakAfter: paragraph?.getAttributeNS(XML_NS.fo, 'break-after') === 'page'
+      });
+    });
+  });
+  return styles;
+};
+
+// Converts an ODT document to one HTML section per page. Page breaks are the explicit ones and
+// the soft breaks LibreOffice records when it saves; a file without either is a single page.
+export const processOdtToPages = async (file: File): Promise<DocumentSection[]> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const content = await readXml(zip, 'content.xml');
+  const body = content?.getElementsByTagNameNS(XML_NS.office, 'text')[0];
+  if (!body) throw new Error(`${file.name} is not an OpenDocument text file.`);
+  const styles = readOdtStyles([await readXml(zip, 'styles.xml'), content]);
+
+  // The first image of each frame; later ones are fallbacks for the same picture
+  const frames = new Map<Element, Figure>();
+  for (const frame of Array.from(body.getElementsByTagNameNS(XML_NS.draw, 'frame'))) {
+    const href = Array.from(frame.children).find(child => child.localName === 'image')?.getAttributeNS(XML_NS.xlink, 'href');
+    const figure = href ? await readFigure(zip, href.replace(/^\.\//, ''), String(frames.size + 1)) : null;
+    if (figure) frames.set(frame, figure);
+  }
+
+  // Styling inherited through parent styles, e.g. an automatic style based on "Strong Emphasis"
+  const styleOf = (element: Element): OdtStyle => {
+    const resolved: OdtStyle = {};
+    let name: string | undefined = element.getAttributeNS(XML_NS.text, 'style-name') || undefined;
+    for (let depth = 0; name && depth < 10; depth++) {
+      const style = styles.get(name);
+      if (!style) break;
+      resolved.bold ||= style.bold;
+      resolved.underline ||= style.underline;
+      resolved.highlight ||= style.highlight;
+      resolved.script ||= style.script;
+      resolved.breakBefore ||= style.breakBefore;
+      resolved.breakAfter ||= style.breakAfter;
+      name = style.parent;
+    }
+    return resolved;
+  };
+
+  const inlineHtml = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return escapeHtml(node.textContent || '');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const element = node as Element;
+    switch (element.localName) {
+      case 's': return ' '.repeat(Number(element.getAttributeNS(XML_NS.text, 'c')) || 1);
+      case 'tab': return ' ';
+      case 'line-break': return '<br>';
+      // Footnotes and comments would land in the middle of the question
+      case 'note':
+      case 'annotation':
+        return '';
+      case 'span': return styleRun(Array.from(element.childNodes).map(inlineHtml).join(''), styleOf(element));
+      case 'frame': {
+        const figure = frames.get(element);
+        return figure ? ` ${figureMarker(figure.label)} ` : Array.from(element.childNodes).map(inlineHtml).join('');
+      }
+      default: return Array.from(element.childNodes).map(inlineHtml).join('');
+    }
+  };
+
+  const paragraphContent = (paragraph: Element): string =>
+    styleRun(Array.from(paragraph.childNodes).map(inlineHtml).join(''), styleOf(paragraph));
+
+  const paragraphHtml = (paragraph: Element, tag: string): string => {
+    const html = paragraphContent(paragraph);
+    return html.trim() ? `<${tag}>${html}</${tag}>` : '';
+  };
+
+  // Lists keep mammoth's <ol>/<li> shape, so nested options parse the same as in Word files
+  const blockHtml = (element: Element): string => {
+    switch (element.localName) {
+      case 'p': return paragraphHtml(element, 'p');
+      case 'h': return paragraphHtml(element, `h${Math.min(6, Number(element.getAttributeNS(XML_NS.text, 'outline-level')) || 1)}`);
+      case 'list': {
+        const items = Array.from(element.children)
+          .filter(item => item.localName === 'list-item' || item.localName === 'list-header')
+          .map(item => Array.from(item.children).map(child =>
+            child.localName === 'p' || child.localName === 'h' ? paragraphContent(child) : blockHtml(child)
+          ).filter(html => html.trim()).join('<br>'))
+          .filter(html => html.trim());
+        return items.length > 0 ? `<ol>${items.map(html => `<li>${html}</li>`).join('')}</ol>` : '';
+      }
+      case 'table': {
+        const rows = Array.from(element.getElementsByTagNameNS(XML_NS.table, 'table-row')).map(row =>
+          `<tr>${Array.from(row.getElementsByTagNameNS(XML_NS.table, 'table-cell')).map(cell =>
+            `<td>${Array.from(cell.children).map(blockHtml).join('')}</td>`
+          ).join('')}</tr>`
+        );
+        return `<table>${rows.join('')}</table>`;
+      }
+      case 'section': return Array.from(element.children).map(blockHtml).join('');
+      // Anchored to the page rather than a paragraph
+      case 'frame': {
+        const html = inlineHtml(element);
+        return html.trim() ? `<p>${html}</p>` : '';
+      }
+      default: return '';
+    }
+  };
+
+  const pages: DocumentSection[] = [{ number: 1, html: '' }];
+  const newPage = () => pages.push({ number: pages.length + 1, html: '' });
+  const blocks = (parent: Element): Element[] => Array.from(parent.children).flatMap(child =>
+    child.localName === 'section' ? blocks(child) : [child]
+  );
+
+  for (const block of blocks(body)) {
+    if (block.localName === 'soft-page-break') {
+      newPage();
+      continue;
+    }
+    const paragraphs = block.localName === 'p' || block.localName === 'h'
+      ? [block]
+      : Array.from(block.getElementsByTagNameNS(XML_NS.text, '*')).filter(el => el.localName === 'p' || el.localName === 'h');
+    const first = paragraphs[0] ? styleOf(paragraphs[0]) : {};
+    if (first.breakBefore && pages[pages.length - 1].html) newPage();
+
+    pages[pages.length - 1].html += blockHtml(block);
+
+    // A block that runs onto the next page is kept whole on the page it starts on
+    const breaks = block.getElementsByTagNameNS(XML_NS.text, 'soft-page-break').length
+      + paragraphs.filter((paragraph, i) => (i > 0 && styleOf(paragraph).breakBefore) || styleOf(paragraph).breakAfter).length;
+    for (let i = 0; i < breaks; i++) newPage();
+  }
+  const figures = Array.from(frames.values());
+  return pages
+    .filter(page => page.html.length > 0)
+    .map(page => ({ ...page, figures: figuresIn(page.html, figures) }));
+};
+
+// Markdown inline formatting as HTML. Highlights (==text==) and bold are kept as answer styling.
+const markdownEmphasisHtml = (text: string): string =>
+  escapeHtml(text)
+    .replace(/==(?=\S)(.+?)==/g, '<mark>$1</mark>')
+    .replace(/(\*\*|__)(?=\S)(.+?)\1/g, '<strong>$2</strong>')
+    .replace(/~~(?=\S)(.+?)~~/g, '<del>$1</del>')
+    .replace(/\*(?=\S)(.+?)\*/g, '<em>$1</em>');
+
+// Code and math are kept as written, so "$a*b*c$" is not read as emphasis
+const markdownInlineHtml = (line: string): string =>
+  splitMath(line).map(part => {
+    if (!part.verbatim) return markdownEmphasisHtml(part.text);
+    const code = part.text.match(/^`([^`]+)`$/);
+    return code ? `<code>${escapeHtml(code[1])}</code>` : escapeHtml(part.text);
+  }).join('');
+
+const markdownLineHtml = (line: string): string => {
+  // Rules and table separator rows carry no text
+  if (/^([-*_]\s*){3,}$/.test(line) || /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/.test(line)) return '';
+  if (/^\|.*\|$/.test(line)) {
+    const cells = line.slice(1, -1).split('|').map(cell => `<td>${markdownInlineHtml(cell.trim())}</td>`);
+    return `<tr>${cells.join('')}</tr>`;
+  }
+  const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+  if (heading) return `<h${heading[1].length}>${markdownInlineHtml(heading[2])}</h${heading[1].length}>`;
+
+  const text = line.replace(/^(>\s*)+/, '');
+  // A ticked task-list box ("- [x] Paris") marks the answer the way a highlight does
+  const task = text.match(/^[-*+]\s+\[([ xX])\]\s+(.*)$/);
+  if (task) return `<p>${styleRun(markdownInlineHtml(task[2]), { highlight: task[1] !== ' ' })}</p>`;
+  // Bullets are dropped, but numbers stay: they are the question numbers
+  return `<p>${markdownInlineHtml(text.replace(/^[-*+]\s+/, ''))}</p>`;
+};
+
+// Converts a plain-text or Markdown file to HTML chunks, one paragraph per non-empty line
+export const processTextToHtml = async (file: File): Promise<DocxChunk[]> => {
+  const markdown = detectFileType(file) === DocType.MARKDOWN;
+  const lines = (await file.text()).split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const html = lines.map(line => (markdown ? markdownLineHtml(line) : `<p>${escapeHtml(line)}</p>`)).join('')
+    // Consecutive table rows form one table, so answer-key grids are read as such
+    .replace(/(<tr>.*?<\/tr>)+/g, '<table>$&</table>');
+  return chunkHtmlContent(html);
+};
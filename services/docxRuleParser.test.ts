@@ -0,0 +1,69 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { AnswerEvidence, QuestionType } from '../types';
+import { parseDocxChunk } from './docxRuleParser';
+
+describe('parseDocxChunk', () => {
+  it('reads numbered questions with labelled options and a highlighted answer', () => {
+    const { items, confident } = parseDocxChunk(`
+      <p>1. What is 2 + 2?</p>
+      <p>A) 3</p>
+      <p><mark>B) 4</mark></p>
+      <p>C) 5</p>
+      <p>2. Which is a prime?</p>
+      <p>A) 4</p><p>B) 6</p><p>C) <strong>7</strong></p>
+    `);
+
+    expect(confident).toBe(true);
+    expect(items).toMatchObject([
+      { questionNumber: '1', question: 'What is 2 + 2?', choices: ['3', '4', '5'], correctAnswer: 'B', answerEvidence: AnswerEvidence.HIGHLIGHT },
+      { questionNumber: '2', question: 'Which is a prime?', choices: ['4', '6', '7'], correctAnswer: 'C', answerEvidence: AnswerEvidence.STYLE }
+    ]);
+  });
+
+  it('splits inline options and takes an answer line over styling', () => {
+    const { items } = parseDocxChunk(`
+      <p>1. Capital of France? a) Rome b) Paris c) Madrid</p>
+      <p>Answer: B</p>
+    `);
+
+    expect(items).toMatchObject([
+      { question: 'Capital of France?', choices: ['Rome', 'Paris', 'Madrid'], correctAnswer: 'B', answerEvidence: AnswerEvidence.ANSWER_KEY }
+    ]);
+  });
+
+  it('reads auto-numbered list items as questions with nested options', () => {
+    const { items, confident } = parseDocxChunk(`
+      <ol>
+        <li>Water boils at<ol><li>50 °C</li><li><u>100 °C</u></li></ol></li>
+        <li>The sun is a star.<ol><li>True</li><li>False</li></ol></li>
+      </ol>
+    `);
+
+    expect(confident).toBe(true);
+    expect(items[0]).toMatchObject({ question: 'Water boils at', choices: ['50 °C', '100 °C'], correctAnswer: 'B' });
+    expect(items[1]).toMatchObject({ questionType: QuestionType.TRUE_FALSE, correctAnswer: '' });
+  });
+
+  it('ignores styling applied to every option', () => {
+    const { items, confident } = parseDocxChunk('<p>1. Pick one</p><p><strong>A) x</strong></p><p><strong>B) y</strong></p>');
+    expect(confident).toBe(true);
+    expect(items[0]).toMatchObject({ correctAnswer: '', answerEvidence: AnswerEvidence.NONE });
+  });
+
+  it('gives up on ambiguous or unstructured chunks', () => {
+    // Two of three options bold: no single answer
+    expect(parseDocxChunk('<p>1. Pick</p><p><b>A) x</b></p><p><b>B) y</b></p><p>C) z</p>')).toEqual({ items: [], confident: false });
+    // Prose between options
+    expect(parseDocxChunk('<p>1. Pick</p><p>A) x</p><p>B) y</p><p>Some stray note.</p>').confident).toBe(false);
+    // Too few options
+    expect(parseDocxChunk('<p>1. Explain photosynthesis.</p>').confident).toBe(false);
+    // A long passage before the first question is left to the AI
+    expect(parseDocxChunk(`<p>${'Long reading passage. '.repeat(20)}</p><p>1. Pick</p><p>A) x</p><p>B) y</p>`).confident).toBe(false);
+  });
+
+  it('reads Arabic option labels as letters', () => {
+    const { items } = parseDocxChunk('<p>1. ما عاصمة مصر؟</p><p>أ) الإسكندرية</p><p><mark>ب) القاهرة</mark></p>');
+    expect(items[0]).toMatchObject({ choices: ['الإسكندرية', 'القاهرة'], correctAnswer: 'B' });
+  });
+});
@@ -0,0 +1,281 @@
+import { McqData, QuestionType, AnswerEvidence, CHOICE_LETTERS, MIN_CHOICES, MAX_CHOICES } from '../types';
+import { ARABIC_LETTERS, looksLikeTrueFalse } from './questionTypes';
+import { normalizeQuestionNumber } from './answerKeyService';
+import { detectLanguage, normalizeRtlText } from './languageService';
+
+// Deterministic parser for strictly formatted Word exams ("1. question" / "a) b) c) d)").
+// Works on the mammoth HTML produced by processDocxToHtml, which maps Word highlights
+// to <mark> and underlines to <u> so the answer styling survives conversion.
+
+const HIGHLIGHT = 1;
+const UNDERLINE = 2;
+const BOLD = 4;
+
+// Strongest answer signal first, mirroring the priority given to the AI
+const ANSWER_SIGNALS = [HIGHLIGHT, UNDERLINE, BOLD];
+
+const SIGNAL_EVIDENCE: Record<number, AnswerEvidence> = {
+  [HIGHLIGHT]: AnswerEvidence.HIGHLIGHT,
+  [UNDERLINE]: AnswerEvidence.STYLE,
+  [BOLD]: AnswerEvidence.STYLE
+};
+
+// Explicit markings are read without guessing; bold or underline can still be plain emphasis
+const EVIDENCE_CONFIDENCE: Partial<Record<AnswerEvidence, number>> = {
+  [AnswerEvidence.ANSWER_KEY]: 1,
+  [AnswerEvidence.HIGHLIGHT]: 0.95,
+  [AnswerEvidence.STYLE]: 0.8
+};
+
+const MAX_PREAMBLE_LENGTH = 300;
+
+const QUESTION_PATTERN = /^(?:Q(?:uestion)?\s*)?[0-9٠-٩۰-۹]+\s*[.)\-–:](?![0-9])\s*/i;
+const OPTION_LABEL = '[(\\[]?\\s*([A-Ha-h]|الف|أ|ا|ب|ج|هـ|ه|د|و)\\s*[)\\].\\-–:]';
+const OPTION_PATTERN = new RegExp(`^${OPTION_LABEL}\\s*`);
+const INLINE_OPTION_PATTERN = new RegExp(`(?:^|\\s)(${OPTION_LABEL})\\s+`, 'g');
+const ANSWER_LINE_PATTERN = /^(?:correct\s+answer|answer|ans|الإجابة|الاجابة)\s*[:\-–]?\s*\(?([A-Ha-h]|الف|أ|ا|ب|ج|هـ|ه|د|و)\)?\s*$/i;
+
+// A run of text with a per-character style bitmask
+interface Segment {
+  text: string;
+  styles: number[];
+}
+
+interface Line extends Segment {
+  depth: number; // Nesting of the enclosing list, -1 for plain paragraphs
+}
+
+interface Option extends Segment {
+  labelLength: number;
+}
+
+interface ParsedQuestion {
+  number?: string;
+  text: string;
+  depth: number;
+  options: Option[];
+  keyAnswer?: string;
+}
+
+export interface RuleParseResult {
+  items: McqData[];
+  confident: boolean;
+}
+
+const toLetter = (label: string): string => ARABIC_LETTERS[label] ?? label.toUpperCase();
+
+const sliceSegment = (segment: Segment, start: number, end = segment.text.length): Segment => ({
+  text: segment.text.slice(start, end),
+  styles: segment.styles.slice(start, end)
+});
+
+const trimSegment = <T extends Segment>(segment: T): T => {
+  const start = segment.text.length - segment.text.trimStart().length;
+  const end = segment.text.trimEnd().length;
+  return { ...segment, ...sliceSegment(segment, start, Math.max(start, end)) };
+};
+
+const collectStyledText = (node: Node, mask: number, out: Segment, root: Element) => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    // Direction marks would break the label patterns, and digits are kept Western like the AI output
+    const text = normalizeRtlText(node.textContent || '');
+    out.text += text;
+    for (let i = 0; i < text.length; i++) out.styles.push(mask);
+    return;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+  const el = node as Element;
+  const tag = el.tagName.toLowerCase();
+  // Nested lists are emitted as their own lines
+  if (el !== root && (tag === 'ol' || tag === 'ul')) return;
+  if (tag === 'br') {
+    out.text += '\n';
+    out.styles.push(0);
+    return;
+  }
+
+  // Sub- and superscripts are kept as math, so "x<sup>2</sup>" stays x² instead of "x2"
+  if ((tag === 'sup' || tag === 'sub') && el.textContent?.trim() && !el.querySelector('a')) {
+    const script = `$${tag === 'sup' ? '^' : '_'}{${el.textContent.trim().replace(/([\\{}$])/g, '\\$1')}}$`;
+    out.text += script;
+    for (let i = 0; i < script.length; i++) out.styles.push(mask);
+    return;
+  }
+
+  let nextMask = mask;
+  if (tag === 'mark') nextMask |= HIGHLIGHT;
+  if (tag === 'u') nextMask |= UNDERLINE;
+  if (tag === 'strong' || tag === 'b') nextMask |= BOLD;
+
+  el.childNodes.forEach(child => collectStyledText(child, nextMask, out, root));
+};
+
+const extractLines = (html: string): Line[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const lines: Line[] = [];
+
+  doc.body.querySelectorAll('p, li, h1, h2, h3, h4, h5, h6').forEach(el => {
+    // Paragraphs nested in list items are already covered by the list item
+    if (el.tagName.toLowerCase() !== 'li' && el.closest('li')) return;
+
+    let depth = -1;
+    if (el.tagName.toLowerCase() === 'li') {
+      for (let parent = el.parentElement; parent; parent = parent.parentElement) {
+        const tag = parent.tagName.toLowerCase();
+        if (tag === 'ol' || tag === 'ul') depth++;
+      }
+    }
+
+    const segment: Segment = { text: '', styles: [] };
+    collectStyledText(el, 0, segment, el);
+
+    // Soft line breaks often separate options inside a single paragraph
+    let offset = 0;
+    segment.text.split('\n').forEach(part => {
+      const line = trimSegment({ ...sliceSegment(segment, offset, offset + part.length), depth });
+      offset += part.length + 1;
+      if (line.text.length > 0) lines.push(line);
+    });
+  });
+
+  return lines;
+};
+
+// Splits "a) x  b) y  c) z" into options, but only when the labels run in sequence from `firstIndex`
+const splitInlineOptions = (segment: Segment, firstIndex: number): { before: Segment; options: Option[] } | null => {
+  const starts: { index: number; labelLength: number }[] = [];
+  let expected = firstIndex;
+
+  for (const match of segment.text.matchAll(INLINE_OPTION_PATTERN)) {
+    const label = match[2];
+    if (toLetter(label) !== CHOICE_LETTERS[expected]) continue;
+    const index = (match.index ?? 0) + match[0].indexOf(match[1]);
+    starts.push({ index, labelLength: match[0].length - (index - (match.index ?? 0)) });
+    expected++;
+  }
+
+  if (starts.length < 2) return null;
+
+  const options = starts.map((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].index : segment.text.length;
+    return { ...trimSegment(sliceSegment(segment, start.index, end)), labelLength: start.labelLength };
+  });
+
+  return { before: trimSegment(sliceSegment(segment, 0, starts[0].index)), options };
+};
+
+const isStyled = (option: Option, mask: number): boolean => {
+  const covered = (styles: number[], text: string) => {
+    let total = 0;
+    let hit = 0;
+    for (let i = 0; i < text.length; i++) {
+      if (/\s/.test(text[i])) continue;
+      total++;
+      if (styles[i] & mask) hit++;
+    }
+    return total > 0 ? hit / total : 0;
+  };
+
+  const label = sliceSegment(option, 0, option.labelLength);
+  const body = sliceSegment(option, option.labelLength);
+  return (label.text.trim().length > 0 && covered(label.styles, label.text) === 1)
+    || covered(body.styles, body.text) >= 0.6;
+};
+
+// Returns the answer letter and its signal, an empty letter when no option stands out, or null when the styling is ambiguous
+const detectAnswer = (options: Option[]): { letter: string; evidence: AnswerEvidence } | null => {
+  for (const signal of ANSWER_SIGNALS) {
+    const marked = options
+      .map((option, index) => (isStyled(option, signal) ? index : -1))
+      .filter(index => index >= 0);
+
+    if (marked.length === 1) return { letter: CHOICE_LETTERS[marked[0]], evidence: SIGNAL_EVIDENCE[signal] };
+    // Styling applied to every option is just formatting, not an answer signal
+    if (marked.length > 1 && marked.length < options.length) return null;
+  }
+  return { letter: '', evidence: AnswerEvidence.NONE };
+};
+
+export const parseDocxChunk = (html: string): RuleParseResult => {
+  const questions: ParsedQuestion[] = [];
+  let current: ParsedQuestion | null = null;
+  let preambleLength = 0;
+  let strayLines = 0;
+
+  for (const line of extractLines(html)) {
+    const answerMatch = line.text.match(ANSWER_LINE_PATTERN);
+    if (answerMatch && current) {
+      current.keyAnswer = toLetter(answerMatch[1]);
+      continue;
+    }
+
+    const optionMatch = line.text.match(OPTION_PATTERN);
+    const numbered = line.text.match(QUESTION_PATTERN);
+    const startsOption = optionMatch && current && toLetter(optionMatch[1]) === CHOICE_LETTERS[current.options.length];
+    const isQuestion = !!numbered
+      || (!startsOption && line.depth >= 0 && (!current || line.depth <= current.depth));
+
+    if (isQuestion) {
+      if (current) questions.push(current);
+      const body = numbered ? trimSegment(sliceSegment(line, numbered[0].length)) : line;
+      const inline = splitInlineOptions(body, 0);
+      current = {
+        number: numbered ? normalizeQuestionNumber(numbered[0]) : undefined,
+        text: inline ? inline.before.text : body.text,
+        depth: line.depth,
+        options: []
+      };
+      if (inline) current.options.push(...inline.options);
+      continue;
+    }
+
+    if (!current) {
+      preambleLength += line.text.length;
+      continue;
+    }
+
+    const inline = splitInlineOptions(line, current.options.length);
+    if (inline && inline.before.text.length === 0) {
+      current.options.push(...inline.options);
+    } else if (startsOption && optionMatch) {
+      current.options.push({ ...line, labelLength: optionMatch[0].length });
+    } else if (line.depth > current.depth) {
+      // Auto-numbered sub-list under the question: the letter lives in Word's numbering, not the text
+      current.options.push({ ...line, labelLength: 0 });
+    } else if (current.options.length === 0) {
+      current.text += ' ' + line.text;
+    } else {
+      strayLines++;
+    }
+  }
+  if (current) questions.push(current);
+
+  let confident = questions.length > 0 && strayLines === 0 && preambleLength < MAX_PREAMBLE_LENGTH;
+
+  const items: McqData[] = questions.map(question => {
+    const answer = detectAnswer(question.options);
+    if (answer === null
+      || question.text.trim().length === 0
+      || question.options.length < MIN_CHOICES
+      || question.options.length > MAX_CHOICES) {
+      confident = false;
+    }
+
+    const choices = question.options.map(option => sliceSegment(option, option.labelLength).text.trim());
+    const answerEvidence = question.keyAnswer ? AnswerEvidence.ANSWER_KEY : answer?.evidence ?? AnswerEvidence.NONE;
+    return {
+      id: crypto.randomUUID(),
+      questionType: looksLikeTrueFalse(choices) ? QuestionType.TRUE_FALSE : QuestionType.MULTIPLE_CHOICE,
+      question: question.text.trim(),
+      questionNumber: question.number,
+      choices,
+      correctAnswer: question.keyAnswer || answer?.letter || '',
+      answerEvidence,
+      confidence: EVIDENCE_CONFIDENCE[answerEvidence],
+      language: detectLanguage([question.text, ...choices].join(' '))
+    };
+  });
+
+  return { items: confident ? items : [], confident };
+};
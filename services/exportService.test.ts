@@ -0,0 +1,98 @@
+import JSZip from 'jszip';
+import { describe, expect, it, vi } from 'vitest';
+import { McqData, Passage, QuestionType } from '../types';
+
+// The exporters only need describeSource from the pipeline, not pdf.js
+vi.mock('./pdfPageReader', () => ({}));
+
+import { ExportFormat, canExport, escapeGift, escapeXml, exportQuestions, toAiken, toGift, toMoodleXml, toQtiPackage } from './exportService';
+
+const question = (overrides: Partial<McqData> = {}): McqData => ({
+  id: crypto.randomUUID(),
+  questionType: QuestionType.MULTIPLE_CHOICE,
+  question: 'What is 2 + 2?',
+  choices: ['3', '4', '5'],
+  correctAnswer: 'B',
+  ...overrides
+});
+
+const passage: Passage = { id: 'p1', text: 'Read the table below.\nThen answer.' };
+
+describe('escaping', () => {
+  it('escapes XML and GIFT special characters', () => {
+    expect(escapeXml(`a < b & "c" > 'd'`)).toBe('a &lt; b &amp; &quot;c&quot; &gt; &apos;d&apos;');
+    expect(escapeGift('x = {1} ~ 2: #3\nnext')).toBe('x \\= \\{1\\} \\~ 2\\: \\#3\\nnext');
+  });
+});
+
+describe('toMoodleXml', () => {
+  it('writes one multichoice question per item with the passage prepended', () => {
+    const xml = toMoodleXml([question({ passageId: 'p1' }), question({ question: 'x < y?', correctAnswer: 'A' })], [passage]);
+
+    expect(xml.match(/<question type="multichoice">/g)).toHaveLength(2);
+    expect(xml).toContain('<name><text>Q1 (P1)</text></name>');
+    expect(xml).toContain('<div class="passage">');
+    expect(xml).toContain('<answer fraction="100" format="html">\n      <text><![CDATA[<p>4</p>');
+    expect(xml.match(/fraction="100"/g)).toHaveLength(2);
+    // Question HTML sits in CDATA, so only the name needs XML escaping
+    expect(xml).toContain('x &lt; y?');
+  });
+
+  it('writes true/false as a truefalse question', () => {
+    const xml = toMoodleXml([question({ questionType: QuestionType.TRUE_FALSE, choices: ['True', 'False'], correctAnswer: 'B' })], []);
+    expect(xml).toContain('<question type="truefalse">');
+    expect(xml).toMatch(/fraction="0" format="plain_text">\s*<text>true<\/text>/);
+    expect(xml).toMatch(/fraction="100" format="plain_text">\s*<text>false<\/text>/);
+  });
+});
+
+describe('toGift', () => {
+  it('adds each passage once as a description before its first question', () => {
+    const gift = toGift([question({ passageId: 'p1' }), question({ passageId: 'p1', question: 'What is 1 + 1?' })], [passage]);
+    expect(gift.match(/::P1::/g)).toHaveLength(1);
+    expect(gift).toContain('::P1:: Read the table below.\\nThen answer.');
+    expect(gift).toContain('::Q1:: What is 2 + 2? {\n\t~3\n\t=4\n\t~5\n}');
+  });
+});
+
+describe('toAiken', () => {
+  it('flattens passages into one-line questions', () => {
+    expect(toAiken([question({ passageId: 'p1' })], [passage])).toBe(
+      'Read the table below. Then answer. What is 2 + 2?\nA. 3\nB. 4\nC. 5\nANSWER: B\n'
+    );
+  });
+
+  it('letters the choices left after empty ones again, answer included', () => {
+    expect(toAiken([question({ choices: ['3', '', '4', '5'], correctAnswer: 'C' })], [])).toBe(
+      'What is 2 + 2?\nA. 3\nB. 4\nC. 5\nANSWER: B\n'
+    );
+  });
+
+  it('only takes single-answer questions whose answer is a written choice', () => {
+    expect(canExport(ExportFormat.AIKEN, question())).toBe(true);
+    expect(canExport(ExportFormat.AIKEN, question({ correctAnswer: '' }))).toBe(false);
+    expect(canExport(ExportFormat.AIKEN, question({ choices: ['3', '', '5'] }))).toBe(false);
+    expect(canExport(ExportFormat.AIKEN, question({ questionType: QuestionType.MULTIPLE_SELECT, correctAnswer: 'A,B' }))).toBe(false);
+  });
+});
+
+describe('toQtiPackage', () => {
+  it('packs one item per question, the passages and a manifest', async () => {
+    const zip = await JSZip.loadAsync(await toQtiPackage([question({ passageId: 'p1' }), question()], [passage]));
+
+    expect(Object.keys(zip.files).sort()).toEqual(['imsmanifest.xml', 'items/', 'items/Q0001.xml', 'items/Q0002.xml', 'passages/', 'passages/P1.html']);
+    const item = await zip.file('items/Q0001.xml')!.async('string');
+    expect(item).toContain('<correctResponse>\n      <value>B</value>');
+    expect(item).toContain('<div class="stimulus">');
+    const manifest = await zip.file('imsmanifest.xml')!.async('string');
+    expect(manifest).toContain('<dependency identifierref="RES-P1"/>');
+  });
+});
+
+describe('exportQuestions', () => {
+  it('skips questions the format cannot hold', async () => {
+    const file = await exportQuestions(ExportFormat.GIFT, [question(), question({ correctAnswer: '' })], []);
+    expect(file).toMatchObject({ fileName: 'extracted_mcqs.gift.txt', skipped: 1 });
+    expect((await file.blob.text()).match(/::Q\d+::/g)).toEqual(['::Q1::']);
+  });
+});
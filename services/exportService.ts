@@ -0,0 +1,632 @@
+import * as XLSX from 'xlsx';
+import JSZip from 'jszip';
+import { McqData, Passage, MatchingPair, QuestionType, Difficulty, CHOICE_LETTERS, MIN_CHOICES, Figure } from '../types';
+import { describeSource } from './extractionPipeline';
+import { figureMarker } from './figureService';
+import { hasMarkdown, richTextToHtml, richTextToInlineHtml, richTextToPlain, rewriteMath } from './richText';
+import { BLANK_PATTERN, QUESTION_TYPE_LABELS, answerLetters, hasAnswer, isChoiceType } from './questionTypes';
+import { TranslationExportMode, localizeResults } from './translationService';
+import { BLOOM_LEVEL_LABELS, DIFFICULTY_LABELS, hasTags, topicPath } from './taggingService';
+
+export enum ExportFormat {
+  EXCEL = 'xlsx',
+  MOODLE_XML = 'moodle',
+  GIFT = 'gift',
+  AIKEN = 'aiken',
+  QTI = 'qti'
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  [ExportFormat.EXCEL]: 'Excel (.xlsx)',
+  [ExportFormat.MOODLE_XML]: 'Moodle XML',
+  [ExportFormat.GIFT]: 'GIFT',
+  [ExportFormat.AIKEN]: 'Aiken',
+  [ExportFormat.QTI]: 'QTI 2.1 (.zip)'
+};
+
+export type PassageExportMode = 'sheet' | 'column';
+
+export interface ExportOptions {
+  passageMode?: PassageExportMode; // Excel only
+  languageMode?: TranslationExportMode; // Original text unless set
+}
+
+export interface ExportFile {
+  fileName: string;
+  blob: Blob;
+  skipped: number; // Questions the format cannot represent, or that lack the answer it requires
+}
+
+interface Choice {
+  index: number;
+  letter: string;
+  text: string;
+  correct: boolean;
+}
+
+const choicesOf = (item: McqData): Choice[] => {
+  const letters = answerLetters(item);
+  return item.choices
+    .map((text, i) => ({ index: i, letter: CHOICE_LETTERS[i], text: (text || '').trim(), correct: letters.includes(CHOICE_LETTERS[i]) }))
+    .filter(choice => choice.text.length > 0);
+};
+
+const completePairs = (item: McqData): MatchingPair[] =>
+  (item.pairs || []).filter(pair => pair.prompt.trim() && pair.match.trim());
+
+// Typed answers are compared with what students type, so they are plain text
+const acceptedAnswers = (item: McqData): string[] =>
+  (item.answers || []).map(answer => richTextToPlain(answer).trim()).filter(Boolean);
+
+// Question text cut at its blanks; a fill-in-the-blank without marked blanks gets one at the end
+const splitAtBlanks = (item: McqData): string[] => {
+  const parts = item.question.split(BLANK_PATTERN);
+  return parts.length > 1 ? parts : [item.question + ' ', ''];
+};
+
+// Moodle and GIFT want grade percentages as plain decimals (33.33333)
+const percent = (value: number): string => String(Number(value.toFixed(5)));
+
+// Short labels (P1, P2...) in order of first use, shared by every format
+export const labelPassages = (items: McqData[], passages: Passage[]): Map<string, { label: string; passage: Passage }> => {
+  const byId = new Map(passages.map(passage => [passage.id, passage]));
+  const labels = new Map<string, { label: string; passage: Passage }>();
+  items.forEach(item => {
+    const passage = item.passageId ? byId.get(item.passageId) : undefined;
+    if (passage && !labels.has(passage.id)) {
+      labels.set(passage.id, { label: `P${labels.size + 1}`, passage });
+    }
+  });
+  return labels;
+};
+
+interface FigureFile {
+  figure: Figure;
+  fileName: string;
+}
+
+const FIGURE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+// File names (figure1.png, figure2.jpg...) in order of first use, for the formats that carry images.
+// Labels are only unique within a document, so they are not used as names.
+export const labelFigures = (items: McqData[], figures: Figure[]): Map<string, FigureFile> => {
+  const byId = new Map(figures.map(figure => [figure.id, figure]));
+  const files = new Map<string, FigureFile>();
+  items.forEach(item => (item.figures || []).forEach(link => {
+    const figure = byId.get(link.figureId);
+    if (figure && !files.has(figure.id)) {
+      files.set(figure.id, { figure, fileName: `figure${files.size + 1}.${FIGURE_EXTENSIONS[figure.mimeType] || 'png'}` });
+    }
+  }));
+  return files;
+};
+
+// Figures linked to the question itself, or with `choice`, to that choice
+const linkedFigures = (item: McqData, files: Map<string, FigureFile>, choice?: number): FigureFile[] =>
+  (item.figures || [])
+    .filter(link => link.choice === choice)
+    .map(link => files.get(link.figureId))
+    .filter((file): file is FigureFile => !!file);
+
+const base64ToBytes = (data: string): Uint8Array => Uint8Array.from(atob(data), char => char.charCodeAt(0));
+
+export const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Rich text as HTML: math as TeX between \( \) for Moodle's MathJax filter, as MathML for QTI
+const moodleHtml = (text: string): string => richTextToHtml(text, 'tex');
+const qtiHtml = (text: string): string => richTextToHtml(text, 'mathml');
+
+// <img> tags for `figures`, with `folder` prefixed to their file names
+const figuresHtml = (figures: FigureFile[], folder: string): string =>
+  figures.length > 0
+    ? `<p>${figures.map(({ figure, fileName }) => `<img src="${folder}${fileName}" alt="${escapeXml(figureMarker(figure.label))}"/>`).join(' ')}</p>`
+    : '';
+
+const cdata = (text: string): string => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+// GIFT reserves ~ = # { } : and the backslash itself
+export const escapeGift = (text: string): string =>
+  text.replace(/([\\~=#{}:])/g, '\\$1').replace(/\r?\n/g, '\\n');
+
+// Rich text for GIFT: Markdown as written, math between $$ for Moodle's TeX filters
+const giftText = (text: string): string => escapeGift(rewriteMath(text, tex => `$$${tex}$$`));
+
+// GIFT reads Markdown only behind a [markdown] format tag, which also covers the answers
+const giftFormat = (...texts: string[]): string => (texts.some(hasMarkdown) ? '[markdown]' : '');
+
+const toExcel = (items: McqData[], passages: Passage[], options: ExportOptions, files: Map<string, FigureFile>): Blob => {
+  const labels = labelPassages(items, passages);
+  const separateSheet = (options.passageMode || 'sheet') === 'sheet';
+  const passageCell = (item: McqData) => {
+    const entry = item.passageId ? labels.get(item.passageId) : undefined;
+    if (!entry) return '';
+    return separateSheet ? entry.label : richTextToPlain(entry.passage.text);
+  };
+
+  // Choice types answer with letters, the others spell the answer out
+  const answerCell = (item: McqData) => {
+    if (item.questionType === QuestionType.MATCHING) {
+      return (item.pairs || []).map(pair => `${richTextToPlain(pair.prompt)} → ${richTextToPlain(pair.match)}`).join('\n');
+    }
+    if (!isChoiceType(item.questionType)) return (item.answers || []).map(richTextToPlain).join(' | ');
+    return item.correctAnswer;
+  };
+
+  // One column per choice position used by any question
+  const choiceCount = Math.max(MIN_CHOICES, ...items.map(item => item.choices.length));
+  const choiceHeaders = Array.from({ length: choiceCount }, (_, i) => `Choice ${CHOICE_LETTERS[i]}`);
+  // Names of the files in the images/ folder next to the workbook; choice figures are prefixed with the letter
+  const figuresCell = (item: McqData) => (item.figures || [])
+    .filter(link => files.has(link.figureId))
+    .map(link => `${link.choice !== undefined ? `${CHOICE_LETTERS[link.choice]}: ` : ''}${files.get(link.figureId)!.fileName}`)
+    .join('\n');
+  const withFigures = files.size > 0;
+  const withTags = items.some(hasTags);
+  const tagCells = (item: McqData) => [
+    item.topic || '', item.difficulty ? DIFFICULTY_LABELS[item.difficulty] : '', item.bloomLevel ? BLOOM_LEVEL_LABELS[item.bloomLevel] : ''
+  ];
+
+  const headers = ['No.', 'Type', 'Question', ...choiceHeaders, 'Correct Answer', separateSheet ? 'Passage ID' : 'Passage', 'Source File', 'Source Location', ...(withFigures ? ['Figures'] : []), ...(withTags ? ['Topic', 'Difficulty', 'Bloom Level'] : [])];
+  const rows = items.map(item => [
+    item.questionNumber || '', QUESTION_TYPE_LABELS[item.questionType], richTextToPlain(item.question), ...choiceHeaders.map((_, i) => richTextToPlain(item.choices[i] || '')), answerCell(item),
+    passageCell(item), item.sourceFile || '', describeSource(item.source), ...(withFigures ? [figuresCell(item)] : []), ...(withTags ? tagCells(item) : [])
+  ]);
+  const worksheet = XLSX.utils.aoa_to_sheet([headers, ...rows]);
+  const wscols = [{ wch: 6 }, { wch: 16 }, { wch: 60 }, ...choiceHeaders.map(() => ({ wch: 20 })), { wch: 15 }, { wch: separateSheet ? 12 : 40 }, { wch: 30 }, { wch: 20 }, ...(withFigures ? [{ wch: 24 }] : []), ...(withTags ? [{ wch: 30 }, { wch: 10 }, { wch: 12 }] : [])];
+  worksheet['!cols'] = wscols;
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, "Questions");
+
+  if (separateSheet && labels.size > 0) {
+    const passageRows = Array.from(labels.values()).map(({ label, passage }) => [label, richTextToPlain(passage.text), passage.sourceFile || '']);
+    const passageSheet = XLSX.utils.aoa_to_sheet([['Passage ID', 'Passage', 'Source File'], ...passageRows]);
+    passageSheet['!cols'] = [{ wch: 12 }, { wch: 100 }, { wch: 30 }];
+    XLSX.utils.book_append_sheet(workbook, passageSheet, "Passages");
+  }
+
+  const data = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  return new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+// Cloze answers reserve } # ~ / " and the backslash
+const escapeCloze = (text: string): string => text.replace(/([}#~\/"\\])/g, '\\$1');
+
+// Moodle embeds images in the question file as <file> elements, referenced through @@PLUGINFILE@@
+const moodleFiles = (figures: FigureFile[]): string =>
+  figures.map(({ figure, fileName }) => `\n      <file name="${fileName}" path="/" encoding="base64">${figure.data}</file>`).join('');
+
+const moodleAnswer = (fraction: string, text: string, format: 'html' | 'plain_text' = 'html', figures: FigureFile[] = []) => `
+    <answer fraction="${fraction}" format="${format}">
+      <text>${format === 'html' ? cdata(moodleHtml(text) + figuresHtml(figures, '@@PLUGINFILE@@/')) : escapeXml(richTextToPlain(text))}</text>${format === 'html' ? moodleFiles(figures) : ''}
+      <feedback format="html"><text></text></feedback>
+    </answer>`;
+
+// The type-specific part of a Moodle <question>: its type attribute, question HTML and answer elements
+const moodleBody = (item: McqData, files: Map<string, FigureFile>): { type: string; html: string; body: string } => {
+  const html = moodleHtml(item.question);
+  switch (item.questionType) {
+    case QuestionType.MULTIPLE_SELECT: {
+      const choices = choicesOf(item);
+      const correct = choices.filter(choice => choice.correct).length;
+      const wrong = choices.length - correct;
+      const answers = choices
+        .map(choice => moodleAnswer(choice.correct ? percent(100 / correct) : percent(wrong ? -100 / wrong : 0), choice.text, 'html', linkedFigures(item, files, choice.index)))
+        .join('');
+      return { type: 'multichoice', html, body: `
+    <single>false</single>
+    <shuffleanswers>true</shuffleanswers>
+    <answernumbering>abc</answernumbering>${answers}` };
+    }
+    case QuestionType.TRUE_FALSE: {
+      const isTrue = item.correctAnswer === 'A';
+      return { type: 'truefalse', html, body: moodleAnswer(isTrue ? '100' : '0', 'true', 'plain_text') + moodleAnswer(isTrue ? '0' : '100', 'false', 'plain_text') };
+    }
+    case QuestionType.FILL_IN_BLANK: {
+      const answers = item.answers || [];
+      const parts = splitAtBlanks(item);
+      const cloze = parts
+        .map((part, i) => richTextToInlineHtml(part, 'tex') + (i < parts.length - 1 ? `{1:SHORTANSWER:=${escapeCloze(richTextToPlain(answers[i] || ''))}}` : ''))
+        .join('');
+      return { type: 'cloze', html: `<p>${cloze.replace(/\n/g, '<br/>')}</p>`, body: '' };
+    }
+    case QuestionType.SHORT_ANSWER:
+      return { type: 'shortanswer', html, body: `
+    <usecase>0</usecase>${acceptedAnswers(item).map(answer => moodleAnswer('100', answer, 'plain_text')).join('')}` };
+    case QuestionType.MATCHING: {
+      const subquestions = completePairs(item).map(pair => `
+    <subquestion format="html">
+      <text>${cdata(moodleHtml(pair.prompt))}</text>
+      <answer><text>${escapeXml(richTextToPlain(pair.match))}</text></answer>
+    </subquestion>`).join('');
+      return { type: 'matching', html, body: `
+    <shuffleanswers>true</shuffleanswers>${subquestions}` };
+    }
+    default: {
+      const answers = choicesOf(item).map(choice => moodleAnswer(choice.correct ? '100' : '0', choice.text, 'html', linkedFigures(item, files, choice.index))).join('');
+      return { type: 'multichoice', html, body: `
+    <single>true</single>
+    <shuffleanswers>true</shuffleanswers>
+    <answernumbering>abc</answernumbering>${answers}` };
+    }
+  }
+};
+
+// Questions without a topic go to the top category of the course
+const MOODLE_CATEGORY_ROOT = '$course$/top';
+
+// "Algebra / Quadratics" -> "$course$/top/Algebra/Quadratics"
+const moodleCategory = (topic?: string): string => [MOODLE_CATEGORY_ROOT, ...topicPath(topic || '')].join('/');
+
+const moodleCategorySwitch = (category: string) => `
+  <question type="category">
+    <category><text>${escapeXml(category)}</text></category>
+  </question>`;
+
+// Difficulty and Bloom level travel as question tags, which Moodle can filter the bank by
+const moodleTags = (item: McqData): string => {
+  const tags = [
+    item.difficulty ? `difficulty: ${DIFFICULTY_LABELS[item.difficulty]}` : '',
+    item.bloomLevel ? `bloom: ${BLOOM_LEVEL_LABELS[item.bloomLevel]}` : ''
+  ].filter(Boolean);
+  return tags.length > 0 ? `
+    <tags>${tags.map(tag => `<tag><text>${escapeXml(tag)}</text></tag>`).join('')}</tags>` : '';
+};
+
+// Moodle has no shared stimulus, so each passage is prepended to its questions' HTML
+export const toMoodleXml = (items: McqData[], passages: Passage[], figures: Figure[] = []): string => {
+  const labels = labelPassages(items, passages);
+  const files = labelFigures(items, figures);
+  // Topics become question categories; files without any topics import as before
+  const useCategories = items.some(item => item.topic);
+  let category: string | undefined;
+
+  const questions = items.map((item, index) => {
+    const itemCategory = moodleCategory(item.topic);
+    const categorySwitch = useCategories && itemCategory !== category ? moodleCategorySwitch(itemCategory) : '';
+    category = itemCategory;
+    const entry = item.passageId ? labels.get(item.passageId) : undefined;
+    const stimulus = entry ? `<div class="passage">${moodleHtml(entry.passage.text)}</div><hr/>` : '';
+    const { type, html, body } = moodleBody(item, files);
+    const questionFigures = linkedFigures(item, files);
+
+    return `${categorySwitch}
+  <question type="${type}">
+    <name><text>${escapeXml(`Q${index + 1}${entry ? ` (${entry.label})` : ''}`)}</text></name>
+    <questiontext format="html">
+      <text>${cdata(stimulus + html + figuresHtml(questionFigures, '@@PLUGINFILE@@/'))}</text>${moodleFiles(questionFigures)}
+    </questiontext>
+    <defaultgrade>1</defaultgrade>
+    <penalty>0</penalty>
+    <hidden>0</hidden>${body}${moodleTags(item)}
+  </question>`;
+  }).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<quiz>${questions}\n</quiz>\n`;
+};
+
+// The question and answer block of one GIFT item
+const giftBody = (item: McqData): string => {
+  const question = `${giftFormat(item.question, ...item.choices)}${giftText(item.question)}`;
+  switch (item.questionType) {
+    case QuestionType.MULTIPLE_SELECT: {
+      const choices = choicesOf(item);
+      const correct = choices.filter(choice => choice.correct).length;
+      const wrong = choices.length - correct;
+      const answers = choices
+        .map(choice => `\t~%${choice.correct ? percent(100 / correct) : percent(wrong ? -100 / wrong : 0)}%${giftText(choice.text)}`)
+        .join('\n');
+      return `${question} {\n${answers}\n}`;
+    }
+    case QuestionType.TRUE_FALSE:
+      return `${question} {${item.correctAnswer === 'A' ? 'T' : 'F'}}`;
+    case QuestionType.FILL_IN_BLANK: {
+      // GIFT's missing-word format holds a single blank
+      const [before, after] = splitAtBlanks(item);
+      return `${giftFormat(item.question)}${giftText(before)}{=${escapeGift(acceptedAnswers(item)[0])}}${giftText(after)}`;
+    }
+    case QuestionType.SHORT_ANSWER:
+      return `${question} {${acceptedAnswers(item).map(answer => `=${escapeGift(answer)}`).join(' ')}}`;
+    case QuestionType.MATCHING: {
+      const pairs = completePairs(item).map(pair => `\t=${giftText(pair.prompt)} -> ${escapeGift(richTextToPlain(pair.match))}`).join('\n');
+      return `${question} {\n${pairs}\n}`;
+    }
+    default: {
+      const answers = choicesOf(item).map(choice => `\t${choice.correct ? '=' : '~'}${giftText(choice.text)}`).join('\n');
+      return `${question} {\n${answers}\n}`;
+    }
+  }
+};
+
+// Passages become GIFT "description" items placed before their first question
+export const toGift = (items: McqData[], passages: Passage[]): string => {
+  const labels = labelPassages(items, passages);
+  const blocks: string[] = [];
+  let previousPassage: string | undefined;
+
+  items.forEach((item, index) => {
+    const entry = item.passageId ? labels.get(item.passageId) : undefined;
+    if (entry && item.passageId !== previousPassage) {
+      blocks.push(`::${entry.label}:: ${giftFormat(entry.passage.text)}${giftText(entry.passage.text)}`);
+    }
+    previousPassage = item.passageId;
+    blocks.push(`::Q${index + 1}:: ${giftBody(item)}`);
+  });
+
+  return blocks.join('\n\n') + '\n';
+};
+
+// Aiken has no shared stimulus and no line breaks, so passages are flattened into each question
+export const toAiken = (items: McqData[], passages: Passage[]): string => {
+  const labels = labelPassages(items, passages);
+  const oneLine = (text: string) => richTextToPlain(text).replace(/\s*\r?\n\s*/g, ' ').trim();
+
+  const blocks = items.map(item => {
+    // Aiken letters run A, B, C... without gaps, so the choices left after dropping empty ones are lettered again
+    const choices = choicesOf(item);
+    const entry = item.passageId ? labels.get(item.passageId) : undefined;
+    const question = entry ? `${oneLine(entry.passage.text)} ${oneLine(item.question)}` : oneLine(item.question);
+    return [
+      question,
+      ...choices.map((choice, i) => `${CHOICE_LETTERS[i]}. ${oneLine(choice.text)}`),
+      `ANSWER: ${CHOICE_LETTERS[choices.findIndex(choice => choice.correct)]}`
+    ].join('\n');
+  });
+
+  return blocks.join('\n\n') + '\n';
+};
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+
+const MATCH_TEMPLATE = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct';
+const MAP_TEMPLATE = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response';
+
+const correctResponse = (values: string[]): string =>
+  values.length > 0
+    ? `\n    <correctResponse>\n${values.map(value => `      <value>${escapeXml(value)}</value>`).join('\n')}\n    </correctResponse>\n  `
+    : '';
+
+// The type-specific parts of a QTI assessmentItem
+const qtiBody = (item: McqData, files: Map<string, FigureFile>): { declarations: string; interaction: string; processing: string } => {
+  const template = (href: string) => `<responseProcessing template="${href}"/>`;
+
+  switch (item.questionType) {
+    case QuestionType.FILL_IN_BLANK: {
+      const answers = (item.answers || []).map(richTextToPlain);
+      const parts = splitAtBlanks(item);
+      const blanks = parts.slice(1).map((_, i) => `RESPONSE_${i + 1}`);
+      const declarations = blanks.map((id, i) =>
+        `<responseDeclaration identifier="${id}" cardinality="single" baseType="string">${correctResponse(answers[i] ? [answers[i]] : [])}</responseDeclaration>`
+      ).join('\n  ');
+      const text = parts
+        .map((part, i) => richTextToInlineHtml(part) + (i < blanks.length ? `<textEntryInteraction responseIdentifier="${blanks[i]}" expectedLength="15"/>` : ''))
+        .join('');
+      // One point per blank answered correctly
+      const conditions = blanks.map(id => `
+    <responseCondition>
+      <responseIf>
+        <match><variable identifier="${id}"/><correct identifier="${id}"/></match>
+        <setOutcomeValue identifier="SCORE"><sum><variable identifier="SCORE"/><baseValue baseType="float">1</baseValue></sum></setOutcomeValue>
+      </responseIf>
+    </responseCondition>`).join('');
+      return { declarations, interaction: `<p>${text}</p>`, processing: `<responseProcessing>${conditions}\n  </responseProcessing>` };
+    }
+    case QuestionType.SHORT_ANSWER: {
+      const answers = acceptedAnswers(item);
+      const mapping = answers.length > 0
+        ? `\n    <mapping defaultValue="0">\n${answers.map(answer => `      <mapEntry mapKey="${escapeXml(answer)}" mappedValue="1" caseSensitive="false"/>`).join('\n')}\n    </mapping>\n  `
+        : '';
+      return {
+        declarations: `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">${correctResponse(answers.slice(0, 1)).trimEnd()}${mapping}</responseDeclaration>`,
+        interaction: `${qtiHtml(item.question)}\n    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="40"/></p>`,
+        processing: template(MAP_TEMPLATE)
+      };
+    }
+    case QuestionType.MATCHING: {
+      const pairs = completePairs(item);
+      const matches = Array.from(new Set(pairs.map(pair => pair.match)));
+      const sources = pairs.map((pair, i) => `        <simpleAssociableChoice identifier="S${i + 1}" matchMax="1">${richTextToInlineHtml(pair.prompt)}</simpleAssociableChoice>`);
+      const targets = matches.map((match, i) => `        <simpleAssociableChoice identifier="T${i + 1}" matchMax="${pairs.length}">${richTextToInlineHtml(match)}</simpleAssociableChoice>`);
+      const correct = pairs.map((pair, i) => `S${i + 1} T${matches.indexOf(pair.match) + 1}`);
+      return {
+        declarations: `<responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair">${correctResponse(correct)}</responseDeclaration>`,
+        interaction: `<matchInteraction responseIdentifier="RESPONSE" shuffle="true" maxAssociations="${pairs.length}">
+      <prompt>${richTextToInlineHtml(item.question)}</prompt>
+      <simpleMatchSet>
+${sources.join('\n')}
+      </simpleMatchSet>
+      <simpleMatchSet>
+${targets.join('\n')}
+      </simpleMatchSet>
+    </matchInteraction>`,
+        processing: template(MATCH_TEMPLATE)
+      };
+    }
+    default: {
+      const multiple = item.questionType === QuestionType.MULTIPLE_SELECT;
+      const choices = choicesOf(item)
+        .map(choice => {
+          const images = linkedFigures(item, files, choice.index)
+            .map(({ figure, fileName }) => ` <img src="../images/${fileName}" alt="${escapeXml(figureMarker(figure.label))}"/>`)
+            .join('');
+          return `      <simpleChoice identifier="${choice.letter}">${richTextToInlineHtml(choice.text)}${images}</simpleChoice>`;
+        })
+        .join('\n');
+      return {
+        declarations: `<responseDeclaration identifier="RESPONSE" cardinality="${multiple ? 'multiple' : 'single'}" baseType="identifier">${correctResponse(answerLetters(item))}</responseDeclaration>`,
+        interaction: `${qtiHtml(item.question)}
+    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${multiple ? 0 : 1}">
+${choices}
+    </choiceInteraction>`,
+        processing: template(MATCH_TEMPLATE)
+      };
+    }
+  }
+};
+
+const toQtiItem = (item: McqData, identifier: string, title: string, files: Map<string, FigureFile>, stimulus?: string): string => {
+  const { declarations, interaction, processing } = qtiBody(item, files);
+  const figures = figuresHtml(linkedFigures(item, files), '../images/');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"
+  identifier="${identifier}" title="${escapeXml(title)}" adaptive="false" timeDependent="false">
+  ${declarations}
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+    <defaultValue><value>0</value></defaultValue>
+  </outcomeDeclaration>
+  <itemBody>${stimulus ? `\n    <div class="stimulus">${stimulus}</div>` : ''}${figures ? `\n    ${figures}` : ''}
+    ${interaction}
+  </itemBody>
+  ${processing}
+</assessmentItem>
+`;
+};
+
+// LOM has no "hard", its scale runs very easy, easy, medium, difficult, very difficult
+const LOM_DIFFICULTY: Record<Difficulty, string> = {
+  [Difficulty.EASY]: 'easy',
+  [Difficulty.MEDIUM]: 'medium',
+  [Difficulty.HARD]: 'difficult'
+};
+
+const lomTaxonPath = (purpose: string, source: string, levels: string[]): string => `
+          <imsmd:classification>
+            <imsmd:purpose><imsmd:source>LOMv1.0</imsmd:source><imsmd:value>${purpose}</imsmd:value></imsmd:purpose>
+            <imsmd:taxonPath>
+              <imsmd:source><imsmd:string>${escapeXml(source)}</imsmd:string></imsmd:source>${levels.map(level => `
+              <imsmd:taxon><imsmd:entry><imsmd:string>${escapeXml(level)}</imsmd:string></imsmd:entry></imsmd:taxon>`).join('')}
+            </imsmd:taxonPath>
+          </imsmd:classification>`;
+
+// Topic, difficulty and Bloom level as IEEE LOM metadata on the item's manifest resource
+const qtiMetadata = (item: McqData): string => {
+  if (!hasTags(item)) return '';
+  const educational = item.difficulty ? `
+          <imsmd:educational>
+            <imsmd:difficulty><imsmd:source>LOMv1.0</imsmd:source><imsmd:value>${LOM_DIFFICULTY[item.difficulty]}</imsmd:value></imsmd:difficulty>
+          </imsmd:educational>` : '';
+  const topic = item.topic ? lomTaxonPath('discipline', 'Topics', topicPath(item.topic)) : '';
+  const bloom = item.bloomLevel ? lomTaxonPath('educational objective', "Bloom's taxonomy (revised)", [BLOOM_LEVEL_LABELS[item.bloomLevel]]) : '';
+  return `
+      <metadata>
+        <imsmd:lom>${educational}${topic}${bloom}
+        </imsmd:lom>
+      </metadata>`;
+};
+
+// IMS content package: one assessmentItem per question, passages as shared webcontent resources
+export const toQtiPackage = async (items: McqData[], passages: Passage[], figures: Figure[] = []): Promise<Blob> => {
+  const labels = labelPassages(items, passages);
+  const files = labelFigures(items, figures);
+  const zip = new JSZip();
+  const resources: string[] = [];
+
+  files.forEach(({ figure, fileName }) => zip.file(`images/${fileName}`, base64ToBytes(figure.data)));
+
+  labels.forEach(({ label, passage }) => {
+    const href = `passages/${label}.html`;
+    zip.file(href, `<!DOCTYPE html>\n<html><head><meta charset="utf-8"/><title>${label}</title></head><body>${qtiHtml(passage.text)}</body></html>\n`);
+    resources.push(`    <resource identifier="RES-${label}" type="webcontent" href="${href}">\n      <file href="${href}"/>\n    </resource>`);
+  });
+
+  items.forEach((item, index) => {
+    const identifier = `Q${String(index + 1).padStart(4, '0')}`;
+    const href = `items/${identifier}.xml`;
+    const entry = item.passageId ? labels.get(item.passageId) : undefined;
+    zip.file(href, toQtiItem(item, identifier, `Question ${index + 1}`, files, entry ? qtiHtml(entry.passage.text) : undefined));
+    const dependency = entry ? `\n      <dependency identifierref="RES-${entry.label}"/>` : '';
+    const images = [...linkedFigures(item, files), ...choicesOf(item).flatMap(choice => linkedFigures(item, files, choice.index))]
+      .map(({ fileName }) => `\n      <file href="images/${fileName}"/>`);
+    resources.push(`    <resource identifier="RES-${identifier}" type="imsqti_item_xmlv2p1" href="${href}">${qtiMetadata(item)}\n      <file href="${href}"/>${Array.from(new Set(images)).join('')}${dependency}\n    </resource>`);
+  });
+
+  zip.file('imsmanifest.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:imsmd="http://ltsc.ieee.org/xsd/LOM" identifier="MANIFEST-${crypto.randomUUID()}">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+${resources.join('\n')}
+  </resources>
+</manifest>
+`);
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
+
+// Whether `format` can hold `item`. Moodle XML, GIFT and Aiken reject questions without an answer.
+export const canExport = (format: ExportFormat, item: McqData): boolean => {
+  switch (format) {
+    case ExportFormat.MOODLE_XML:
+      return hasAnswer(item) && (item.questionType !== QuestionType.MATCHING || completePairs(item).length >= 2);
+    case ExportFormat.GIFT:
+      if (item.questionType === QuestionType.FILL_IN_BLANK && splitAtBlanks(item).length > 2) return false;
+      return hasAnswer(item) && (item.questionType !== QuestionType.MATCHING || completePairs(item).length >= 2);
+    case ExportFormat.AIKEN:
+      // The answer has to be one of the choices actually written
+      return (item.questionType === QuestionType.MULTIPLE_CHOICE || item.questionType === QuestionType.TRUE_FALSE) && choicesOf(item).some(choice => choice.correct);
+    default:
+      return true;
+  }
+};
+
+export const exportQuestions = async (
+  format: ExportFormat,
+  items: McqData[],
+  passages: Passage[],
+  options: ExportOptions = {},
+  figures: Figure[] = []
+): Promise<ExportFile> => {
+  const baseName = 'extracted_mcqs';
+  const localized = localizeResults(items, passages, options.languageMode);
+  const exported = localized.items.filter(item => canExport(format, item));
+  const skipped = items.length - exported.length;
+
+  switch (format) {
+    case ExportFormat.EXCEL: {
+      const files = labelFigures(exported, figures);
+      const workbook = toExcel(exported, localized.passages, options, files);
+      if (files.size === 0) return { fileName: `${baseName}.xlsx`, blob: workbook, skipped };
+      // A workbook cannot hold images in cells, so they go next to it in a zip
+      const zip = new JSZip();
+      zip.file(`${baseName}.xlsx`, workbook);
+      files.forEach(({ figure, fileName }) => zip.file(`images/${fileName}`, base64ToBytes(figure.data)));
+      return { fileName: `${baseName}.zip`, blob: await zip.generateAsync({ type: 'blob', mimeType: 'application/zip' }), skipped };
+    }
+    case ExportFormat.MOODLE_XML:
+      return { fileName: `${baseName}_moodle.xml`, blob: new Blob([toMoodleXml(exported, localized.passages, figures)], { type: 'application/xml' }), skipped };
+    case ExportFormat.GIFT:
+      return { fileName: `${baseName}.gift.txt`, blob: new Blob([toGift(exported, localized.passages)], { type: 'text/plain' }), skipped };
+    case ExportFormat.AIKEN:
+      return { fileName: `${baseName}_aiken.txt`, blob: new Blob([toAiken(exported, localized.passages)], { type: 'text/plain' }), skipped };
+    case ExportFormat.QTI:
+      return { fileName: `${baseName}_qti21.zip`, blob: await toQtiPackage(exported, localized.passages, figures), skipped };
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+};
+
+export const downloadFile = ({ fileName, blob }: Pick<ExportFile, 'fileName' | 'blob'>) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// Nothing here reads a PDF, so pdf.js is never loaded
+vi.mock('./pdfPageReader', () => ({}));
+
+import { McqData, QuestionType } from '../types';
+import { mapWithConcurrency } from './concurrency';
+import { createPassageRelay, streamWindows, windowCount } from './extractionPipeline';
+
+async function* pagesOf(count: number): AsyncGenerator<number> {
+  for (let page = 1; page <= count; page++) yield page;
+}
+
+const windowsOf = async (count: number, size: number, overlap: number): Promise<number[][]> => {
+  const windows: number[][] = [];
+  for await (const window of streamWindows(pagesOf(count), size, overlap)) windows.push(window);
+  return windows;
+};
+
+describe('streamWindows', () => {
+  it('overlaps consecutive windows and keeps a tail with new pages', async () => {
+    expect(await windowsOf(9, 4, 1)).toEqual([[1, 2, 3, 4], [4, 5, 6, 7], [7, 8, 9]]);
+  });
+
+  it('drops a tail that only repeats the end of the last window', async () => {
+    expect(await windowsOf(7, 4, 1)).toEqual([[1, 2, 3, 4], [4, 5, 6, 7]]);
+  });
+
+  it('emits a short document as one window', async () => {
+    expect(await windowsOf(2, 4, 1)).toEqual([[1, 2]]);
+    expect(await windowsOf(0, 4, 1)).toEqual([]);
+  });
+
+  it('still moves forward when the overlap is as large as the window', async () => {
+    expect(await windowsOf(3, 2, 2)).toEqual([[1, 2], [2, 3]]);
+  });
+
+  it('yields each window before the rest of the source is read', async () => {
+    let read = 0;
+    async function* counted(): AsyncGenerator<number> {
+      for (let page = 1; page <= 10; page++) {
+        read = page;
+        yield page;
+      }
+    }
+    const windows = streamWindows(counted(), 4, 1);
+    await windows.next();
+    expect(read).toBe(4);
+  });
+});
+
+describe('windowCount', () => {
+  it('matches the windows streamWindows makes', async () => {
+    for (const [size, overlap] of [[4, 1], [3, 0], [5, 2], [2, 2], [1, 0]]) {
+      for (let count = 0; count <= 12; count++) {
+        expect(windowCount(count, size, overlap), `${count} pages, size ${size}, overlap ${overlap}`)
+          .toBe((await windowsOf(count, size, overlap)).length);
+      }
+    }
+  });
+});
+
+describe('createPassageRelay', () => {
+  const item = (passageId?: string): McqData => ({
+    id: crypto.randomUUID(),
+    questionType: QuestionType.MULTIPLE_CHOICE,
+    question: 'Which is it?',
+    choices: ['x', 'y'],
+    correctAnswer: '',
+    passageId
+  });
+  const sleep = (ms: number) => new Promise(done => setTimeout(done, ms));
+
+  it('hands each group the passage the group before it ended with, however the groups finish', async () => {
+    const relay = createPassageRelay();
+    // Group 1 only continues the passage it was handed, so group 2 gets that one too
+    const results = [
+      { items: [item('p0'), item('p1')], passages: [{ id: 'p0', text: 'First' }, { id: 'p1', text: 'Second' }] },
+      { items: [item('p1')], passages: [] },
+      { items: [item()], passages: [] },
+      { items: [item('p3')], passages: [{ id: 'p3', text: 'Third' }] },
+      { items: [], passages: [] }
+    ];
+    const delays = [40, 5, 30, 0, 10];
+    const received: (string | undefined)[] = [];
+
+    await mapWithConcurrency(results, 3, async (result, index) => {
+      try {
+        await sleep(delays[index]);
+        received[index] = (await relay.passageBefore(index))?.text;
+      } finally {
+        relay.settle(index, result);
+      }
+    });
+
+    expect(received).toEqual([undefined, 'Second', 'Second', undefined, 'Third']);
+  });
+
+  it('lets a group waiting for its context stop at the signal', async () => {
+    const relay = createPassageRelay();
+    const controller = new AbortController();
+    const waiting = relay.passageBefore(1, controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toThrow();
+  });
+});
@@ -0,0 +1,299 @@
+import { McqData, ExtractionResult, Passage, DocType, PageContent, PdfPage, PdfProcessingMode, SourceRange, AnswerKeyEntry, ChunkReport, ImagePreprocessing, Figure } from '../types';
+import { openPdfPageStream, processDocxToHtml, processImagePage, processPptxToSlides, processOdtToPages, processTextToHtml, chunkSections, detectFileType } from './documentProcessor';
+import { encodeTextChunk, decodeTextChunk } from './textEncoding';
+import { parseDocxChunk } from './docxRuleParser';
+import { mergeExtractedItems } from './resultMerger';
+import { mergeAnswerKeys, parseAnswerKeyHtml } from './answerKeyService';
+import { ChunkExtraction } from './extractionService';
+import { linkFigures, mergeFigures } from './figureService';
+
+export const PAGES_PER_CONTEXT = 4;
+// Pages shared by consecutive PDF windows, so boundary questions are seen whole at least once
+export const PAGE_OVERLAP = 1;
+
+// One chunk's worth of model input
+export interface PreparedGroup {
+  pages: PageContent[];
+  answerKey: AnswerKeyEntry[]; // Key lines found in the group's text pages, no AI needed
+}
+
+// Everything needed to run AI extraction on one file
+export interface PreparedDocument {
+  groupCount: number;
+  // PDF groups are streamed, so extraction starts while later pages are still being read
+  groups: Iterable<PreparedGroup> | AsyncIterable<PreparedGroup>;
+  parsedItems: McqData[]; // Already extracted locally, no AI needed
+  answerKey: AnswerKeyEntry[]; // Key lines and tables found in the text, no AI needed
+  figures: Figure[]; // Figures linked to `parsedItems`
+}
+
+export interface PrepareOptions {
+  signal?: AbortSignal;
+  pageFiles?: File[]; // Photos of one document, in page order
+  preprocessing?: ImagePreprocessing;
+  onPage?: (page: PdfPage) => void; // Called as each PDF page is read
+}
+
+export const chunkArray = <T>(array: T[], size: number): T[][] => {
+  const result: T[][] = [];
+  for (let i = 0; i < array.length; i += size) {
+    result.push(array.slice(i, i + size));
+  }
+  return result;
+};
+
+// Sliding windows of `size` items where consecutive windows share `overlap` items,
+// emitted as soon as each one is full
+export async function* streamWindows<T>(source: AsyncIterable<T>, size: number, overlap: number): AsyncGenerator<T[]> {
+  const step = Math.max(1, size - overlap);
+  let window: T[] = [];
+  let emitted = false;
+  for await (const item of source) {
+    window.push(item);
+    if (window.length === size) {
+      yield window;
+      emitted = true;
+      window = window.slice(step);
+    }
+  }
+  // The tail, unless it only repeats the end of the last full window
+  if (window.length > 0 && (!emitted || window.length > size - step)) yield window;
+}
+
+// How many windows streamWindows makes from `length` items, known before any is read
+export const windowCount = (length: number, size: number, overlap: number): number => {
+  if (length === 0) return 0;
+  const step = Math.max(1, size - overlap);
+  return length <= size ? 1 : 1 + Math.ceil((length - size) / step);
+};
+
+// Marks everything in `result` as coming from the queue item `sourceId`, named `fileName`
+export const tagSourceFile = (result: ExtractionResult, sourceId: string, fileName: string, separateKeyFile = false): ExtractionResult => ({
+  items: result.items.map(item => ({ ...item, sourceFile: fileName, sourceId })),
+  passages: result.passages.map(passage => ({ ...passage, sourceFile: fileName, sourceId })),
+  answerKey: (result.answerKey || []).map(entry => ({ ...entry, sourceFile: fileName, sourceId, separateFile: separateKeyFile })),
+  figures: (result.figures || []).map(figure => ({ ...figure, sourceFile: fileName, sourceId }))
+});
+
+export const tagSourceRange = <T extends { source?: SourceRange }>(items: T[], source?: SourceRange): T[] =>
+  source ? items.map(item => ({ ...item, source })) : items;
+
+// Span covered by a group of pages or chunks sent together to the model
+export const groupSourceRange = (group: PageContent[]): SourceRange | undefined => {
+  const sources = group.map(page => page.source).filter((source): source is SourceRange => !!source);
+  if (sources.length === 0) return undefined;
+
+  const paragraphStarts = sources.map(s => s.paragraphStart).filter((n): n is number => n !== undefined);
+  const paragraphEnds = sources.map(s => s.paragraphEnd).filter((n): n is number => n !== undefined);
+  return {
+    kind: sources[0].kind,
+    start: Math.min(...sources.map(s => s.start)),
+    end: Math.max(...sources.map(s => s.end)),
+    paragraphStart: paragraphStarts.length > 0 ? Math.min(...paragraphStarts) : undefined,
+    paragraphEnd: paragraphEnds.length > 0 ? Math.max(...paragraphEnds) : undefined
+  };
+};
+
+const sameRange = (a: SourceRange, b: SourceRange): boolean =>
+  a.kind === b.kind && a.start === b.start && a.end === b.end && a.paragraphStart === b.paragraphStart && a.paragraphEnd === b.paragraphEnd;
+
+// Whether `source` is the range of the group, or of a run of its pages that a split retry sent on its own
+export const isFromGroup = (source: SourceRange | undefined, group: PageContent[]): boolean => {
+  if (!source) return false;
+  for (let start = 0; start < group.length; start++) {
+    for (let end = start + 1; end <= group.length; end++) {
+      const range = groupSourceRange(group.slice(start, end));
+      if (range && sameRange(range, source)) return true;
+    }
+  }
+  return false;
+};
+
+// A chunk retried in smaller parts is ok only if every part is, and failed only if every part failed
+export const combineChunkExtractions = (parts: ChunkExtraction[]): ChunkExtraction => {
+  const problem = parts.find(part => part.status !== 'ok');
+  const status = !problem ? 'ok' : parts.every(part => part.status === 'failed') ? 'failed' : 'partial';
+  return {
+    result: {
+      items: parts.flatMap(part => part.result.items),
+      passages: parts.flatMap(part => part.result.passages),
+      answerKey: parts.flatMap(part => part.result.answerKey || []),
+      figures: parts.flatMap(part => part.result.figures || [])
+    },
+    status,
+    reason: problem?.reason,
+    message: problem?.message
+  };
+};
+
+// Hands each group's last passage on to the group after it, for questions that continue it.
+// Groups are extracted side by side, so a group waits for the one before it to settle first.
+export interface PassageRelay {
+  // Every group must settle, with no result if it was skipped or failed, or later groups wait forever
+  settle(groupIndex: number, result?: ExtractionResult): void;
+  passageBefore(groupIndex: number, signal?: AbortSignal): Promise<Passage | undefined>;
+}
+
+export const createPassageRelay = (): PassageRelay => {
+  const settled = new Map<number, { promise: Promise<Passage | undefined>; resolve: (passage?: Passage) => void }>();
+  // What each group was handed, since a passage carried over is not among the group's own passages
+  const received = new Map<number, Passage>();
+  const slot = (groupIndex: number) => {
+    let entry = settled.get(groupIndex);
+    if (!entry) {
+      let resolve!: (passage?: Passage) => void;
+      const promise = new Promise<Passage | undefined>(done => { resolve = done; });
+      entry = { promise, resolve };
+      settled.set(groupIndex, entry);
+    }
+    return entry;
+  };
+
+  return {
+    settle(groupIndex, result) {
+      const passageId = result?.items.filter(item => item.passageId).pop()?.passageId;
+      const known = [...(result?.passages || []), ...(received.has(groupIndex) ? [received.get(groupIndex)!] : [])];
+      slot(groupIndex).resolve(known.find(passage => passage.id === passageId));
+    },
+    async passageBefore(groupIndex, signal) {
+      if (groupIndex === 0) return undefined;
+      signal?.throwIfAborted();
+      const previous = slot(groupIndex - 1).promise;
+      const passage = await (signal
+        ? Promise.race([previous, new Promise<never>((_, reject) => signal.addEventListener('abort', () => reject(signal.reason), { once: true }))])
+        : previous);
+      if (passage) received.set(groupIndex, passage);
+      return passage;
+    }
+  };
+};
+
+// Chunks that still need extracting: never attempted, or failed
+export const isChunkDone = (report?: ChunkReport): boolean => !!report && report.status !== 'failed';
+
+export const describeSource = (source?: SourceRange): string => {
+  if (!source) return '';
+  const span = source.start === source.end ? `${source.start}` : `${source.start}–${source.end}`;
+  if (source.kind === 'pdf') return source.start === source.end ? `Page ${span}` : `Pages ${span}`;
+  if (source.kind === 'image') return source.start === source.end ? `Photo ${span}` : `Photos ${span}`;
+  const paragraphs = source.paragraphStart !== undefined
+    ? ` (¶ ${source.paragraphStart}–${source.paragraphEnd})`
+    : '';
+  if (source.kind === 'pptx') return `${source.start === source.end ? 'Slide' : 'Slides'} ${span}${paragraphs}`;
+  if (source.kind === 'odt') return `${source.start === source.end ? 'Page' : 'Pages'} ${span}${paragraphs}`;
+  return `Section ${span}${paragraphs}`;
+};
+
+// HTML chunks of a text-based document, each with where it sits in the file and its figures
+const loadHtmlChunks = async (file: File, type: DocType): Promise<{ html: string; source: SourceRange; figures: Figure[] }[]> => {
+  if (type === DocType.PPTX || type === DocType.ODT) {
+    const kind = type === DocType.PPTX ? 'pptx' : 'odt';
+    const sections = kind === 'pptx' ? await processPptxToSlides(file) : await processOdtToPages(file);
+    // Questions seldom continue onto the next slide, but often onto the next page
+    return chunkSections(sections, kind === 'odt' ? 1 : 0).map(chunk => ({
+      html: chunk.html,
+      source: { kind, start: chunk.start, end: chunk.end, paragraphStart: chunk.paragraphStart, paragraphEnd: chunk.paragraphEnd },
+      figures: chunk.figures || []
+    }));
+  }
+
+  const kind = type === DocType.DOCX ? 'docx' : 'text';
+  const chunks = kind === 'docx' ? await processDocxToHtml(file) : await processTextToHtml(file);
+  return chunks.map((chunk, index) => ({
+    html: chunk.html,
+    source: { kind, start: index + 1, end: index + 1, paragraphStart: chunk.paragraphStart, paragraphEnd: chunk.paragraphEnd },
+    figures: chunk.figures || []
+  }));
+};
+
+const HTML_DOCUMENT_TYPES = [DocType.DOCX, DocType.PPTX, DocType.ODT, DocType.TEXT, DocType.MARKDOWN];
+
+export const prepareDocument = async (file: File, pdfMode: PdfProcessingMode, options: PrepareOptions = {}): Promise<PreparedDocument> => {
+  const type = detectFileType(file);
+
+  if (type === DocType.PDF) {
+    const stream = await openPdfPageStream(file, pdfMode, options.preprocessing, options.signal);
+    async function* readPages(): AsyncGenerator<PdfPage> {
+      for await (const page of stream.pages) {
+        options.onPage?.(page);
+        yield page;
+      }
+    }
+    async function* readGroups(): AsyncGenerator<PreparedGroup> {
+      for await (const pages of streamWindows(readPages(), PAGES_PER_CONTEXT, PAGE_OVERLAP)) {
+        // Scanned key pages are left to the model
+        const answerKey = pages
+          .filter(page => page.path === 'text')
+          .flatMap(page => tagSourceRange(parseAnswerKeyHtml(decodeTextChunk(page.data)), page.source));
+        yield { pages, answerKey };
+      }
+    }
+    return {
+      groupCount: windowCount(stream.pageCount, PAGES_PER_CONTEXT, PAGE_OVERLAP),
+      groups: readGroups(),
+      parsedItems: [],
+      answerKey: [],
+      figures: []
+    };
+  }
+
+  if (type === DocType.IMAGE) {
+    const files = options.pageFiles?.length ? options.pageFiles : [file];
+    // Photos are decoded one at a time, as the extraction pool asks for them
+    async function* readPages(): AsyncGenerator<PdfPage> {
+      for (let i = 0; i < files.length; i++) {
+        options.signal?.throwIfAborted();
+        const page = await processImagePage(files[i], i + 1, options.preprocessing);
+        options.onPage?.(page);
+        yield page;
+      }
+    }
+    async function* readGroups(): AsyncGenerator<PreparedGroup> {
+      for await (const pages of streamWindows(readPages(), PAGES_PER_CONTEXT, PAGE_OVERLAP)) {
+        yield { pages, answerKey: [] };
+      }
+    }
+    return {
+      groupCount: windowCount(files.length, PAGES_PER_CONTEXT, PAGE_OVERLAP),
+      groups: readGroups(),
+      parsedItems: [],
+      answerKey: [],
+      figures: []
+    };
+  }
+
+  if (HTML_DOCUMENT_TYPES.includes(type)) {
+    const htmlChunks = await loadHtmlChunks(file, type);
+    options.signal?.throwIfAborted();
+
+    // Well-formatted sections are parsed locally; only the rest goes to the AI
+    let parsedItems: McqData[] = [];
+    let answerKey: AnswerKeyEntry[] = [];
+    let figures: Figure[] = [];
+    const pendingChunks: PageContent[] = [];
+    htmlChunks.forEach(({ html, source, figures: chunkFigures }) => {
+      answerKey = mergeAnswerKeys(answerKey, tagSourceRange(parseAnswerKeyHtml(html), source));
+      const parsed = parseDocxChunk(html);
+      if (parsed.confident) {
+        const linked = linkFigures({ items: parsed.items, passages: [] }, chunkFigures);
+        // Overlapping chunks parse boundary questions twice
+        parsedItems = mergeExtractedItems(parsedItems, tagSourceRange(linked.items, source));
+        figures = mergeFigures(figures, linked.figures);
+      } else {
+        pendingChunks.push({ data: encodeTextChunk(html), mimeType: 'text/html', source, figures: chunkFigures });
+      }
+    });
+
+    // Text chunks carry whatever overlap they need already, so groups don't overlap
+    const groups = chunkArray(pendingChunks, PAGES_PER_CONTEXT).map(pages => ({ pages, answerKey: [] }));
+    return {
+      groupCount: groups.length,
+      groups,
+      parsedItems: parsedItems.map(item => ({ ...item, sourceFile: file.name })),
+      answerKey,
+      figures
+    };
+  }
+
+  throw new Error(`Unsupported file type: ${file.name}`);
+};
@@ -0,0 +1,83 @@
+import { ChunkFailureReason, ProviderConfig, ProviderKind } from '../types';
+import { createGeminiProvider } from './geminiService';
+import { createOpenAiCompatibleProvider } from './openAiService';
+import { createFixtureProvider, FixtureSet } from './fixtureService';
+
+// Declare process for TypeScript in case it's not picked up globally
+declare var process: {
+  env: {
+    OPENAI_BASE_URL?: string;
+    OPENAI_MODEL?: string;
+    OPENAI_API_KEY?: string;
+  };
+};
+
+// Minimal JSON Schema subset understood by every backend we talk to
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | ('string' | 'null')[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+// Thrown by providers when the reason for a failure is known, e.g. a safety block
+export class ProviderError extends Error {
+  constructor(message: string, readonly reason: ChunkFailureReason) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// Same shape as Gemini "parts" so the default provider can pass them straight through
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+export interface GenerationRequest {
+  systemInstruction: string;
+  parts: ContentPart[];
+  responseSchema: JsonSchema;
+  temperature?: number;
+  signal?: AbortSignal; // Aborts the request when extraction is cancelled
+}
+
+// A backend capable of turning document content into a JSON string matching responseSchema
+export interface ExtractionProvider {
+  readonly kind: ProviderKind;
+  readonly model: string;
+  generate(request: GenerationRequest): Promise<string>;
+}
+
+export const DEFAULT_PROVIDER_CONFIGS: Record<ProviderKind, ProviderConfig> = {
+  [ProviderKind.GEMINI]: {
+    kind: ProviderKind.GEMINI,
+    // Using gemini-3-flash-preview for optimal speed/intelligence ratio for text tasks
+    model: 'gemini-3-flash-preview'
+  },
+  [ProviderKind.OPENAI_COMPATIBLE]: {
+    kind: ProviderKind.OPENAI_COMPATIBLE,
+    model: process.env.OPENAI_MODEL || 'llama3.2-vision',
+    baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+    apiKey: process.env.OPENAI_API_KEY
+  },
+  [ProviderKind.FIXTURE]: {
+    kind: ProviderKind.FIXTURE,
+    model: 'fixture-replay'
+  }
+};
+
+export const createProvider = (config: ProviderConfig, fixtures?: FixtureSet): ExtractionProvider => {
+  switch (config.kind) {
+    case ProviderKind.GEMINI:
+      return createGeminiProvider(config);
+    case ProviderKind.OPENAI_COMPATIBLE:
+      return createOpenAiCompatibleProvider(config);
+    case ProviderKind.FIXTURE:
+      if (!fixtures) throw new Error("Fixture replay requires a loaded fixture file.");
+      return createFixtureProvider(fixtures);
+    default:
+      throw new Error(`Unsupported extraction provider: ${config.kind}`);
+  }
+};
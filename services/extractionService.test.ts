@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { AppLanguage, PageContent, ProviderKind, QuestionType } from '../types';
+import { ExtractionProvider } from './extractionProvider';
+import { analyzeDocumentContent } from './extractionService';
+
+const page: PageContent = { data: btoa('<p>1. The sun is a star.</p>'), mimeType: 'text/html' };
+
+// Returns `questions` as the model's answer to any request
+const answering = (questions: unknown[]): ExtractionProvider => ({
+  kind: ProviderKind.FIXTURE,
+  model: 'scripted',
+  generate: async () => JSON.stringify({ passages: [], questions, answerKey: [] })
+});
+
+const extract = async (questions: unknown[]) =>
+  (await analyzeDocumentContent(answering(questions), [page], AppLanguage.ENGLISH)).result.items;
+
+describe('analyzeDocumentContent', () => {
+  it('reads true/false answers given as words', async () => {
+    const items = await extract([
+      { questionType: QuestionType.TRUE_FALSE, question: 'The sun is a star.', choices: ['True', 'False'], correctAnswer: 'True' },
+      { questionType: QuestionType.TRUE_FALSE, question: 'The moon is a planet.', choices: ['True', 'False'], correctAnswer: 'false.' },
+      { questionType: QuestionType.TRUE_FALSE, question: 'الشمس نجم', choices: ['صح', 'خطأ'], correctAnswer: 'صح' }
+    ]);
+    expect(items.map(item => item.correctAnswer)).toEqual(['A', 'B', 'A']);
+  });
+
+  it('reads a yes/no question filed as multiple choice as true/false', async () => {
+    const [item] = await extract([{ questionType: QuestionType.MULTIPLE_CHOICE, question: 'Water is dry.', choices: ['Yes', 'No'], correctAnswer: 'No' }]);
+    expect(item).toMatchObject({ questionType: QuestionType.TRUE_FALSE, correctAnswer: 'B' });
+  });
+
+  it('gives a true/false item without choices the default pair', async () => {
+    const [item] = await extract([{ questionType: QuestionType.TRUE_FALSE, question: 'Ice is cold.', choices: [], correctAnswer: 'T' }]);
+    expect(item).toMatchObject({ choices: ['True', 'False'], correctAnswer: 'A' });
+  });
+
+  it('keeps only letters that point at a written choice', async () => {
+    const items = await extract([
+      { questionType: QuestionType.MULTIPLE_CHOICE, question: 'Pick', choices: ['x', 'y'], correctAnswer: 'D' },
+      { questionType: QuestionType.MULTIPLE_CHOICE, question: 'Pick', choices: ['x', 'y', 'z'], correctAnswer: '(ج)' },
+      { questionType: QuestionType.MULTIPLE_CHOICE, question: 'Pick', choices: ['x', 'y', 'z'], correctAnswers: ['a', 'c'] }
+    ]);
+    expect(items.map(item => [item.questionType, item.correctAnswer])).toEqual([
+      [QuestionType.MULTIPLE_CHOICE, ''],
+      [QuestionType.MULTIPLE_CHOICE, 'C'],
+      [QuestionType.MULTIPLE_SELECT, 'A,C']
+    ]);
+  });
+
+  it('reads Arabic option letters as A-E', async () => {
+    const choices = ['١', '٢', '٣', '٤', '٥'];
+    const items = await extract(['أ', 'ب', '(ج)', '‏د‏', 'هـ'].map(correctAnswer =>
+      ({ questionType: QuestionType.MULTIPLE_CHOICE, question: 'اختر', choices, correctAnswer })));
+    expect(items.map(item => item.correctAnswer)).toEqual(['A', 'B', 'C', 'D', 'E']);
+
+    const [multiple] = await extract([{ questionType: QuestionType.MULTIPLE_SELECT, question: 'اختر', choices, correctAnswers: ['أ', 'هـ'] }]);
+    expect(multiple.correctAnswer).toBe('A,E');
+  });
+});
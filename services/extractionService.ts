@@ -0,0 +1,414 @@
+import { AppLanguage, PageContent, Passage, ExtractionResult, McqData, QuestionType, AnswerEvidence, AnswerKeyEntry, ChunkStatus, ChunkFailureReason, CHOICE_LETTERS, MAX_CHOICES } from '../types';
+import { ExtractionProvider, GenerationRequest, JsonSchema, ContentPart, ProviderError } from './extractionProvider';
+import { ALL_QUESTION_TYPES, ARABIC_LETTERS, TRUE_FALSE_CHOICES, TRUE_WORDS, FALSE_WORDS, isChoiceType, joinAnswerLetters, looksLikeTrueFalse } from './questionTypes';
+import { normalizeKeyAnswer, normalizeQuestionNumber } from './answerKeyService';
+import { isAbortError, wait } from './concurrency';
+import { detectLanguage, detectLanguages, normalizeRtlText, stripBidiControls } from './languageService';
+import { decodeTextChunk } from './textEncoding';
+
+const passagesSchema: JsonSchema = {
+  type: 'array',
+  description: "Every reading passage or shared context, listed ONCE.",
+  items: {
+    type: 'object',
+    properties: {
+      key: { type: 'string', description: "Short unique key, e.g. P1." },
+      text: { type: 'string', description: "The FULL passage text, as Markdown with LaTeX math." },
+    },
+    required: ["key", "text"],
+  },
+};
+
+const answerKeySchema: JsonSchema = {
+  type: 'array',
+  description: "Entries of any answer key or solutions table on these pages, by question number.",
+  items: {
+    type: 'object',
+    properties: {
+      number: { type: 'string', description: "Question number as printed, e.g. 12." },
+      answer: { type: 'string', description: "The answer as printed: option letter(s), True/False, or the answer text." },
+    },
+    required: ["number", "answer"],
+  },
+};
+
+// Define the response schema strictly for the model, with only the fields the selected types use
+const buildResponseSchema = (types: QuestionType[]): JsonSchema => {
+  const properties: Record<string, JsonSchema> = {
+    questionType: { type: 'string', enum: types, description: "Kind of question." },
+    question: { type: 'string', description: "Question text, as Markdown with LaTeX math ($x^2$)." },
+    questionNumber: { type: ['string', 'null'], description: "Number printed before the question, e.g. 12." },
+    passageKey: { type: ['string', 'null'], description: "Key of the linked passage, if any." },
+    answerEvidence: { type: 'string', enum: Object.values(AnswerEvidence), description: "What the answer was read from." },
+    confidence: { type: 'number', description: "0 to 1: how sure you are of the question text and its answer." },
+  };
+
+  if (types.some(isChoiceType)) {
+    properties.choices = {
+      type: 'array',
+      description: `Choice questions: all options in document order (2 to ${MAX_CHOICES}), without their letter labels.`,
+      items: { type: 'string' },
+    };
+    properties.correctAnswers = {
+      type: 'array',
+      description: "Choice questions: letter(s) of the correct option(s) by position (A = first). Empty if unknown.",
+      items: { type: 'string' },
+    };
+  }
+  if (types.includes(QuestionType.FILL_IN_BLANK) || types.includes(QuestionType.SHORT_ANSWER)) {
+    properties.answers = {
+      type: 'array',
+      description: "Fill-in-the-blank: the answer for each blank, in order. Short answer: every accepted answer.",
+      items: { type: 'string' },
+    };
+  }
+  if (types.includes(QuestionType.MATCHING)) {
+    properties.pairs = {
+      type: 'array',
+      description: "Matching: each left-hand prompt with its correct right-hand match.",
+      items: {
+        type: 'object',
+        properties: {
+          prompt: { type: 'string' },
+          match: { type: 'string' },
+        },
+        required: ["prompt", "match"],
+      },
+    };
+  }
+
+  return {
+    type: 'object',
+    properties: {
+      passages: passagesSchema,
+      answerKey: answerKeySchema,
+      questions: {
+        type: 'array',
+        items: { type: 'object', properties, required: ["questionType", "question", "answerEvidence", "confidence"] },
+      },
+    },
+    required: ["questions"],
+  };
+};
+
+// How to recognise and fill in each type, only for the types being extracted
+const TYPE_RULES: Record<QuestionType, string> = {
+  [QuestionType.MULTIPLE_CHOICE]: `"${QuestionType.MULTIPLE_CHOICE}": one correct option. Keep every option in order (up to ${MAX_CHOICES}).`,
+  [QuestionType.MULTIPLE_SELECT]: `"${QuestionType.MULTIPLE_SELECT}": several options may be correct ("select all that apply"). List every correct letter.`,
+  [QuestionType.TRUE_FALSE]: `"${QuestionType.TRUE_FALSE}": exactly two choices, the "true" word first and the "false" word second, written as in the document.`,
+  [QuestionType.FILL_IN_BLANK]: `"${QuestionType.FILL_IN_BLANK}": write each blank in "question" as ___ and give one answer per blank.`,
+  [QuestionType.MATCHING]: `"${QuestionType.MATCHING}": two columns to be matched. Put each prompt with its match in "pairs"; leave "match" empty if the key is not shown.`,
+  [QuestionType.SHORT_ANSWER]: `"${QuestionType.SHORT_ANSWER}": a free-text answer. Put the model answer (and accepted variants) in "answers" if shown.`,
+};
+
+// Model-local key that refers to AnalyzeOptions.contextPassage
+const CONTEXT_PASSAGE_KEY = 'CONTEXT';
+
+const EMPTY_RESULT: ExtractionResult = { items: [], passages: [] };
+
+// Closing brackets tried after each cut point when salvaging a truncated response
+const MAX_SALVAGE_ATTEMPTS = 200;
+
+// Prompt lines for documents in each language. The digits, letters and direction marks they
+// mention are also fixed after extraction, so these only help the model read the document.
+const LANGUAGE_INSTRUCTIONS: Partial<Record<AppLanguage, string>> = {
+  [AppLanguage.ARABIC]: 'Processing Arabic Document (RTL). Standardize numbers to Western (1,2,3). Standardize Arabic letters (أ,ب,ج,د) to (A,B,C,D).',
+  [AppLanguage.URDU]: 'Processing Urdu Document (RTL). Standardize numbers to Western (1,2,3). Standardize option letters (الف,ب,ج,د) to (A,B,C,D).',
+  [AppLanguage.PERSIAN]: 'Processing Persian Document (RTL). Standardize numbers, including Persian digits (۱,۲,۳), to Western (1,2,3). Standardize option letters (الف,ب,ج,د) to (A,B,C,D).',
+  [AppLanguage.FRENCH]: 'Processing French Document. Keep the French wording and accents exactly; "Vrai"/"Faux" options are true/false.'
+};
+
+// For image-only chunks in Auto mode, where there is no text to detect the language from
+const UNKNOWN_LANGUAGE_INSTRUCTION = 'Keep all text in the language it is written in. For right-to-left documents (Arabic, Urdu, Persian), standardize numbers to Western (1,2,3) and option letters (أ,ب,ج,د or الف,ب,ج,د) to (A,B,C,D).';
+
+// Text of the chunk's text and HTML pages; scanned pages have none
+const chunkText = (pages: PageContent[]): string =>
+  pages.filter(page => page.mimeType.startsWith('text/')).map(page => decodeTextChunk(page.data)).join('\n');
+
+// Languages of the chunk, dominant first: the chosen one, or what its text reads as in Auto mode
+const chunkLanguages = (pages: PageContent[], language: AppLanguage): AppLanguage[] =>
+  language === AppLanguage.AUTO ? detectLanguages(chunkText(pages)) : [language];
+
+const languageInstruction = (languages: AppLanguage[], language: AppLanguage): string => {
+  if (languages.length === 0) return language === AppLanguage.AUTO ? UNKNOWN_LANGUAGE_INSTRUCTION : '';
+  const lines = languages.map(lang => LANGUAGE_INSTRUCTIONS[lang]).filter(Boolean);
+  if (languages.length > 1) {
+    lines.push(`The document mixes ${languages.join(' and ')}. Keep every question, option and passage in the language it is written in; do not translate.`);
+  }
+  return lines.join('\n    ');
+};
+
+// Model text with Western digits and without direction marks, however the document wrote them
+const cleanText = (value: string): string => normalizeRtlText(value).trim();
+
+// Trims options, drops empty trailing ones and caps the count. Older fixtures and models
+// that ignore the schema may still answer with choiceA..choiceE fields.
+const normalizeChoices = (item: any): string[] => {
+  const raw: unknown[] = Array.isArray(item.choices)
+    ? item.choices
+    : [item.choiceA, item.choiceB, item.choiceC, item.choiceD, item.choiceE];
+  const choices = raw.slice(0, MAX_CHOICES).map(choice => (typeof choice === 'string' ? cleanText(choice) : ''));
+  while (choices.length > 0 && !choices[choices.length - 1]) choices.pop();
+  return choices;
+};
+
+const plainWord = (text: string): string => text.trim().toLowerCase().replace(/[.!]$/, '');
+
+// A true/false answer given as a word ("True", "صح") is the letter of the choice that reads that way
+const trueFalseLetter = (answer: string, choices: string[]): string | undefined => {
+  const word = plainWord(answer);
+  const isTrue = TRUE_WORDS.includes(word);
+  if (!isTrue && !FALSE_WORDS.includes(word)) return undefined;
+  const index = choices.findIndex(choice => (isTrue ? TRUE_WORDS : FALSE_WORDS).includes(plainWord(choice)));
+  return CHOICE_LETTERS[index >= 0 ? index : isTrue ? 0 : 1];
+};
+
+// Keeps only letters that point at an existing choice. Arabic labels ("ب", "هـ") are read as A-H.
+const normalizeAnswerLetters = (answers: unknown, choices: string[], trueFalse: boolean): string[] => {
+  const raw = Array.isArray(answers) ? answers : [answers];
+  // A true/false item without two choices gets the default True/False pair
+  const choiceCount = trueFalse ? 2 : choices.length;
+  return raw
+    .flatMap(answer => {
+      if (typeof answer !== 'string') return [];
+      const text = stripBidiControls(answer);
+      const word = trueFalse ? trueFalseLetter(text, choices.length === 2 ? choices : TRUE_FALSE_CHOICES) : undefined;
+      return word ? [word] : text.split(/[^A-Za-zء-ۿ]+/);
+    })
+    .map(token => ARABIC_LETTERS[token] ?? token.toUpperCase())
+    .filter(letter => letter.length === 1 && CHOICE_LETTERS.indexOf(letter) >= 0 && CHOICE_LETTERS.indexOf(letter) < choiceCount);
+};
+
+const normalizeStrings = (values: unknown): string[] =>
+  Array.isArray(values) ? values.filter((value): value is string => typeof value === 'string').map(cleanText) : [];
+
+const normalizeEvidence = (evidence: unknown): AnswerEvidence =>
+  Object.values(AnswerEvidence).includes(evidence as AnswerEvidence) ? evidence as AnswerEvidence : AnswerEvidence.NONE;
+
+// Some models answer on a 0-100 scale
+const normalizeConfidence = (confidence: unknown): number | undefined => {
+  const value = typeof confidence === 'string' ? parseFloat(confidence) : confidence;
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+  return Math.min(1, Math.max(0, value > 1 ? value / 100 : value));
+};
+
+// Shapes a raw model question into the fields its type uses
+const normalizeQuestion = (item: any, types: QuestionType[], passageId: string | undefined, fallbackLanguage?: AppLanguage): McqData => {
+  const choices = normalizeChoices(item);
+  let questionType = ALL_QUESTION_TYPES.includes(item.questionType) ? item.questionType as QuestionType : QuestionType.MULTIPLE_CHOICE;
+  const trueFalse = item.questionType === QuestionType.TRUE_FALSE || looksLikeTrueFalse(choices);
+  const letters = normalizeAnswerLetters(item.correctAnswers ?? item.correctAnswer, choices, trueFalse);
+  const question = cleanText(typeof item.question === 'string' ? item.question : '');
+  const base = {
+    id: crypto.randomUUID(),
+    question,
+    // Judged per question, so a bilingual document gets the right language on each row
+    language: detectLanguage([question, ...choices].join(' ')) ?? fallbackLanguage,
+    passageId,
+    questionNumber: normalizeQuestionNumber(item.questionNumber),
+    answerEvidence: normalizeEvidence(item.answerEvidence),
+    confidence: normalizeConfidence(item.confidence)
+  };
+
+  // Models often file true/false and select-all items as plain multiple choice
+  if (questionType === QuestionType.MULTIPLE_CHOICE && looksLikeTrueFalse(choices) && types.includes(QuestionType.TRUE_FALSE)) {
+    questionType = QuestionType.TRUE_FALSE;
+  }
+  if (questionType === QuestionType.MULTIPLE_CHOICE && letters.length > 1 && types.includes(QuestionType.MULTIPLE_SELECT)) {
+    questionType = QuestionType.MULTIPLE_SELECT;
+  }
+
+  switch (questionType) {
+    case QuestionType.MULTIPLE_SELECT:
+      return { ...base, questionType, choices, correctAnswer: joinAnswerLetters(letters) };
+    case QuestionType.TRUE_FALSE:
+      return {
+        ...base,
+        questionType,
+        choices: choices.length === 2 ? choices : [...TRUE_FALSE_CHOICES],
+        correctAnswer: letters[0] && letters[0] <= 'B' ? letters[0] : ''
+      };
+    case QuestionType.FILL_IN_BLANK:
+    case QuestionType.SHORT_ANSWER:
+      return { ...base, questionType, choices: [], correctAnswer: '', answers: normalizeStrings(item.answers).filter(Boolean) };
+    case QuestionType.MATCHING:
+      return {
+        ...base,
+        questionType,
+        choices: [],
+        correctAnswer: '',
+        pairs: (Array.isArray(item.pairs) ? item.pairs : [])
+          .filter((pair: any) => typeof pair?.prompt === 'string' && pair.prompt.trim())
+          .map((pair: any) => ({ prompt: cleanText(pair.prompt), match: typeof pair.match === 'string' ? cleanText(pair.match) : '' }))
+      };
+    default:
+      return { ...base, questionType, choices, correctAnswer: letters.length === 1 ? letters[0] : '' };
+  }
+};
+
+export async function generateWithRetry(provider: ExtractionProvider, request: GenerationRequest, retries = 3): Promise<string> {
+  for (let i = 0; i < retries; i++) {
+    try {
+      return await provider.generate(request);
+    } catch (error: any) {
+      const isRetryable = error.message?.includes('503') || error.message?.includes('429');
+      if (i === retries - 1 || !isRetryable || isAbortError(error)) throw error;
+      await wait(1000 * Math.pow(2, i), request.signal);
+    }
+  }
+  return '';
+}
+
+// Model JSON with any Markdown code fences around it removed
+export const stripJsonFences = (text: string): string => text.replace(/```json/g, '').replace(/```/g, '').trim();
+
+// Maps provider and parsing errors to a reason the user can act on
+export const classifyError = (error: unknown): ChunkFailureReason => {
+  if (error instanceof ProviderError) return error.reason;
+  if (error instanceof SyntaxError) return ChunkFailureReason.PARSE;
+  const message = error instanceof Error ? error.message : String(error);
+  if (/429|quota|RESOURCE_EXHAUSTED|rate.?limit/i.test(message)) return ChunkFailureReason.QUOTA;
+  if (/401|403|API key|PERMISSION_DENIED|unauthori[sz]ed/i.test(message)) return ChunkFailureReason.AUTH;
+  if (/safety|blocked/i.test(message)) return ChunkFailureReason.SAFETY;
+  if (/Failed to fetch|NetworkError|network|50[0234]|UNAVAILABLE|timed? ?out/i.test(message)) return ChunkFailureReason.NETWORK;
+  return ChunkFailureReason.UNKNOWN;
+};
+
+// Cuts a response that stopped mid-question back to its last complete question
+const salvageTruncatedJson = (text: string): any | null => {
+  let end = text.lastIndexOf('}');
+  for (let attempt = 0; end > 0 && attempt < MAX_SALVAGE_ATTEMPTS; attempt++) {
+    try {
+      return JSON.parse(text.slice(0, end + 1) + ']}');
+    } catch {
+      end = text.lastIndexOf('}', end - 1);
+    }
+  }
+  return null;
+};
+
+// What came back for one chunk, and whether it can be trusted to be complete
+export interface ChunkExtraction {
+  result: ExtractionResult;
+  status: ChunkStatus;
+  reason?: ChunkFailureReason;
+  message?: string;
+}
+
+export interface AnalyzeOptions {
+  // Last passage seen before these pages, for questions that continue it
+  contextPassage?: Passage;
+  questionTypes?: QuestionType[]; // Types to extract, all when omitted
+  signal?: AbortSignal;
+}
+
+export const analyzeDocumentContent = async (
+  provider: ExtractionProvider,
+  pages: PageContent[],
+  language: AppLanguage,
+  options: AnalyzeOptions = {}
+): Promise<ChunkExtraction> => {
+  const questionTypes = options.questionTypes?.length ? options.questionTypes : ALL_QUESTION_TYPES;
+  const languages = chunkLanguages(pages, language);
+  const langInstruction = languageInstruction(languages, language);
+
+  // System instructions are more powerful than simple prompts
+  const systemInstruction = `
+    You are an expert Document Analysis AI specialized in extracting exam questions to structured JSON.
+    ${langInstruction}
+
+    VISUAL DETECTION RULES (HIGHEST PRIORITY):
+    1. HIGHLIGHTS = CORRECT ANSWER: If an option has a background color (Yellow, Green, Gray, Pink), it IS the correct answer. This is the #1 signal.
+    2. MARKS: Checkmarks (✓), Circles around letters, or Colored text (e.g., Red) indicate correct answers.
+    3. STYLES: Bold or Underline (if only one option has it) indicates the answer.
+    4. TEXT INPUT: Pages may arrive as HTML instead of images. There, <mark> is highlighted text, <strong> is bold and <u> is underlined.
+
+    EXTRACTION RULES:
+    1. EXTRACT ALL: Process the entire input batch. Extract every single question found. Do not summarize.
+    2. PASSAGE LINKING (CRITICAL):
+       - If a text/story/passage appears, it applies to the questions that follow it.
+       - Put each passage ONCE in "passages" with its FULL text and a short key (P1, P2, ...).
+       - Set "passageKey" on EVERY question linked to it, even if the passage was on Page 1 and the question is on Page 2.
+    3. CLEANUP: Remove "Q1", "1.", "a)" prefixes from values. Put the printed question number in "questionNumber" instead.
+    4. QUESTION TYPES: Set "questionType" and fill only the fields that type uses. Extract ONLY these types and skip all other questions:
+       ${questionTypes.map(type => `- ${TYPE_RULES[type]}`).join('\n       ')}
+    5. EVIDENCE: Set "answerEvidence" to the signal the answer came from: "${AnswerEvidence.HIGHLIGHT}", "${AnswerEvidence.MARK}" (checkmark, circle, coloured text), "${AnswerEvidence.STYLE}" (bold/underline), "${AnswerEvidence.ANSWER_KEY}" (answer line or key table), "${AnswerEvidence.INFERRED}" (no marking, you solved it) or "${AnswerEvidence.NONE}" (no answer given). Set "confidence" lower for blurry scans, cut-off text, ambiguous marks and inferred answers.
+    6. ANSWER KEY: If the pages contain an answer key or solutions table ("1-B 2-D ..."), put every entry in "answerKey" and do not turn its entries into questions.
+    7. OVERLAP: The first page may repeat the end of the previous batch. Extract every question on it anyway, including incomplete ones.
+    8. FORMATTING: Write all text as Markdown with LaTeX math, so nothing is flattened:
+       - Subscripts, superscripts, equations and symbols as LaTeX in $...$ (inline) or $$...$$ (on its own line): "$x^2 + 3x - 4 = 0$", "$H_2O$", "$\\frac{1}{2}$". Write a literal dollar sign as \\$.
+       - Code as \`code\` or fenced \`\`\` blocks, small tables as pipe tables with a |---| row, *italic* where the document uses it.
+       - Do NOT carry answer marks (highlight, bold or underline that marks the correct option) into the text.
+    9. FIGURES: Pictures and diagrams are shown as markers like "[Figure 3.1]", as text or as a label drawn on the page image. Copy each marker exactly into the question, choice or passage text the figure belongs to.
+  `;
+
+  const contentParts: ContentPart[] = pages.map(p => ({
+    inlineData: { data: p.data, mimeType: p.mimeType }
+  }));
+
+  if (options.contextPassage) {
+    contentParts.unshift({
+      text: `CONTEXT FROM PREVIOUS PAGES: this passage was in progress before the pages below. If the first questions belong to it, set their "passageKey" to "${CONTEXT_PASSAGE_KEY}" and do not repeat it in "passages":\n${options.contextPassage.text}`
+    });
+  }
+
+  // Simple user prompt to trigger the system instruction
+  contentParts.push({ text: "Extract all questions from these pages into the specified JSON format." });
+
+  try {
+    let rawText = await generateWithRetry(provider, {
+      systemInstruction: systemInstruction,
+      parts: contentParts,
+      responseSchema: buildResponseSchema(questionTypes),
+      temperature: 0.1, // Low temperature for deterministic results
+      signal: options.signal
+    });
+
+    if (!rawText) {
+      return { result: EMPTY_RESULT, status: 'failed', reason: ChunkFailureReason.EMPTY, message: 'The provider returned an empty response.' };
+    }
+
+    rawText = stripJsonFences(rawText);
+    let parsed: any;
+    let truncated = false;
+    try {
+      parsed = JSON.parse(rawText);
+    } catch (error) {
+      parsed = salvageTruncatedJson(rawText);
+      if (!parsed) throw error;
+      truncated = true;
+    }
+
+    // Swap the model's local passage keys for stable ids
+    const passageIds = new Map<string, string>();
+    if (options.contextPassage) passageIds.set(CONTEXT_PASSAGE_KEY, options.contextPassage.id);
+    const passages: Passage[] = (parsed.passages || [])
+      .filter((p: any) => p?.key && p?.text?.trim() && !passageIds.has(p.key))
+      .map((p: any) => {
+        const id = crypto.randomUUID();
+        passageIds.set(p.key, id);
+        return { id, text: cleanText(p.text) };
+      });
+
+    const items = (parsed.questions || [])
+      .map((item: any) => normalizeQuestion(item, questionTypes, item.passageKey ? passageIds.get(item.passageKey) : undefined, languages[0]))
+      .filter((item: McqData) => questionTypes.includes(item.questionType));
+
+    const answerKey: AnswerKeyEntry[] = (parsed.answerKey || [])
+      .filter((entry: any) => typeof entry?.answer === 'string' && entry.answer.trim())
+      .map((entry: any) => ({ number: normalizeQuestionNumber(entry.number), answer: normalizeKeyAnswer(entry.answer) }))
+      .filter((entry: { number?: string }) => !!entry.number);
+
+    const result = { items, passages, answerKey };
+    if (truncated) {
+      return { result, status: 'partial', reason: ChunkFailureReason.TRUNCATED, message: 'The response was cut off; later questions may be missing.' };
+    }
+    return { result, status: 'ok' };
+
+  } catch (error: any) {
+    // A cancelled chunk was not attempted, so it is not reported as failed
+    if (options.signal?.aborted || isAbortError(error)) throw error;
+    console.error(`Extraction Error (${provider.kind}):`, error);
+    return { result: EMPTY_RESULT, status: 'failed', reason: classifyError(error), message: error?.message || String(error) };
+  }
+};
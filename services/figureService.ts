@@ -0,0 +1,99 @@
+import { ExtractionResult, Figure, FigureLink, McqData } from '../types';
+
+// Figures reach the model as text markers ("[Figure 3.1]", or a label drawn onto a page image).
+// The model copies each marker into the question, choice or passage the figure belongs to, and
+// linkFigures turns the markers back into links.
+
+// Image types every export target and browser can show; EMF and WMF drawings are dropped
+export const FIGURE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml'];
+
+const MARKER_PATTERN = /\s*\[Figure (\d+(?:\.\d+)?)\]\s*/g;
+
+export const figureMarker = (label: string): string => `[Figure ${label}]`;
+
+export const figureDataUrl = (figure: Figure): string => `data:${figure.mimeType};base64,${figure.data}`;
+
+// Figures whose marker appears in `html`
+export const figuresIn = (html: string, figures: Figure[]): Figure[] =>
+  figures.filter(figure => html.includes(figureMarker(figure.label)));
+
+// Puts the images back in place of their markers, for previews
+export const renderFigureMarkers = (html: string, figures: Figure[]): string =>
+  figures.reduce(
+    (out, figure) => out.split(figureMarker(figure.label)).join(`<img src="${figureDataUrl(figure)}" alt="${figureMarker(figure.label)}" style="max-height:160px">`),
+    html
+  );
+
+// Removes the markers of known figures from `text`, returning the figures they named
+const takeMarkers = (text: string, byLabel: Map<string, Figure>): { text: string; found: Figure[] } => {
+  const found: Figure[] = [];
+  const cleaned = text.replace(MARKER_PATTERN, (marker, label: string) => {
+    const figure = byLabel.get(label);
+    if (!figure) return marker;
+    if (!found.includes(figure)) found.push(figure);
+    return ' ';
+  });
+  return { text: found.length > 0 ? cleaned.replace(/ {2,}/g, ' ').trim() : text, found };
+};
+
+const addLinks = (links: FigureLink[], figures: Figure[], choice?: number): FigureLink[] => {
+  const added = figures
+    .filter(figure => !links.some(link => link.figureId === figure.id && link.choice === choice))
+    .map(figure => (choice === undefined ? { figureId: figure.id } : { figureId: figure.id, choice }));
+  return [...links, ...added];
+};
+
+// Links the figures named by markers in `result` to their questions and choices, and strips the
+// markers from the text. A figure in a passage is shown with every question of that passage.
+// Only figures that ended up linked are kept in the result.
+export const linkFigures = (result: ExtractionResult, figures: Figure[]): ExtractionResult => {
+  if (figures.length === 0) return result;
+  const byLabel = new Map(figures.map(figure => [figure.label, figure]));
+  const used = new Set<string>();
+  const use = (found: Figure[]) => found.forEach(figure => used.add(figure.id));
+
+  const passageFigures = new Map<string, Figure[]>();
+  const passages = result.passages.map(passage => {
+    const { text, found } = takeMarkers(passage.text, byLabel);
+    if (found.length === 0) return passage;
+    passageFigures.set(passage.id, found);
+    use(found);
+    return { ...passage, text };
+  });
+
+  const items = result.items.map((item): McqData => {
+    const question = takeMarkers(item.question, byLabel);
+    let marked = question.found.length > 0;
+    let links = addLinks(item.figures || [], [...(item.passageId ? passageFigures.get(item.passageId) || [] : []), ...question.found]);
+    use(question.found);
+
+    const choices = item.choices.map((choice, index) => {
+      const taken = takeMarkers(choice, byLabel);
+      links = addLinks(links, taken.found, index);
+      use(taken.found);
+      marked ||= taken.found.length > 0;
+      // A choice that is only a picture keeps its marker, so it is not dropped as blank
+      return taken.text || choice.trim();
+    });
+    // Matching prompts have no place for an image of their own
+    const pairs = item.pairs?.map(pair => {
+      const prompt = takeMarkers(pair.prompt, byLabel);
+      const match = takeMarkers(pair.match, byLabel);
+      links = addLinks(links, [...prompt.found, ...match.found]);
+      use([...prompt.found, ...match.found]);
+      marked ||= prompt.found.length + match.found.length > 0;
+      return { prompt: prompt.text, match: match.text };
+    });
+
+    if (!marked && links.length === (item.figures || []).length) return item;
+    return { ...item, question: question.text, choices, ...(pairs ? { pairs } : {}), figures: links };
+  });
+
+  return { ...result, items, passages, figures: figures.filter(figure => used.has(figure.id)) };
+};
+
+// Overlapping chunks carry the same figures
+export const mergeFigures = (existing: Figure[] = [], incoming: Figure[] = []): Figure[] => [
+  ...existing,
+  ...incoming.filter(figure => !existing.some(other => other.id === figure.id))
+];
@@ -0,0 +1,84 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'fs';
+import { File as NodeFile } from 'node:buffer';
+import { describe, expect, it, vi } from 'vitest';
+import { AnswerEvidence, AppLanguage, ExtractionResult, PdfProcessingMode, ProviderKind } from '../types';
+
+// pdf.js needs browser APIs Node lacks; the fixture is a text file, so it is never loaded
+vi.mock('./pdfPageReader', () => ({}));
+
+import { analyzeDocumentContent } from './extractionService';
+import { groupSourceRange, prepareDocument, tagSourceFile, tagSourceRange } from './extractionPipeline';
+import { createFixtureProvider, createRecordingProvider, FixtureSet } from './fixtureService';
+import { ExtractionProvider } from './extractionProvider';
+import { mergeExtractionResults } from './resultMerger';
+import { reconcileAnswerKey } from './answerKeyService';
+
+const FIXTURES = `${__dirname}/__fixtures__`;
+
+// jsdom's File has no text(), which the text reader uses
+const fixtureFile = (name: string): File =>
+  new NodeFile([readFileSync(`${FIXTURES}/${name}`)], name, { type: 'text/plain' }) as unknown as File;
+
+const recorded: FixtureSet = JSON.parse(readFileSync(`${FIXTURES}/nile-exam.responses.json`, 'utf8'));
+
+// Runs one file through the same steps the app does: local parsing, AI chunks, tagging, merging
+const extractFile = async (provider: ExtractionProvider, file: File): Promise<ExtractionResult> => {
+  const prepared = await prepareDocument(file, PdfProcessingMode.HYBRID);
+  let results = tagSourceFile({ items: prepared.parsedItems, passages: [], answerKey: prepared.answerKey }, 'file-1', file.name);
+  for await (const group of prepared.groups) {
+    results = mergeExtractionResults(results, tagSourceFile({ items: [], passages: [], answerKey: group.answerKey }, 'file-1', file.name));
+    const outcome = await analyzeDocumentContent(provider, group.pages, AppLanguage.AUTO);
+    expect(outcome.status).toBe('ok');
+    const range = groupSourceRange(group.pages);
+    results = mergeExtractionResults(results, tagSourceFile({
+      ...outcome.result,
+      items: tagSourceRange(outcome.result.items, range),
+      answerKey: tagSourceRange(outcome.result.answerKey || [], range)
+    }, 'file-1', file.name));
+  }
+  return reconcileAnswerKey(results);
+};
+
+describe('fixture replay', () => {
+  it('extracts a text exam from recorded responses', async () => {
+    const results = await extractFile(createFixtureProvider(recorded), fixtureFile('nile-exam.txt'));
+
+    expect(results.items.map(item => [item.questionNumber, item.correctAnswer])).toEqual([['1', 'B'], ['2', 'B'], ['3', 'C']]);
+    expect(results.passages).toHaveLength(1);
+    expect(results.items.every(item => item.passageId === results.passages[0].id)).toBe(true);
+    expect(results.items.every(item => item.sourceId === 'file-1' && item.sourceFile === 'nile-exam.txt')).toBe(true);
+
+    // The key read locally and the key the model returned are the same entries
+    expect(results.answerKey).toHaveLength(3);
+    const [first, second] = results.items;
+    expect(first).toMatchObject({ keyFilled: true, answerEvidence: AnswerEvidence.ANSWER_KEY });
+    expect(second.keyFilled).toBeUndefined();
+  });
+
+  it('fails the chunk when a request was not recorded', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const prepared = await prepareDocument(fixtureFile('nile-exam.txt'), PdfProcessingMode.HYBRID);
+    for await (const group of prepared.groups) {
+      const outcome = await analyzeDocumentContent(createFixtureProvider({}), group.pages, AppLanguage.AUTO);
+      expect(outcome.status).toBe('failed');
+      expect(outcome.message).toMatch(/No fixture recorded/);
+    }
+  });
+
+  it('replays what the recording provider captured', async () => {
+    const live: ExtractionProvider = {
+      kind: ProviderKind.GEMINI,
+      model: 'live',
+      generate: async () => Object.values(recorded)[0]
+    };
+    const fixtures: FixtureSet = {};
+    let recordCount = 0;
+    const recordedRun = await extractFile(createRecordingProvider(live, fixtures, () => recordCount++), fixtureFile('nile-exam.txt'));
+    expect(recordCount).toBe(1);
+    expect(fixtures).toEqual(recorded);
+
+    const replayed = await extractFile(createFixtureProvider(fixtures), fixtureFile('nile-exam.txt'));
+    expect(replayed.items.map(item => item.correctAnswer)).toEqual(recordedRun.items.map(item => item.correctAnswer));
+  });
+});
@@ -0,0 +1,42 @@
+import { ProviderKind } from '../types';
+import { ExtractionProvider, GenerationRequest } from './extractionProvider';
+
+// Recorded raw model responses, keyed by fixtureKey(request)
+export type FixtureSet = Record<string, string>;
+
+// FNV-1a over the request: stable across runs, cheap, and synchronous
+export const fixtureKey = (request: GenerationRequest): string => {
+  const input = JSON.stringify([request.systemInstruction, request.parts, request.responseSchema]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Replays recorded responses so the pipeline can run without network access or an API key
+export const createFixtureProvider = (fixtures: FixtureSet): ExtractionProvider => ({
+  kind: ProviderKind.FIXTURE,
+  model: 'fixture-replay',
+  async generate(request: GenerationRequest): Promise<string> {
+    request.signal?.throwIfAborted();
+    const key = fixtureKey(request);
+    if (!(key in fixtures)) {
+      throw new Error(`No fixture recorded for request ${key}.`);
+    }
+    return fixtures[key];
+  }
+});
+
+// Wraps a live provider and captures every response into `fixtures` for later replay
+export const createRecordingProvider = (inner: ExtractionProvider, fixtures: FixtureSet, onRecord?: () => void): ExtractionProvider => ({
+  kind: inner.kind,
+  model: inner.model,
+  async generate(request: GenerationRequest): Promise<string> {
+    const text = await inner.generate(request);
+    fixtures[fixtureKey(request)] = text;
+    onRecord?.();
+    return text;
+  }
+});
@@ -1,5 +1,9 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { McqData, AppLanguage } from '../types';
+import { GoogleGenAI } from "@google/genai";
+import { ChunkFailureReason, ProviderConfig, ProviderKind } from '../types';
+import { ExtractionProvider, GenerationRequest, ProviderError } from './extractionProvider';
+
+// Finish reasons that mean the content filters stopped the answer
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
 
 // Declare process for TypeScript in case it's not picked up globally
 declare var process: {
@@ -8,51 +12,10 @@ declare var process: {
   };
 };
 
-// Define the response schema strictly for the model
-const mcqSchema: Schema = {
-  type: Type.ARRAY,
-  items: {
-    type: Type.OBJECT,
-    properties: {
-      question: { type: Type.STRING, description: "Question text." },
-      choiceA: { type: Type.STRING, description: "Option A" },
-      choiceB: { type: Type.STRING, description: "Option B" },
-      choiceC: { type: Type.STRING, description: "Option C" },
-      choiceD: { type: Type.STRING, description: "Option D" },
-      choiceE: { type: Type.STRING, description: "Option E (optional)", nullable: true },
-      correctAnswer: { type: Type.STRING, description: "Correct letter (A-E). Empty if unknown.", nullable: true },
-      passage: { 
-        type: Type.STRING, 
-        description: "The FULL text of the reading passage or context. MUST be repeated for EVERY question linked to it.", 
-        nullable: true 
-      },
-    },
-    required: ["question", "choiceA", "choiceB", "choiceC", "choiceD"],
-  },
-};
-
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-async function generateWithRetry(ai: GoogleGenAI, params: any, retries = 3): Promise<any> {
-  for (let i = 0; i < retries; i++) {
-    try {
-      return await ai.models.generateContent(params);
-    } catch (error: any) {
-      const isRetryable = error.message?.includes('503') || error.message?.includes('429');
-      if (i === retries - 1 || !isRetryable) throw error;
-      await wait(1000 * Math.pow(2, i));
-    }
-  }
-}
-
-export const analyzeDocumentContent = async (
-  pages: string[], 
-  mimeType: string,
-  language: AppLanguage
-): Promise<McqData[]> => {
+export const createGeminiProvider = (config: ProviderConfig): ExtractionProvider => {
   // Use the standard process.env.API_KEY pattern
   // This works because we polyfilled 'process' in index.html for the browser
-  const apiKey = process.env.API_KEY;
+  const apiKey = config.apiKey || process.env.API_KEY;
 
   if (!apiKey) {
     console.error("Environment Configuration Error: process.env.API_KEY is missing");
@@ -60,71 +23,32 @@ export const analyzeDocumentContent = async (
   }
 
   const ai = new GoogleGenAI({ apiKey: apiKey });
-  // Using gemini-3-flash-preview for optimal speed/intelligence ratio for text tasks
-  const modelName = 'gemini-3-flash-preview';
-
-  let langInstruction = "";
-  if (language === AppLanguage.ARABIC) {
-    langInstruction = `Processing Arabic Document (RTL). Standardize numbers to Western (1,2,3). Standardize Arabic letters (أ,ب,ج,د) to (A,B,C,D).`;
-  }
-
-  // System instructions are more powerful than simple prompts
-  const systemInstruction = `
-    You are an expert Document Analysis AI specialized in extracting MCQs (Multiple Choice Questions) to structured JSON.
-    ${langInstruction}
-    
-    VISUAL DETECTION RULES (HIGHEST PRIORITY):
-    1. HIGHLIGHTS = CORRECT ANSWER: If an option has a background color (Yellow, Green, Gray, Pink), it IS the correct answer. This is the #1 signal.
-    2. MARKS: Checkmarks (✓), Circles around letters, or Colored text (e.g., Red) indicate correct answers.
-    3. STYLES: Bold or Underline (if only one option has it) indicates the answer.
 
-    EXTRACTION RULES:
-    1. EXTRACT ALL: Process the entire input batch. Extract every single question found. Do not summarize.
-    2. PASSAGE LINKING (CRITICAL): 
-       - If a text/story/passage appears, it applies to the questions that follow it.
-       - You MUST copy the FULL passage text into the "passage" field for EVERY question linked to it.
-       - Even if the passage was on Page 1 and the question is on Page 2, include the passage.
-    3. CLEANUP: Remove "Q1", "1.", "a)" prefixes from values.
-  `;
-
-  const contentParts = pages.map(p => ({
-    inlineData: { data: p, mimeType: mimeType }
-  }));
-
-  // Simple user prompt to trigger the system instruction
-  contentParts.push({ text: "Extract all MCQs from these pages into the specified JSON format." } as any);
-
-  try {
-    const response = await generateWithRetry(ai, {
-      model: modelName,
-      contents: {
-        parts: contentParts
-      },
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: mcqSchema,
-        temperature: 0.1, // Low temperature for deterministic results
-        thinkingConfig: { thinkingBudget: 0 } // Speed optimization
+  return {
+    kind: ProviderKind.GEMINI,
+    model: config.model,
+    async generate(request: GenerationRequest): Promise<string> {
+      const response = await ai.models.generateContent({
+        model: config.model,
+        contents: {
+          parts: request.parts
+        },
+        config: {
+          systemInstruction: request.systemInstruction,
+          responseMimeType: "application/json",
+          responseJsonSchema: request.responseSchema,
+          temperature: request.temperature,
+          abortSignal: request.signal,
+          thinkingConfig: { thinkingBudget: 0 } // Speed optimization
+        }
+      });
+      const blockReason = response.promptFeedback?.blockReason;
+      if (blockReason) throw new ProviderError(`Request blocked (${blockReason}).`, ChunkFailureReason.SAFETY);
+      const finishReason = String(response.candidates?.[0]?.finishReason || '');
+      if (BLOCKED_FINISH_REASONS.includes(finishReason)) {
+        throw new ProviderError(`Response blocked (${finishReason}).`, ChunkFailureReason.SAFETY);
       }
-    });
-
-    let rawText = response.text;
-    if (!rawText) return [];
-
-    rawText = rawText.replace(/```json/g, '').replace(/```/g, '').trim();
-    const parsed = JSON.parse(rawText);
-    
-    return parsed.map((item: any) => ({
-      ...item,
-      id: crypto.randomUUID(),
-      choiceE: item.choiceE || undefined,
-      passage: item.passage || undefined,
-      correctAnswer: item.correctAnswer ? item.correctAnswer.trim().toUpperCase().replace(/[^A-E]/g, '') : ''
-    }));
-
-  } catch (error: any) {
-    console.error("Gemini Extraction Error:", error);
-    return [];
-  }
-};
\ No newline at end of file
+      return response.text || '';
+    }
+  };
+};
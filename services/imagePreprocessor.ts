@@ -0,0 +1,213 @@
+import { ImagePreprocessing } from '../types';
+
+// Clean-up for photographed and scanned pages. Everything works on OffscreenCanvas, so it runs
+// on the main thread for photo uploads and inside the PDF render worker for scanned pages.
+
+export const DEFAULT_IMAGE_PREPROCESSING: ImagePreprocessing = {
+  enabled: true,
+  deskew: true,
+  crop: true,
+  normalizeContrast: true,
+  grayscale: false,
+  maxDimension: 2000
+};
+
+// Crop and skew are measured on a copy this size; the result is applied to the full image
+const ANALYSIS_SIZE = 800;
+const MAX_SKEW_DEGREES = 10;
+// A detected page smaller than this share of the image is more likely a misread than the page
+const MIN_CROP_AREA = 0.4;
+// Share of levels clipped at each end when stretching contrast
+const CONTRAST_CLIP = 0.01;
+
+type Box = { x: number; y: number; width: number; height: number };
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+const scaledCanvas = (source: CanvasImageSource, width: number, height: number, scale: number): OffscreenCanvas => {
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#FFFFFF';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const grayPixels = (canvas: OffscreenCanvas): Uint8ClampedArray => {
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Uint8ClampedArray(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) gray[i] = luminance(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+  return gray;
+};
+
+// Otsu's threshold: the level that best separates dark (ink, desk) from light (paper)
+const otsuThreshold = (gray: Uint8ClampedArray): number => {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+  const total = gray.length;
+  const sum = histogram.reduce((acc, count, level) => acc + count * level, 0);
+  let sumBelow = 0;
+  let countBelow = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let level = 0; level < 256; level++) {
+    countBelow += histogram[level];
+    if (countBelow === 0 || countBelow === total) continue;
+    sumBelow += histogram[level] * level;
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sum - sumBelow) / (total - countBelow);
+    const between = countBelow * (total - countBelow) * (meanBelow - meanAbove) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = level;
+    }
+  }
+  return threshold;
+};
+
+// The rows and columns that are mostly paper; the desk or scanner border around them is dropped
+const findPageBox = (gray: Uint8ClampedArray, width: number, height: number, threshold: number): Box => {
+  const isPaperRow = (y: number) => {
+    let paper = 0;
+    for (let x = 0; x < width; x++) if (gray[y * width + x] > threshold) paper++;
+    return paper > width / 2;
+  };
+  const isPaperColumn = (x: number, top: number, bottom: number) => {
+    let paper = 0;
+    for (let y = top; y <= bottom; y++) if (gray[y * width + x] > threshold) paper++;
+    return paper > (bottom - top + 1) / 2;
+  };
+
+  let top = 0;
+  while (top < height - 1 && !isPaperRow(top)) top++;
+  let bottom = height - 1;
+  while (bottom > top && !isPaperRow(bottom)) bottom--;
+  let left = 0;
+  while (left < width - 1 && !isPaperColumn(left, top, bottom)) left++;
+  let right = width - 1;
+  while (right > left && !isPaperColumn(right, top, bottom)) right--;
+
+  const box = { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+  return box.width * box.height < MIN_CROP_AREA * width * height ? { x: 0, y: 0, width, height } : box;
+};
+
+// Text lines make the row profile of ink pixels spiky when the page is level; the angle with the
+// spikiest profile is the skew. Searched coarsely, then refined around the best coarse angle.
+const findSkewDegrees = (gray: Uint8ClampedArray, width: number, box: Box, threshold: number): number => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = box.y; y < box.y + box.height; y++) {
+    for (let x = box.x; x < box.x + box.width; x++) {
+      if (gray[y * width + x] < threshold) {
+        xs.push(x - box.x);
+        ys.push(y - box.y);
+      }
+    }
+  }
+  if (xs.length < 100) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(box.width, box.height));
+  const score = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const bins = new Float64Array(diagonal * 2 + 1);
+    for (let i = 0; i < xs.length; i++) bins[Math.round(ys[i] * cos - xs[i] * sin) + diagonal]++;
+    let total = 0;
+    for (let i = 0; i < bins.length; i++) total += bins[i] * bins[i];
+    return total;
+  };
+
+  const search = (from: number, to: number, step: number) => {
+    let best = 0;
+    let bestScore = -1;
+    for (let degrees = from; degrees <= to + 1e-9; degrees += step) {
+      const value = score(degrees);
+      if (value > bestScore) {
+        bestScore = value;
+        best = degrees;
+      }
+    }
+    return best;
+  };
+
+  const coarse = search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 0.5);
+  return search(coarse - 0.5, coarse + 0.5, 0.1);
+};
+
+// Stretches levels so the darkest ink is black and the paper white. Each channel gets the same
+// mapping, so coloured highlights keep their hue.
+const adjustLevels = (canvas: OffscreenCanvas, options: ImagePreprocessing) => {
+  const context = canvas.getContext('2d')!;
+  const image = context.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+
+  let low = 0;
+  let high = 255;
+  if (options.normalizeContrast) {
+    const histogram = new Array(256).fill(0);
+    for (let i = 0; i < data.length; i += 4) histogram[Math.round(luminance(data[i], data[i + 1], data[i + 2]))]++;
+    const clip = (data.length / 4) * CONTRAST_CLIP;
+    for (let seen = 0; low < 255 && seen + histogram[low] <= clip; low++) seen += histogram[low];
+    for (let seen = 0; high > 0 && seen + histogram[high] <= clip; high--) seen += histogram[high];
+    if (high - low < 32) {
+      low = 0;
+      high = 255;
+    }
+  }
+  const scale = 255 / (high - low);
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = (data[i] - low) * scale;
+    let g = (data[i + 1] - low) * scale;
+    let b = (data[i + 2] - low) * scale;
+    if (options.grayscale) r = g = b = luminance(r, g, b);
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+  context.putImageData(image, 0, 0);
+};
+
+// Downscales, crops, straightens and adjusts an image. With preprocessing off, only downscales.
+export const preprocessImage = (source: CanvasImageSource, width: number, height: number, options: ImagePreprocessing): OffscreenCanvas => {
+  const scale = Math.min(1, options.maxDimension / Math.max(width, height));
+  if (!options.enabled) return scaledCanvas(source, width, height, scale);
+
+  const analysisScale = Math.min(1, ANALYSIS_SIZE / Math.max(width, height));
+  const analysis = scaledCanvas(source, width, height, analysisScale);
+  const gray = grayPixels(analysis);
+  const threshold = otsuThreshold(gray);
+  const box = options.crop ? findPageBox(gray, analysis.width, analysis.height, threshold) : { x: 0, y: 0, width: analysis.width, height: analysis.height };
+  const skew = options.deskew ? findSkewDegrees(gray, analysis.width, box, threshold) : 0;
+
+  // Crop box in source pixels
+  const cropX = box.x / analysisScale;
+  const cropY = box.y / analysisScale;
+  const cropWidth = box.width / analysisScale;
+  const cropHeight = box.height / analysisScale;
+
+  const output = new OffscreenCanvas(Math.max(1, Math.round(cropWidth * scale)), Math.max(1, Math.round(cropHeight * scale)));
+  const context = output.getContext('2d')!;
+  context.fillStyle = '#FFFFFF';
+  context.fillRect(0, 0, output.width, output.height);
+  context.translate(output.width / 2, output.height / 2);
+  // Ignore rotations too small to matter; they only blur the text
+  if (Math.abs(skew) >= 0.2) context.rotate((-skew * Math.PI) / 180);
+  context.drawImage(source, cropX, cropY, cropWidth, cropHeight, -output.width / 2, -output.height / 2, output.width, output.height);
+  context.setTransform(1, 0, 0, 1, 0, 0);
+
+  if (options.normalizeContrast || options.grayscale) adjustLevels(output, options);
+  return output;
+};
+
+export const encodeJpeg = async (canvas: OffscreenCanvas, quality = 0.8): Promise<string> => {
+  const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  // Spread in slices; String.fromCharCode(...bytes) overflows the stack on large pages
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
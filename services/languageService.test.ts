@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { AppLanguage } from '../types';
+import { detectLanguage, detectLanguages, normalizeRtlText, stripBidiControls, textDirection, toWesternDigits } from './languageService';
+
+describe('toWesternDigits', () => {
+  it('converts Arabic-Indic and Persian digits and leaves Western ones', () => {
+    expect(toWesternDigits('السؤال ١٢ من ٣٠')).toBe('السؤال 12 من 30');
+    expect(toWesternDigits('سوال ۴۵ و ۰۹')).toBe('سوال 45 و 09');
+    expect(toWesternDigits('Q7: ٧ = 7')).toBe('Q7: 7 = 7');
+  });
+});
+
+describe('stripBidiControls', () => {
+  it('drops direction marks, embeddings and isolates but keeps the text', () => {
+    expect(stripBidiControls('‏العدد‎ 42‪ ABC‬ ⁧x⁩؜')).toBe('العدد 42 ABC x');
+  });
+
+  it('normalizes right-to-left text in one go', () => {
+    expect(normalizeRtlText('‏ص ١٠‏')).toBe('ص 10');
+  });
+});
+
+describe('detectLanguage', () => {
+  it('tells the Arabic-script languages apart by their own letters', () => {
+    expect(detectLanguage('ما هي عاصمة فرنسا؟')).toBe(AppLanguage.ARABIC);
+    expect(detectLanguage('پایتخت فرانسه کجاست؟')).toBe(AppLanguage.PERSIAN);
+    expect(detectLanguage('فرانس کا دارالحکومت کون سا ہے؟')).toBe(AppLanguage.URDU);
+  });
+
+  it('tells English from French', () => {
+    expect(detectLanguage('Which of the following is the capital of France?')).toBe(AppLanguage.ENGLISH);
+    expect(detectLanguage('Quelle est la capitale de la France ?')).toBe(AppLanguage.FRENCH);
+  });
+
+  it('ignores math and markup, and gives up on too few letters', () => {
+    expect(detectLanguage('احسب $x^2 + y^2 = z^2$ <b>bold</b>')).toBe(AppLanguage.ARABIC);
+    expect(detectLanguage('12 + 7 = ?')).toBeUndefined();
+  });
+});
+
+describe('detectLanguages', () => {
+  it('finds both languages of a bilingual document, dominant first', () => {
+    const arabic = 'ما هي عاصمة فرنسا؟ اختر الإجابة الصحيحة من بين الخيارات التالية';
+    const english = 'Which of the following is the capital of France?';
+    expect(detectLanguages(`${arabic}\n${english}`)).toEqual([AppLanguage.ARABIC, AppLanguage.ENGLISH]);
+    expect(detectLanguages(`${english}\nما هي عاصمة فرنسا؟ اختر الإجابة`)).toEqual([AppLanguage.ENGLISH, AppLanguage.ARABIC]);
+  });
+
+  it('keeps a few borrowed words from counting as a second language', () => {
+    expect(detectLanguages('ما هو الرمز الكيميائي للماء في الجدول الدوري؟ H2O')).toEqual([AppLanguage.ARABIC]);
+    expect(detectLanguages('')).toEqual([]);
+  });
+});
+
+describe('textDirection', () => {
+  it('follows the script most of the letters are in', () => {
+    expect(textDirection('ما هي عاصمة France؟')).toBe('rtl');
+    expect(textDirection('The word سلام means peace')).toBe('ltr');
+    expect(textDirection('$x + y$ = 3')).toBe('ltr');
+  });
+});
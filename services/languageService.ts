@@ -0,0 +1,85 @@
+import { AppLanguage } from '../types';
+
+// Script-based language detection and the deterministic cleanup of right-to-left text.
+// Detection only needs to be good enough to pick prompt hints and text direction, so it
+// counts letters per script instead of shipping a language model.
+
+export const RTL_LANGUAGES: AppLanguage[] = [AppLanguage.ARABIC, AppLanguage.URDU, AppLanguage.PERSIAN];
+
+// Letters used by Urdu or Persian but not by Arabic; Urdu has its own on top of the Persian ones
+const URDU_LETTERS = /[ٹڈڑںےۓھہ]/g;
+const PERSIAN_LETTERS = /[پچژگکی]/g;
+const ARABIC_SCRIPT = /[؀-ۿݐ-ݿﭐ-﷿ﹰ-﻿]/g;
+const ARABIC_LETTER = /[ء-يٮ-ۓۺ-ۿݐ-ݿ]/g;
+const LATIN_LETTER = /[A-Za-zÀ-ɏ]/g;
+const FRENCH_LETTERS = /[àâæçéèêëîïôœùûüÿ]/gi;
+const FRENCH_WORDS = /\b(?:le|la|les|des|du|est|une|et|que|qui|dans|pour|avec|sont|quel|quelle|laquelle|parmi|vrai|faux|réponse)\b/gi;
+const ENGLISH_WORDS = /\b(?:the|is|are|of|and|which|what|with|for|following|true|false|answer)\b/gi;
+
+// Left-to-right/right-to-left marks, embeddings, overrides and isolates
+const BIDI_CONTROLS = /[‎‏؜‪-‮⁦-⁩]/g;
+
+// Math, code and figure markers say nothing about the language around them
+const NEUTRAL_SPANS = /\$\$[\s\S]*?\$\$|\$[^$\n]*\$|`[^`\n]*`|\[Figure [^\]]*\]|<[^>]+>|&[a-z]+;/g;
+
+const count = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+// Smallest share of a script's letters for a text to count as written in it
+const MIN_SCRIPT_SHARE = 0.3;
+
+// Arabic-Indic ("٠١٢") and Extended Arabic-Indic ("۰۱۲", Persian and Urdu) digits -> "012"
+export const toWesternDigits = (text: string): string =>
+  text
+    .replace(/[٠-٩]/g, digit => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, digit => String(digit.charCodeAt(0) - 0x06f0));
+
+export const stripBidiControls = (text: string): string => text.replace(BIDI_CONTROLS, '');
+
+// What the extracted text of a right-to-left document is normalized to: Western digits and no
+// invisible direction controls, which PDFs and Word insert around numbers and Latin words
+export const normalizeRtlText = (text: string): string => stripBidiControls(toWesternDigits(text));
+
+// The dominant language of `text`, or undefined when it has too few letters to tell
+export const detectLanguage = (text: string): AppLanguage | undefined => {
+  const plain = text.replace(NEUTRAL_SPANS, ' ');
+  const arabic = count(plain, ARABIC_LETTER);
+  const latin = count(plain, LATIN_LETTER);
+  if (arabic + latin < 3) return undefined;
+
+  if (arabic >= latin) {
+    const urdu = count(plain, URDU_LETTERS);
+    const persian = count(plain, PERSIAN_LETTERS);
+    if (urdu > 0 && urdu >= arabic * 0.01) return AppLanguage.URDU;
+    if (persian > 0 && persian >= arabic * 0.02) return AppLanguage.PERSIAN;
+    return AppLanguage.ARABIC;
+  }
+
+  const french = count(plain, FRENCH_LETTERS) + count(plain, FRENCH_WORDS) * 2;
+  return french > count(plain, ENGLISH_WORDS) * 2 ? AppLanguage.FRENCH : AppLanguage.ENGLISH;
+};
+
+// Every language that makes up a real share of `text`, dominant first. A bilingual exam
+// (Arabic questions with English terms, or whole sections in both) yields two.
+export const detectLanguages = (text: string): AppLanguage[] => {
+  const plain = text.replace(NEUTRAL_SPANS, ' ');
+  const arabic = count(plain, ARABIC_LETTER);
+  const latin = count(plain, LATIN_LETTER);
+  const total = arabic + latin;
+  const dominant = detectLanguage(text);
+  if (!dominant) return [];
+  const rtl = isRtlLanguage(dominant);
+  const other = rtl ? latin : arabic;
+  if (other / total < MIN_SCRIPT_SHARE) return [dominant];
+  // Detect the minority language from its own letters only
+  const minority = detectLanguage(rtl ? plain.replace(ARABIC_SCRIPT, ' ') : plain.replace(LATIN_LETTER, ' '));
+  return minority && minority !== dominant ? [dominant, minority] : [dominant];
+};
+
+export const isRtlLanguage = (language?: AppLanguage): boolean => !!language && RTL_LANGUAGES.includes(language);
+
+// Direction for showing `text`: right-to-left when most of its letters are Arabic script
+export const textDirection = (text: string): 'rtl' | 'ltr' => {
+  const plain = text.replace(NEUTRAL_SPANS, ' ');
+  const arabic = count(plain, ARABIC_LETTER);
+  return arabic > 0 && arabic >= count(plain, LATIN_LETTER) ? 'rtl' : 'ltr';
+};
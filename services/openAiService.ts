@@ -0,0 +1,80 @@
+import { ChunkFailureReason, ProviderConfig, ProviderKind } from '../types';
+import { ContentPart, ExtractionProvider, GenerationRequest, JsonSchema, ProviderError } from './extractionProvider';
+import { stripJsonFences } from './extractionService';
+import { decodeTextChunk } from './textEncoding';
+
+const toMessageContent = (part: ContentPart) => {
+  if ('text' in part) return { type: 'text', text: part.text };
+
+  const { data, mimeType } = part.inlineData;
+  if (mimeType.startsWith('image/')) {
+    return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+  }
+  // Chat completion endpoints only take text and images, so textual documents are inlined
+  return { type: 'text', text: decodeTextChunk(data) };
+};
+
+// Structured-output endpoints require an object at the root, so array schemas are wrapped
+const wrapSchema = (schema: JsonSchema): JsonSchema => (
+  schema.type === 'object'
+    ? schema
+    : { type: 'object', properties: { items: schema }, required: ['items'] }
+);
+
+// Talks to any /chat/completions endpoint: OpenAI, Ollama, llama.cpp server, vLLM, LM Studio...
+export const createOpenAiCompatibleProvider = (config: ProviderConfig): ExtractionProvider => {
+  if (!config.baseUrl) {
+    throw new Error("Endpoint URL is missing. Please configure the OpenAI-compatible base URL.");
+  }
+
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    kind: ProviderKind.OPENAI_COMPATIBLE,
+    model: config.model,
+    async generate(request: GenerationRequest): Promise<string> {
+      const schema = wrapSchema(request.responseSchema);
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        signal: request.signal,
+        body: JSON.stringify({
+          model: config.model,
+          temperature: request.temperature,
+          messages: [
+            { role: 'system', content: request.systemInstruction },
+            { role: 'user', content: request.parts.map(toMessageContent) }
+          ],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'extraction', schema }
+          }
+        })
+      });
+
+      if (!response.ok) {
+        // Keep the status code in the message so generateWithRetry can detect 429/503
+        const detail = await response.text().catch(() => '');
+        throw new Error(`Provider request failed (${response.status}): ${detail.slice(0, 200)}`);
+      }
+
+      const json = await response.json();
+      if (json.choices?.[0]?.finish_reason === 'content_filter') {
+        throw new ProviderError('Response blocked by the content filter.', ChunkFailureReason.SAFETY);
+      }
+      const content: string = json.choices?.[0]?.message?.content || '';
+      if (!content || schema === request.responseSchema) return content;
+
+      // Unwrap so callers always receive the shape they asked for
+      try {
+        const parsed = JSON.parse(stripJsonFences(content));
+        return JSON.stringify(Array.isArray(parsed) ? parsed : parsed.items ?? []);
+      } catch {
+        return content;
+      }
+    }
+  };
+};
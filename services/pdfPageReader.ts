@@ -0,0 +1,401 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { Figure, ImagePreprocessing, PdfPage, PdfProcessingMode, SourceRange } from '../types';
+import { encodeTextChunk } from './textEncoding';
+import { encodeJpeg, preprocessImage } from './imagePreprocessor';
+import { figureMarker } from './figureService';
+
+// Page reading shared by the render worker and the main thread (source previews).
+// Nothing here touches the DOM, so it runs in either.
+
+// PDF.js Initialization - Robust handling for ESM environments
+export let getDocument: any = null;
+let OPS: any = null;
+
+try {
+  // Try to resolve the library in various ways to support different bundlers/ESM environments
+  const lib = pdfjsLib as any;
+  getDocument = lib.getDocument || lib.default?.getDocument;
+  OPS = lib.OPS || lib.default?.OPS;
+
+  const GlobalWorkerOptions = lib.GlobalWorkerOptions || lib.default?.GlobalWorkerOptions;
+
+  if (GlobalWorkerOptions) {
+    // The bundled worker, so PDFs still open offline
+    GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  }
+} catch (e) {
+  console.error("Critical: PDF.js failed to initialize.", e);
+}
+
+// Messages between documentProcessor and pdfRenderWorker
+export type PdfWorkerRequest =
+  | { type: 'open'; file: File; mode: PdfProcessingMode; preprocessing: ImagePreprocessing; readAhead: number }
+  | { type: 'pull' }; // The reader consumed a page, so one more may be read ahead
+
+export type PdfWorkerResponse =
+  | { type: 'opened'; pageCount: number }
+  | { type: 'page'; page: PdfPage }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+// A page needs at least this much readable text before its text layer is trusted over OCR
+const MIN_TEXT_CHARS = 200;
+const MIN_TEXT_QUALITY = 0.9;
+
+// Figure regions, in PDF points. Smaller drawings are bullets, rules and icons; larger ones are
+// page backgrounds or whole-page scans. Regions with more text than a diagram's labels are text boxes.
+const MIN_FIGURE_SIZE = 40;
+const MAX_FIGURE_AREA = 0.6;
+const MAX_FIGURE_TEXT = 80;
+// Drawings closer than this are parts of one figure
+const FIGURE_GAP = 10;
+const MAX_FIGURES_PER_PAGE = 8;
+const FIGURE_SCALE = 2;
+
+// x1, y1, x2, y2 in PDF user space, the space text items are positioned in
+type Box = [number, number, number, number];
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Share of characters that are real text rather than unmapped glyphs (broken ToUnicode maps)
+const textQuality = (text: string): number => {
+  const chars = text.replace(/\s/g, '');
+  if (chars.length === 0) return 0;
+  const broken = chars.match(/[\uFFFD\uE000-\uF8FF\u0000-\u001F]/g)?.length || 0;
+  return 1 - broken / chars.length;
+};
+
+const pageSource = (pageNumber: number): SourceRange => ({ kind: 'pdf', start: pageNumber, end: pageNumber });
+
+// Renders on an OffscreenCanvas, which works the same on the main thread and in a worker
+const renderPageCanvas = async (page: any, scale: number): Promise<OffscreenCanvas | null> => {
+  const viewport = page.getViewport({ scale });
+  const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  const context = canvas.getContext('2d');
+
+  if (!context) return null;
+
+  context.fillStyle = '#FFFFFF';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  await page.render({
+    canvasContext: context,
+    viewport: viewport
+  }).promise;
+
+  return canvas;
+};
+
+export const renderPageImage = async (page: any, scale = 1.5): Promise<string> => {
+  const canvas = await renderPageCanvas(page, scale);
+  return canvas ? encodeJpeg(canvas) : '';
+};
+
+type Matrix = number[];
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+const boundingBox = (points: number[][], m: Matrix): Box | null => {
+  if (points.length === 0) return null;
+  const xs = points.map(([x, y]) => m[0] * x + m[2] * y + m[4]);
+  const ys = points.map(([x, y]) => m[1] * x + m[3] * y + m[5]);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+};
+
+const inBox = ([x1, y1, x2, y2]: Box, x: number, y: number) => x >= x1 && x <= x2 && y >= y1 && y <= y2;
+
+// The points of a constructPath, and whether it draws anything besides straight horizontal and
+// vertical lines. Table borders, underlines and answer boxes are only those, and are not figures.
+const pathPoints = (ops: number[], coords: number[]): { points: number[][]; drawing: boolean } => {
+  const points: number[][] = [];
+  let drawing = false;
+  let x = 0;
+  let y = 0;
+  let j = 0;
+  for (const op of ops) {
+    switch (op) {
+      case OPS.rectangle: {
+        const [rx, ry, width, height] = coords.slice(j, j + 4);
+        points.push([rx, ry], [rx + width, ry + height]);
+        [x, y] = [rx, ry];
+        j += 4;
+        break;
+      }
+      case OPS.moveTo:
+        [x, y] = [coords[j], coords[j + 1]];
+        points.push([x, y]);
+        j += 2;
+        break;
+      case OPS.lineTo: {
+        const [nx, ny] = [coords[j], coords[j + 1]];
+        if (Math.abs(nx - x) > 1 && Math.abs(ny - y) > 1) drawing = true;
+        points.push([nx, ny]);
+        [x, y] = [nx, ny];
+        j += 2;
+        break;
+      }
+      case OPS.curveTo:
+        points.push([coords[j], coords[j + 1]], [coords[j + 2], coords[j + 3]], [coords[j + 4], coords[j + 5]]);
+        [x, y] = [coords[j + 4], coords[j + 5]];
+        drawing = true;
+        j += 6;
+        break;
+      case OPS.curveTo2:
+      case OPS.curveTo3:
+        points.push([coords[j], coords[j + 1]], [coords[j + 2], coords[j + 3]]);
+        [x, y] = [coords[j + 2], coords[j + 3]];
+        drawing = true;
+        j += 4;
+        break;
+    }
+  }
+  return { points, drawing };
+};
+
+// Joins boxes that touch or nearly touch, until none do
+const mergeBoxes = (boxes: Box[]): Box[] => {
+  const merged = [...boxes];
+  for (let changed = true; changed;) {
+    changed = false;
+    for (let i = 0; i < merged.length && !changed; i++) {
+      for (let j = i + 1; j < merged.length && !changed; j++) {
+        const [a, b] = [merged[i], merged[j]];
+        if (a[0] - FIGURE_GAP <= b[2] && b[0] - FIGURE_GAP <= a[2] && a[1] - FIGURE_GAP <= b[3] && b[1] - FIGURE_GAP <= a[3]) {
+          merged[i] = [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])];
+          merged.splice(j, 1);
+          changed = true;
+        }
+      }
+    }
+  }
+  return merged;
+};
+
+// Finds the images and vector drawings on a page, top to bottom. Their numbering (from 1, in this
+// order) is the figure label suffix: the second figure on page 4 is "4.2".
+const findFigureRegions = async (page: any): Promise<Box[]> => {
+  if (!OPS) return [];
+  const { fnArray, argsArray } = await page.getOperatorList();
+  const boxes: Box[] = [];
+  const stack: Matrix[] = [];
+  let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const args = argsArray[i];
+    switch (fnArray[i]) {
+      case OPS.save:
+        stack.push(ctm);
+        break;
+      case OPS.restore:
+        ctm = stack.pop() ?? ctm;
+        break;
+      case OPS.transform:
+        ctm = multiply(ctm, args);
+        break;
+      case OPS.paintFormXObjectBegin:
+        stack.push(ctm);
+        // The form matrix may be a typed array
+        if (args?.[0]) ctm = multiply(ctm, Array.from(args[0]));
+        break;
+      case OPS.paintFormXObjectEnd:
+        ctm = stack.pop() ?? ctm;
+        break;
+      case OPS.paintImageXObject:
+      case OPS.paintInlineImageXObject:
+      case OPS.paintImageMaskXObject: {
+        // Images are drawn into the unit square of the current transform
+        const box = boundingBox([[0, 0], [1, 1], [0, 1], [1, 0]], ctm);
+        if (box) boxes.push(box);
+        break;
+      }
+      case OPS.constructPath: {
+        const { points, drawing } = pathPoints(args[0], args[1]);
+        const box = drawing ? boundingBox(points, ctm) : null;
+        if (box) boxes.push(box);
+        break;
+      }
+    }
+  }
+
+  const [px1, py1, px2, py2] = page.view as Box;
+  const pageArea = (px2 - px1) * (py2 - py1);
+  const content = await page.getTextContent();
+  const textIn = (box: Box) => content.items
+    .filter((item: any) => typeof item.str === 'string' && inBox(box, item.transform[4] + (item.width || 0) / 2, item.transform[5] + (item.height || 0) / 2))
+    .reduce((total: number, item: any) => total + item.str.trim().length, 0);
+
+  return mergeBoxes(boxes)
+    .map(([x1, y1, x2, y2]): Box => [Math.max(x1, px1), Math.max(y1, py1), Math.min(x2, px2), Math.min(y2, py2)])
+    .filter(([x1, y1, x2, y2]) => x2 - x1 >= MIN_FIGURE_SIZE && y2 - y1 >= MIN_FIGURE_SIZE && (x2 - x1) * (y2 - y1) <= MAX_FIGURE_AREA * pageArea)
+    .filter(box => textIn(box) <= MAX_FIGURE_TEXT)
+    .sort((a, b) => b[3] - a[3] || a[0] - b[0])
+    .slice(0, MAX_FIGURES_PER_PAGE);
+};
+
+const figureLabel = (pageNumber: number, index: number) => `${pageNumber}.${index + 1}`;
+
+// Canvas pixel rectangle of a region rendered at `scale`
+const regionRect = (page: any, scale: number, box: Box) => {
+  const [x1, y1, x2, y2] = page.getViewport({ scale }).convertToViewportRectangle(box);
+  const x = Math.max(0, Math.floor(Math.min(x1, x2)));
+  const y = Math.max(0, Math.floor(Math.min(y1, y2)));
+  return { x, y, width: Math.ceil(Math.abs(x2 - x1)), height: Math.ceil(Math.abs(y2 - y1)) };
+};
+
+const cropFigures = (page: any, canvas: OffscreenCanvas, scale: number, regions: Box[], pageNumber: number): Promise<Figure[]> =>
+  Promise.all(regions.map(async (box, index) => {
+    const rect = regionRect(page, scale, box);
+    const width = Math.max(1, Math.min(rect.width, canvas.width - rect.x));
+    const height = Math.max(1, Math.min(rect.height, canvas.height - rect.y));
+    const crop = new OffscreenCanvas(width, height);
+    crop.getContext('2d')!.drawImage(canvas, rect.x, rect.y, width, height, 0, 0, width, height);
+    return { id: crypto.randomUUID(), label: figureLabel(pageNumber, index), mimeType: 'image/jpeg', data: await encodeJpeg(crop, 0.9) };
+  }));
+
+// Writes each region's label over its top-left corner, so the model can name it from the image
+const drawFigureLabels = (page: any, canvas: OffscreenCanvas, scale: number, regions: Box[], pageNumber: number) => {
+  const context = canvas.getContext('2d')!;
+  const fontSize = Math.round(10 * scale);
+  context.font = `bold ${fontSize}px sans-serif`;
+  context.textBaseline = 'top';
+  regions.forEach((box, index) => {
+    const { x, y } = regionRect(page, scale, box);
+    const label = figureMarker(figureLabel(pageNumber, index));
+    const width = context.measureText(label).width + fontSize / 2;
+    context.fillStyle = '#FFFFFF';
+    context.fillRect(x, y, width, fontSize * 1.4);
+    context.strokeStyle = '#000000';
+    context.strokeRect(x, y, width, fontSize * 1.4);
+    context.fillStyle = '#000000';
+    context.fillText(label, x + fontSize / 4, y + fontSize * 0.2);
+  });
+};
+
+// Rebuilds the text layer as HTML lines, keeping bold and highlighted runs as answer signals.
+// Text inside figure regions (diagram labels) is left out, and each figure gets a marker line.
+const extractPageHtml = async (page: any, pageNumber: number, regions: Box[]): Promise<{ html: string; text: string }> => {
+  // The operator list loads the page fonts, which is where bold weights are known
+  await page.getOperatorList();
+  const content = await page.getTextContent();
+  const annotations = await page.getAnnotations();
+  const highlights: number[][] = annotations
+    .filter((a: any) => a.subtype === 'Highlight' && Array.isArray(a.rect))
+    .map((a: any) => a.rect);
+
+  const isBold = (fontName: string): boolean => {
+    if (!page.commonObjs.has(fontName)) return false;
+    const font = page.commonObjs.get(fontName);
+    return !!font?.bold || !!font?.black || /bold|black|heavy/i.test(font?.name || '');
+  };
+
+  const isHighlighted = (x: number, y: number, width: number, height: number): boolean => {
+    const cx = x + width / 2;
+    const cy = y + height / 2;
+    return highlights.some(([x1, y1, x2, y2]) => cx >= x1 && cx <= x2 && cy >= y1 && cy <= y2);
+  };
+
+  type Run = { x: number; y: number; height: number; html: string; text: string };
+  const runs: Run[] = content.items
+    .filter((item: any) => typeof item.str === 'string' && item.str.trim().length > 0)
+    .filter((item: any) => !regions.some(box => inBox(box, item.transform[4] + (item.width || 0) / 2, item.transform[5] + (item.height || 0) / 2)))
+    .map((item: any) => {
+      const [, , , , x, y] = item.transform;
+      let html = escapeHtml(item.str);
+      if (isBold(item.fontName)) html = `<strong>${html}</strong>`;
+      if (isHighlighted(x, y, item.width, item.height)) html = `<mark>${html}</mark>`;
+      return { x, y, height: item.height || 10, html, text: item.str };
+    });
+
+  // Group runs into visual lines: top to bottom, then left to right
+  runs.sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: Run[][] = [];
+  for (const run of runs) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line[0].y - run.y) <= Math.max(2, line[0].height * 0.5)) {
+      line.push(run);
+    } else {
+      lines.push([run]);
+    }
+  }
+
+  const body = [
+    ...lines.map(line => ({ y: line[0].y, html: `<p>${line.sort((a, b) => a.x - b.x).map(run => run.html).join(' ')}</p>` })),
+    ...regions.map((box, index) => ({ y: box[3], html: `<p>${figureMarker(figureLabel(pageNumber, index))}</p>` }))
+  ]
+    .sort((a, b) => b.y - a.y)
+    .map(entry => entry.html)
+    .join('\n');
+  const text = lines.map(line => line.map(run => run.text).join(' ')).join('\n');
+
+  return { html: `<section data-page="${pageNumber}">\n${body}\n</section>`, text };
+};
+
+
+// Reads one page: its text layer as HTML when usable (hybrid mode), otherwise a JPEG of the page
+// Rendered pages go through `preprocessing` like photos do. Figures on the page are cropped out
+// and marked in the text, or labelled on the image.
+export const readPdfPage = async (pdf: any, pageNumber: number, mode: PdfProcessingMode, preprocessing: ImagePreprocessing): Promise<PdfPage> => {
+  const page = await pdf.getPage(pageNumber);
+  const regions = await findFigureRegions(page);
+
+  if (mode === PdfProcessingMode.HYBRID) {
+    const { html, text } = await extractPageHtml(page, pageNumber, regions);
+    const readable = text.replace(/\s/g, '').length;
+    if (readable >= MIN_TEXT_CHARS && textQuality(text) >= MIN_TEXT_QUALITY) {
+      const figureCanvas = regions.length > 0 ? await renderPageCanvas(page, FIGURE_SCALE) : null;
+      const figures = figureCanvas ? await cropFigures(page, figureCanvas, FIGURE_SCALE, regions, pageNumber) : [];
+      return { pageNumber, path: 'text', mimeType: 'text/html', data: encodeTextChunk(html), source: pageSource(pageNumber), figures };
+    }
+  }
+
+  const canvas = await renderPageCanvas(page, 1.5);
+  if (!canvas) throw new Error(`Page ${pageNumber} could not be rendered.`);
+  const figures = await cropFigures(page, canvas, 1.5, regions, pageNumber);
+  drawFigureLabels(page, canvas, 1.5, regions, pageNumber);
+  const image = await encodeJpeg(preprocessImage(canvas, canvas.width, canvas.height, preprocessing));
+  return { pageNumber, path: 'image', mimeType: 'image/jpeg', data: image, source: pageSource(pageNumber), figures };
+};
+
+// Canvas and filter factories for pdf.js outside the DOM; its defaults create <canvas> and <svg> elements
+export class OffscreenCanvasFactory {
+  constructor(_options: unknown) {}
+
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+  }
+
+  reset(target: { canvas: OffscreenCanvas }, width: number, height: number) {
+    target.canvas.width = width;
+    target.canvas.height = height;
+  }
+
+  destroy(target: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (target.canvas) {
+      target.canvas.width = 0;
+      target.canvas.height = 0;
+    }
+    target.canvas = null;
+    target.context = null;
+  }
+}
+
+// Colour filters only matter for high-contrast display, never for extraction
+export class NoFilterFactory {
+  constructor(_options: unknown) {}
+  addFilter() { return 'none'; }
+  addHCMFilter() { return 'none'; }
+  addAlphaFilter() { return 'none'; }
+  addLuminosityFilter() { return 'none'; }
+  addHighlightHCMFilter() { return 'none'; }
+  destroy() {}
+}
@@ -0,0 +1,53 @@
+import { ImagePreprocessing, PdfProcessingMode } from '../types';
+import { NoFilterFactory, OffscreenCanvasFactory, PdfWorkerRequest, PdfWorkerResponse, getDocument, readPdfPage } from './pdfPageReader';
+
+// Reads PDF pages off the main thread and posts them in page order. It stays at most
+// `readAhead` pages ahead of what the reader has pulled, so a long PDF is never held in memory whole.
+
+const post = (message: PdfWorkerResponse) => self.postMessage(message);
+
+let allowedPages = 0;
+let wake: (() => void) | null = null;
+
+const waitForTurn = async (pageNumber: number) => {
+  while (pageNumber > allowedPages) {
+    await new Promise<void>(resolve => { wake = resolve; });
+  }
+};
+
+const readDocument = async (file: File, mode: PdfProcessingMode, preprocessing: ImagePreprocessing, readAhead: number) => {
+  if (!getDocument) {
+    throw new Error("PDF processing engine failed to load. Please refresh the page.");
+  }
+  allowedPages = readAhead;
+
+  const pdf = await getDocument({
+    data: await file.arrayBuffer(),
+    CanvasFactory: OffscreenCanvasFactory,
+    FilterFactory: NoFilterFactory,
+    // Embedded fonts are registered on the worker's own font set
+    ownerDocument: { fonts: (self as any).fonts }
+  }).promise;
+  post({ type: 'opened', pageCount: pdf.numPages });
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    await waitForTurn(pageNumber);
+    post({ type: 'page', page: await readPdfPage(pdf, pageNumber, mode, preprocessing) });
+  }
+  post({ type: 'done' });
+  await pdf.destroy();
+};
+
+self.onmessage = (event: MessageEvent<PdfWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'pull') {
+    allowedPages++;
+    wake?.();
+    wake = null;
+    return;
+  }
+  readDocument(request.file, request.mode, request.preprocessing, request.readAhead).catch((error: any) => {
+    console.error("PDF Render Error:", error);
+    post({ type: 'error', message: `Failed to process PDF: ${error?.message || error}` });
+  });
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { McqData, QuestionType } from '../types';
+import { BankQuestion, addBankQuestions, isNearDuplicate, parseTags, searchBank } from './questionBank';
+
+const question = (overrides: Partial<McqData> = {}): McqData => ({
+  id: crypto.randomUUID(),
+  questionType: QuestionType.MULTIPLE_CHOICE,
+  question: 'What is the chemical symbol for gold?',
+  choices: ['Au', 'Ag', 'Gd', 'Go'],
+  correctAnswer: 'A',
+  ...overrides
+});
+
+const entry = (item: McqData, overrides: Partial<BankQuestion> = {}): BankQuestion => ({
+  id: item.id,
+  item,
+  figures: [],
+  tags: [],
+  sources: [{ file: 'chem.pdf', savedAt: 0 }],
+  createdAt: 0,
+  updatedAt: 0,
+  searchText: '',
+  ...overrides
+});
+
+describe('isNearDuplicate', () => {
+  it('matches the same question with shuffled options and small wording changes', () => {
+    const other = question({ question: 'What is the chemical symbol for gold ?', choices: ['Ag', 'Go', 'Au', 'Gd'], correctAnswer: 'C' });
+    expect(isNearDuplicate(question(), other)).toBe(true);
+  });
+
+  it('ignores Markdown and math marks in the text', () => {
+    expect(isNearDuplicate(question(), question({ question: 'What is the **chemical symbol** for gold?' }))).toBe(true);
+  });
+
+  it('tells apart questions with the same stem but different options', () => {
+    expect(isNearDuplicate(question(), question({ choices: ['Fe', 'Cu', 'Zn', 'Pb'] }))).toBe(false);
+  });
+
+  it('counts missing options against the match', () => {
+    expect(isNearDuplicate(question(), question({ choices: ['Au'] }))).toBe(false);
+  });
+
+  it('tells apart different questions with the same options', () => {
+    expect(isNearDuplicate(question(), question({ question: 'What is the chemical symbol for silver?' }))).toBe(false);
+  });
+
+  it('compares accepted answers of typed questions', () => {
+    const typed = (answers: string[]) => question({ questionType: QuestionType.SHORT_ANSWER, choices: [], correctAnswer: '', answers });
+    expect(isNearDuplicate(typed(['Au']), typed(['Au']))).toBe(true);
+    expect(isNearDuplicate(typed(['Au']), typed(['Aurum, from Latin']))).toBe(false);
+  });
+});
+
+describe('parseTags', () => {
+  it('trims tags and drops empty and repeated ones regardless of case', () => {
+    expect(parseTags('Algebra, week 3 ,algebra,, ')).toEqual(['Algebra', 'week 3']);
+  });
+});
+
+describe('searchBank', () => {
+  const gold = entry(question(), { tags: ['Chemistry'], searchText: 'what is the chemical symbol for gold au ag gd go chemistry chem pdf' });
+  const capital = entry(question({ question: 'Capital of Peru?', questionType: QuestionType.SHORT_ANSWER }), {
+    tags: ['Geography'],
+    sources: [{ file: 'geo.docx', savedAt: 0 }],
+    searchText: 'capital of peru geography geo docx'
+  });
+
+  it('needs every query word and matches tags regardless of case', () => {
+    expect(searchBank([gold, capital], { query: 'Symbol GOLD' })).toEqual([gold]);
+    expect(searchBank([gold, capital], { query: 'gold peru' })).toEqual([]);
+    expect(searchBank([gold, capital], { tag: 'geography' })).toEqual([capital]);
+  });
+
+  it('filters by type and source file', () => {
+    expect(searchBank([gold, capital], { questionType: QuestionType.SHORT_ANSWER })).toEqual([capital]);
+    expect(searchBank([gold, capital], { sourceFile: 'chem.pdf' })).toEqual([gold]);
+  });
+});
+
+describe('addBankQuestions', () => {
+  it('adds entries, skipping rows and passages already in the results', () => {
+    const present = question();
+    const passage = { id: 'p1', text: 'A passage' };
+    const added = question({ question: 'Another', passageId: 'p1' });
+
+    const result = addBankQuestions({ items: [present], passages: [passage] }, [entry(present), entry(added, { passage })]);
+    expect(result.items.map(item => item.id)).toEqual([present.id, added.id]);
+    expect(result.passages).toEqual([passage]);
+  });
+});
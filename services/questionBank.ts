@@ -0,0 +1,161 @@
+import { ExtractionResult, Figure, McqData, Passage, QuestionType } from '../types';
+import { BANK_STORE, withStore } from './sessionStore';
+import { normalizeText, textSimilarity } from './resultMerger';
+import { mergeFigures } from './figureService';
+import { richTextToPlain } from './richText';
+
+// Reviewed questions are kept in a local bank that outlives sessions. Each entry carries its
+// own copy of the passage and figures it needs, so it can be pulled back into any session.
+// The same question saved from another exam is folded into the entry already there.
+
+// Stricter than the overlap merge in resultMerger: these are separate exams, not chunk edges
+const DUPLICATE_QUESTION_THRESHOLD = 0.9;
+const DUPLICATE_CHOICES_THRESHOLD = 0.8;
+
+export interface BankSource {
+  file?: string;
+  savedAt: number;
+}
+
+export interface BankQuestion {
+  id: string; // Id of the row first saved, so saving that row again updates the entry
+  item: McqData;
+  passage?: Passage;
+  figures: Figure[];
+  tags: string[];
+  sources: BankSource[]; // Every exam the question was saved from, oldest first
+  createdAt: number;
+  updatedAt: number;
+  searchText: string; // Normalized text of everything searchable
+}
+
+export interface BankSaveReport {
+  added: number;
+  updated: number; // Rows saved before, whose entry now holds the edited text
+  duplicates: number; // Rows that matched another exam's question and were merged into it
+}
+
+export interface BankFilter {
+  query?: string;
+  tag?: string;
+  questionType?: QuestionType;
+  sourceFile?: string;
+}
+
+// "Algebra, week 3 ,algebra" -> ["Algebra", "week 3"]
+export const parseTags = (text: string): string[] =>
+  text.split(',').map(tag => tag.trim()).filter((tag, index, all) =>
+    tag && all.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index);
+
+const mergeTags = (existing: string[], added: string[]): string[] => parseTags([...existing, ...added].join(','));
+
+// What the question asks for besides its text: choices, accepted answers or pairs
+const answerTexts = (item: McqData): string[] =>
+  [...item.choices, ...(item.answers || []), ...(item.pairs || []).map(pair => `${pair.prompt} ${pair.match}`)]
+    .map(richTextToPlain)
+    .filter(text => text.trim());
+
+// Exams shuffle options, so each option is matched to its closest counterpart in any position
+const optionSimilarity = (a: McqData, b: McqData): number => {
+  const [left, right] = [answerTexts(a), answerTexts(b)];
+  if (left.length === 0 && right.length === 0) return 1;
+  if (left.length === 0 || right.length === 0) return 0;
+  const [fewer, more] = left.length <= right.length ? [left, right] : [right, left];
+  const total = fewer.reduce((sum, text) => sum + Math.max(...more.map(other => textSimilarity(text, other))), 0);
+  // Missing options count against the match
+  return total / more.length;
+};
+
+export const isNearDuplicate = (a: McqData, b: McqData): boolean =>
+  textSimilarity(richTextToPlain(a.question), richTextToPlain(b.question)) >= DUPLICATE_QUESTION_THRESHOLD
+  && optionSimilarity(a, b) >= DUPLICATE_CHOICES_THRESHOLD;
+
+const searchTextOf = (entry: Omit<BankQuestion, 'searchText'>): string =>
+  normalizeText([
+    entry.item.question,
+    ...answerTexts(entry.item),
+    entry.item.translation?.question || '',
+    entry.passage?.text || '',
+    ...entry.tags,
+    ...entry.sources.map(source => source.file || '')
+  ].map(richTextToPlain).join(' '));
+
+const withSearchText = (entry: Omit<BankQuestion, 'searchText'>): BankQuestion => ({ ...entry, searchText: searchTextOf(entry) });
+
+const putEntry = (entry: BankQuestion) => withStore(BANK_STORE, 'readwrite', store => store.put(entry));
+
+export const listBank = async (): Promise<BankQuestion[]> => {
+  const entries = await withStore<BankQuestion[]>(BANK_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Saves `items` with the passages and figures they use. A row saved before is updated in
+// place; a near-duplicate of another entry only adds its tags and source to that entry.
+export const saveToBank = async (items: McqData[], result: ExtractionResult, tags: string[]): Promise<BankSaveReport> => {
+  const report: BankSaveReport = { added: 0, updated: 0, duplicates: 0 };
+  const entries = await listBank();
+  const passageById = new Map(result.passages.map(passage => [passage.id, passage]));
+  const figureById = new Map((result.figures || []).map(figure => [figure.id, figure]));
+  const now = Date.now();
+
+  for (const item of items) {
+    const passage = item.passageId ? passageById.get(item.passageId) : undefined;
+    const figures = (item.figures || []).map(link => figureById.get(link.figureId)).filter((figure): figure is Figure => !!figure);
+    const source: BankSource = { file: item.sourceFile, savedAt: now };
+    const addSource = (sources: BankSource[]) =>
+      sources.some(known => (known.file || '') === (source.file || '')) ? sources : [...sources, source];
+
+    const saved = entries.find(entry => entry.id === item.id);
+    const duplicate = saved ? undefined : entries.find(entry => isNearDuplicate(entry.item, item));
+    let entry: BankQuestion;
+    if (saved) {
+      entry = withSearchText({ ...saved, item, passage, figures, tags: mergeTags(saved.tags, tags), updatedAt: now });
+      report.updated++;
+    } else if (duplicate) {
+      entry = withSearchText({ ...duplicate, tags: mergeTags(duplicate.tags, tags), sources: addSource(duplicate.sources), updatedAt: now });
+      report.duplicates++;
+    } else {
+      entry = withSearchText({ id: item.id, item, passage, figures, tags: parseTags(tags.join(',')), sources: [source], createdAt: now, updatedAt: now });
+      report.added++;
+    }
+    await putEntry(entry);
+    // Later rows of the same save are checked against this one too
+    const index = entries.findIndex(known => known.id === entry.id);
+    if (index >= 0) entries[index] = entry;
+    else entries.push(entry);
+  }
+  return report;
+};
+
+export const updateBankTags = async (entry: BankQuestion, tags: string[]): Promise<void> => {
+  await putEntry(withSearchText({ ...entry, tags: parseTags(tags.join(',')), updatedAt: Date.now() }));
+};
+
+export const deleteFromBank = (id: string): Promise<undefined> =>
+  withStore(BANK_STORE, 'readwrite', store => store.delete(id));
+
+// Every word of the query has to appear somewhere in the entry
+export const searchBank = (entries: BankQuestion[], filter: BankFilter): BankQuestion[] => {
+  const words = normalizeText(filter.query || '').split(' ').filter(Boolean);
+  const tag = filter.tag?.toLowerCase();
+  return entries.filter(entry =>
+    words.every(word => entry.searchText.includes(word))
+    && (!tag || entry.tags.some(known => known.toLowerCase() === tag))
+    && (!filter.questionType || entry.item.questionType === filter.questionType)
+    && (!filter.sourceFile || entry.sources.some(source => (source.file || '') === filter.sourceFile)));
+};
+
+// Adds bank entries to the results, skipping rows, passages and figures already there
+export const addBankQuestions = (result: ExtractionResult, entries: BankQuestion[]): ExtractionResult => {
+  const itemIds = new Set(result.items.map(item => item.id));
+  const passages = [...result.passages];
+  entries.forEach(entry => {
+    if (entry.passage && !passages.some(passage => passage.id === entry.passage!.id)) passages.push(entry.passage);
+  });
+  return {
+    ...result,
+    items: [...result.items, ...entries.filter(entry => !itemIds.has(entry.item.id)).map(entry => entry.item)],
+    passages,
+    figures: mergeFigures(result.figures, entries.flatMap(entry => entry.figures))
+  };
+};
@@ -0,0 +1,99 @@
+import { McqData, QuestionType, CHOICE_LETTERS } from '../types';
+
+export const ALL_QUESTION_TYPES: QuestionType[] = Object.values(QuestionType);
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  [QuestionType.MULTIPLE_CHOICE]: 'Multiple Choice',
+  [QuestionType.MULTIPLE_SELECT]: 'Multiple Select',
+  [QuestionType.TRUE_FALSE]: 'True / False',
+  [QuestionType.FILL_IN_BLANK]: 'Fill in the Blank',
+  [QuestionType.MATCHING]: 'Matching',
+  [QuestionType.SHORT_ANSWER]: 'Short Answer'
+};
+
+// Blanks in fill-in-the-blank questions: a run of underscores or dots
+export const BLANK_PATTERN = /_{3,}|\.{5,}|…{2,}/g;
+
+export const TRUE_FALSE_CHOICES = ['True', 'False'];
+
+// Arabic option labels in the order they are used for A, B, C... ("الف" in Urdu and Persian)
+export const ARABIC_LETTERS: Record<string, string> = {
+  'الف': 'A', 'أ': 'A', 'ا': 'A', 'ب': 'B', 'ج': 'C', 'د': 'D', 'هـ': 'E', 'ه': 'E', 'و': 'F'
+};
+
+export const TRUE_WORDS = ['true', 't', 'yes', 'correct', 'right', 'صح', 'صحيح', 'صواب', 'نعم', 'صحیح', 'درست', 'vrai', 'oui'];
+export const FALSE_WORDS = ['false', 'f', 'no', 'incorrect', 'wrong', 'خطأ', 'خطا', 'خاطئ', 'لا', 'غلط', 'نادرست', 'faux', 'non'];
+
+export const isChoiceType = (type: QuestionType): boolean =>
+  type === QuestionType.MULTIPLE_CHOICE || type === QuestionType.MULTIPLE_SELECT || type === QuestionType.TRUE_FALSE;
+
+// Two options that read as true and false, in that order
+export const looksLikeTrueFalse = (choices: string[]): boolean => {
+  if (choices.length !== 2) return false;
+  const [first, second] = choices.map(choice => choice.trim().toLowerCase().replace(/[.!]$/, ''));
+  return TRUE_WORDS.includes(first) && FALSE_WORDS.includes(second);
+};
+
+// Correct letters for any choice type, in choice order
+export const answerLetters = (item: McqData): string[] =>
+  item.correctAnswer
+    .toUpperCase()
+    .split(/[^A-Z]+|(?=[A-Z])/)
+    .filter(letter => letter.length === 1 && CHOICE_LETTERS.indexOf(letter) >= 0 && CHOICE_LETTERS.indexOf(letter) < item.choices.length)
+    .filter((letter, i, letters) => letters.indexOf(letter) === i)
+    .sort();
+
+export const joinAnswerLetters = (letters: string[]): string =>
+  Array.from(new Set(letters)).sort().join(',');
+
+export const countBlanks = (question: string): number => (question.match(BLANK_PATTERN) || []).length;
+
+// Whether the item carries enough to be graded
+export const hasAnswer = (item: McqData): boolean => {
+  switch (item.questionType) {
+    case QuestionType.FILL_IN_BLANK:
+    case QuestionType.SHORT_ANSWER:
+      return (item.answers || []).some(answer => answer.trim());
+    case QuestionType.MATCHING:
+      return (item.pairs || []).some(pair => pair.prompt.trim() && pair.match.trim());
+    default:
+      return answerLetters(item).length > 0;
+  }
+};
+
+// Switching type keeps whatever still applies and seeds the fields the new type needs
+export const convertQuestionType = (item: McqData, questionType: QuestionType): McqData => {
+  const converted: McqData = { ...item, questionType };
+  const letters = answerLetters(item);
+
+  switch (questionType) {
+    case QuestionType.TRUE_FALSE:
+      converted.choices = looksLikeTrueFalse(item.choices) ? item.choices : [...TRUE_FALSE_CHOICES];
+      converted.correctAnswer = letters.length === 1 && letters[0] <= 'B' ? letters[0] : '';
+      break;
+    case QuestionType.MULTIPLE_CHOICE:
+      converted.choices = item.choices.length > 0 ? item.choices : ['', ''];
+      converted.correctAnswer = letters.length === 1 ? letters[0] : '';
+      break;
+    case QuestionType.MULTIPLE_SELECT:
+      converted.choices = item.choices.length > 0 ? item.choices : ['', ''];
+      converted.correctAnswer = joinAnswerLetters(letters);
+      break;
+    case QuestionType.FILL_IN_BLANK:
+    case QuestionType.SHORT_ANSWER:
+      // The text of a single correct choice is a good first accepted answer
+      converted.answers = item.answers?.length
+        ? item.answers
+        : [letters.length === 1 ? item.choices[CHOICE_LETTERS.indexOf(letters[0])] : ''];
+      break;
+    case QuestionType.MATCHING:
+      converted.pairs = item.pairs?.length ? item.pairs : [{ prompt: '', match: '' }];
+      break;
+  }
+
+  if (!isChoiceType(questionType)) {
+    converted.choices = [];
+    converted.correctAnswer = '';
+  }
+  return converted;
+};
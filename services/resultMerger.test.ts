@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { AnswerEvidence, McqData, QuestionType, SourceRange } from '../types';
+import { mergeExtractedItems, mergeExtractionResults, textSimilarity } from './resultMerger';
+
+const pages = (start: number, end: number): SourceRange => ({ kind: 'pdf', start, end });
+
+const question = (overrides: Partial<McqData>): McqData => ({
+  id: crypto.randomUUID(),
+  questionType: QuestionType.MULTIPLE_CHOICE,
+  question: 'Which planet is known as the red planet?',
+  choices: ['Venus', 'Mars', 'Jupiter', 'Saturn'],
+  correctAnswer: '',
+  source: pages(1, 2),
+  ...overrides
+});
+
+describe('textSimilarity', () => {
+  it('ignores numbering, case and punctuation', () => {
+    expect(textSimilarity('12. What is H2O?', 'what is h2o')).toBe(1);
+  });
+
+  it('scores unrelated text low', () => {
+    expect(textSimilarity('Which planet is largest?', 'Name the capital of Peru.')).toBeLessThan(0.5);
+  });
+});
+
+describe('mergeExtractedItems', () => {
+  it('folds a copy cut off at a chunk boundary into the complete one', () => {
+    const cut = question({ choices: ['Venus', 'Mars', '', ''], source: pages(1, 2) });
+    const full = question({ correctAnswer: 'B', answerEvidence: AnswerEvidence.HIGHLIGHT, source: pages(2, 3) });
+
+    const merged = mergeExtractedItems([cut], [full]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({
+      id: cut.id,
+      choices: ['Venus', 'Mars', 'Jupiter', 'Saturn'],
+      correctAnswer: 'B',
+      answerEvidence: AnswerEvidence.HIGHLIGHT,
+      source: full.source
+    });
+  });
+
+  it('merges a question whose text was truncated', () => {
+    const cut = question({ question: 'Which planet is known as the' });
+    const merged = mergeExtractedItems([cut], [question({ source: pages(2, 3) })]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].question).toBe('Which planet is known as the red planet?');
+  });
+
+  it('takes the answer from the other copy when the complete one has none', () => {
+    const answered = question({ choices: ['Venus', 'Mars', '', ''], correctAnswer: 'B', passageId: 'p1' });
+    const merged = mergeExtractedItems([answered], [question({ source: pages(2, 3) })]);
+    expect(merged[0]).toMatchObject({ correctAnswer: 'B', passageId: 'p1', choices: ['Venus', 'Mars', 'Jupiter', 'Saturn'] });
+  });
+
+  it('keeps repeated questions far apart in the document', () => {
+    expect(mergeExtractedItems([question({})], [question({ source: pages(8, 9) })])).toHaveLength(2);
+  });
+
+  it('keeps the same question from two uploads apart', () => {
+    const merged = mergeExtractedItems([question({ sourceId: 'a' })], [question({ sourceId: 'b' })]);
+    expect(merged).toHaveLength(2);
+  });
+
+  it('keeps questions printed under different numbers', () => {
+    const trueFalse = { questionType: QuestionType.TRUE_FALSE, choices: ['True', 'False'] };
+    const merged = mergeExtractedItems(
+      [question({ ...trueFalse, questionNumber: '7', question: 'Water boils at 100 C at sea level.' })],
+      [question({ ...trueFalse, questionNumber: '8', question: 'Water boils at 90 C at sea level.', source: pages(2, 3) })]
+    );
+    expect(merged.map(item => item.questionNumber)).toEqual(['7', '8']);
+  });
+
+  it('still merges a copy that lost its number at the boundary', () => {
+    const merged = mergeExtractedItems([question({ questionNumber: '4' })], [question({ source: pages(2, 3) })]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].questionNumber).toBe('4');
+  });
+
+  it('keeps matching questions with the same stem but different pairs', () => {
+    const matching = (questionNumber: string | undefined, pairs: [string, string][]) => question({
+      questionType: QuestionType.MATCHING,
+      questionNumber,
+      question: 'Match each item in column A with column B.',
+      choices: [],
+      pairs: pairs.map(([prompt, match]) => ({ prompt, match }))
+    });
+    const capitals: [string, string][] = [['Paris', 'France'], ['Rome', 'Italy']];
+    const compounds: [string, string][] = [['H2O', 'Water'], ['NaCl', 'Salt']];
+
+    const numbered = mergeExtractedItems([], [matching('5', capitals), matching('6', compounds)]);
+    expect(numbered.map(item => item.pairs?.[0].prompt)).toEqual(['Paris', 'H2O']);
+    const unnumbered = mergeExtractedItems([], [matching(undefined, capitals), matching(undefined, compounds)]);
+    expect(unnumbered.map(item => item.pairs?.[0].prompt)).toEqual(['Paris', 'H2O']);
+  });
+
+  it('keeps short-answer questions with the same stem but different answers', () => {
+    const typed = (answers: string[]) => question({ questionType: QuestionType.SHORT_ANSWER, question: 'Name the element.', choices: [], answers });
+    expect(mergeExtractedItems([], [typed(['Oxygen']), typed(['Helium'])])).toHaveLength(2);
+    expect(mergeExtractedItems([], [typed(['Oxygen']), typed([])])).toHaveLength(1);
+  });
+
+  it('keeps questions with the same stem but different choices', () => {
+    const merged = mergeExtractedItems(
+      [question({ question: 'Choose the correct answer.', choices: ['cat', 'dog'] })],
+      [question({ question: 'Choose the correct answer.', choices: ['2 + 2 = 5', '3 × 3 = 9'] })]
+    );
+    expect(merged).toHaveLength(2);
+  });
+});
+
+describe('mergeExtractionResults', () => {
+  it('points questions at the passage they were folded into', () => {
+    const text = 'The Amazon is the largest rainforest on Earth, spanning nine countries.';
+    const existing = { items: [question({ passageId: 'p1' })], passages: [{ id: 'p1', text }] };
+    const incoming = {
+      items: [question({ question: 'How many countries does it span?', choices: ['Five', 'Nine'], passageId: 'p2', source: pages(2, 3) })],
+      passages: [{ id: 'p2', text: 'The Amazon is the largest rainforest on Earth, spanning nine countries' }]
+    };
+
+    const merged = mergeExtractionResults(existing, incoming);
+    expect(merged.passages).toEqual([{ id: 'p1', text }]);
+    expect(merged.items.map(item => item.passageId)).toEqual(['p1', 'p1']);
+  });
+});
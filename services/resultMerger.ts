@@ -0,0 +1,182 @@
+import { McqData, Passage, ExtractionResult, SourceRange } from '../types';
+import { hasAnswer } from './questionTypes';
+import { mergeAnswerKeys } from './answerKeyService';
+import { mergeFigures } from './figureService';
+
+// Overlapping chunks extract boundary questions twice, sometimes truncated on one side.
+// These helpers reconcile them before results reach the table.
+
+const QUESTION_MATCH_THRESHOLD = 0.85;
+const CHOICES_MATCH_THRESHOLD = 0.7;
+// A truncated copy must still cover this much of the full question to be treated as the same item
+const MIN_PARTIAL_COVERAGE = 0.5;
+
+export const normalizeText = (text: string): string =>
+  text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[ً-ٟـ]/g, '') // Arabic diacritics and tatweel
+    .replace(/^\s*(?:q(?:uestion)?\s*)?\d+\s*[.)\-:]\s*/, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const bigrams = (text: string): Map<string, number> => {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+};
+
+// Sørensen–Dice coefficient over character bigrams of normalized text (0..1)
+export const textSimilarity = (a: string, b: string): number => {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  let overlap = 0;
+  leftGrams.forEach((count, gram) => {
+    overlap += Math.min(count, rightGrams.get(gram) || 0);
+  });
+  return (2 * overlap) / (left.length - 1 + right.length - 1);
+};
+
+// Mean similarity of the entries both sides have at the same position; 1 when one side was cut
+// before them
+const positionalSimilarity = (left: string[], right: string[]): number => {
+  const pairs = left
+    .map((text, i) => [text, right[i] || ''])
+    .filter(([a, b]) => a.trim() && b.trim());
+  if (pairs.length === 0) return 1;
+  return pairs.reduce((sum, [a, b]) => sum + textSimilarity(a, b), 0) / pairs.length;
+};
+
+// Choices, matching pairs and typed answers, which tell apart questions sharing a generic stem
+const optionsSimilarity = (a: McqData, b: McqData): number => {
+  const pairText = (item: McqData) => (item.pairs || []).map(pair => `${pair.prompt} ${pair.match}`);
+  return Math.min(
+    positionalSimilarity(a.choices, b.choices),
+    positionalSimilarity(pairText(a), pairText(b)),
+    positionalSimilarity(a.answers || [], b.answers || [])
+  );
+};
+
+// One question text is a cut-off copy of the other
+const isPartialCopy = (a: string, b: string): boolean => {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+  return shorter.length > 0
+    && shorter.length / longer.length >= MIN_PARTIAL_COVERAGE
+    && (longer.startsWith(shorter) || longer.endsWith(shorter));
+};
+
+export const isSameQuestion = (a: McqData, b: McqData): boolean => {
+  if ((a.sourceId || '') !== (b.sourceId || '')) return false;
+  // Numbered questions are only the same question under the same number
+  if (a.questionNumber && b.questionNumber && a.questionNumber !== b.questionNumber) return false;
+  const questionMatch = textSimilarity(a.question, b.question) >= QUESTION_MATCH_THRESHOLD
+    || isPartialCopy(a.question, b.question);
+  return questionMatch && optionsSimilarity(a, b) >= CHOICES_MATCH_THRESHOLD;
+};
+
+const completeness = (item: McqData): number =>
+  item.choices.filter(choice => choice.trim()).length * 10
+  + (item.pairs || []).filter(pair => pair.prompt.trim()).length * 10
+  + (item.answers || []).filter(answer => answer.trim()).length * 5
+  + (item.correctAnswer ? 5 : 0)
+  + (item.passageId ? 2 : 0)
+  + normalizeText(item.question).length / 1000;
+
+// Keeps the more complete copy, filling its gaps from the other one
+const mergePair = (kept: McqData, other: McqData): McqData => {
+  const [best, rest] = completeness(other) > completeness(kept) ? [other, kept] : [kept, other];
+  // Answer fields only carry over between copies read as the same type
+  const donor = rest.questionType === best.questionType ? rest : best;
+  // Evidence and confidence describe the copy the answer was taken from
+  const answered = hasAnswer(best) || !hasAnswer(donor) ? best : donor;
+  return {
+    ...best,
+    id: kept.id, // Stable id so edits and selections survive the merge
+    choices: Array.from(
+      { length: Math.max(best.choices.length, donor.choices.length) },
+      (_, i) => best.choices[i] || donor.choices[i] || ''
+    ),
+    correctAnswer: best.correctAnswer || donor.correctAnswer,
+    answers: best.answers?.length ? best.answers : donor.answers,
+    pairs: best.pairs?.length ? best.pairs : donor.pairs,
+    answerEvidence: answered.answerEvidence,
+    confidence: answered.confidence,
+    passageId: best.passageId || rest.passageId,
+    questionNumber: best.questionNumber || rest.questionNumber,
+    figures: best.figures?.length ? best.figures : rest.figures,
+    // The complete copy's window is the one that contains the whole question
+    source: best.source || rest.source
+  };
+};
+
+const rangesTouch = (a?: SourceRange, b?: SourceRange): boolean =>
+  !a || !b || (a.start <= b.end + 1 && b.start <= a.end + 1);
+
+// Adds `incoming` to `existing`, folding duplicates and partial copies into the existing rows
+export const mergeExtractedItems = (existing: McqData[], incoming: McqData[]): McqData[] => {
+  const merged = [...existing];
+
+  for (const item of incoming) {
+    // Duplicates can only come from neighbouring chunks of the same file
+    const index = merged.findIndex(candidate =>
+      rangesTouch(candidate.source, item.source) && isSameQuestion(candidate, item)
+    );
+    if (index >= 0) {
+      merged[index] = mergePair(merged[index], item);
+    } else {
+      merged.push(item);
+    }
+  }
+
+  return merged;
+};
+
+const isSamePassage = (a: Passage, b: Passage): boolean =>
+  (a.sourceId || '') === (b.sourceId || '')
+  && (textSimilarity(a.text, b.text) >= QUESTION_MATCH_THRESHOLD || isPartialCopy(a.text, b.text));
+
+// Folds passages seen again in overlapping chunks into the existing ones and returns
+// the id each incoming passage ended up with
+export const mergePassages = (existing: Passage[], incoming: Passage[]): { passages: Passage[]; idMap: Map<string, string> } => {
+  const passages = [...existing];
+  const idMap = new Map<string, string>();
+
+  for (const passage of incoming) {
+    const index = passages.findIndex(candidate => isSamePassage(candidate, passage));
+    if (index >= 0) {
+      const kept = passages[index];
+      // A longer copy is the less truncated one
+      if (passage.text.length > kept.text.length) passages[index] = { ...kept, text: passage.text };
+      idMap.set(passage.id, kept.id);
+    } else {
+      passages.push(passage);
+      idMap.set(passage.id, passage.id);
+    }
+  }
+
+  return { passages, idMap };
+};
+
+export const mergeExtractionResults = (existing: ExtractionResult, incoming: ExtractionResult): ExtractionResult => {
+  const { passages, idMap } = mergePassages(existing.passages, incoming.passages);
+  const items = incoming.items.map(item =>
+    item.passageId && idMap.has(item.passageId) ? { ...item, passageId: idMap.get(item.passageId) } : item
+  );
+  return {
+    items: mergeExtractedItems(existing.items, items),
+    passages,
+    answerKey: mergeAnswerKeys(existing.answerKey || [], incoming.answerKey || []),
+    figures: mergeFigures(existing.figures, incoming.figures)
+  };
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { hasMarkdown, richTextToHtml, richTextToInlineHtml, richTextToPlain, rewriteMath, splitMath } from './richText';
+
+describe('richTextToHtml', () => {
+  it('writes paragraphs, emphasis and code, escaping the rest', () => {
+    expect(richTextToHtml('**Bold** and *it* `a<b`\nnext\n\nsecond')).toBe(
+      '<p><strong>Bold</strong> and <em>it</em> <code>a&lt;b</code><br/>next</p><p>second</p>'
+    );
+  });
+
+  it('writes math as MathML, or as TeX for MathJax sites', () => {
+    expect(richTextToHtml('Solve $x^2$', 'tex')).toBe('<p>Solve \\(x^2\\)</p>');
+    expect(richTextToHtml('$$\nx^2\n$$', 'tex')).toBe('<p>\\[x^2\\]</p>');
+    expect(richTextToHtml('Solve $x^2$')).toContain('<msup><mi>x</mi><mn>2</mn></msup>');
+  });
+
+  it('writes pipe tables with a header row', () => {
+    expect(richTextToHtml('| a | b |\n|---|---|\n| 1 | 2 |', 'tex')).toBe(
+      '<table><thead><tr><th>a</th><th>b</th></tr></thead><tbody><tr><td>1</td><td>2</td></tr></tbody></table>'
+    );
+  });
+
+  it('leaves dollar amounts and escaped dollars as text', () => {
+    expect(richTextToHtml('Costs $5 and \\$3')).toBe('<p>Costs $5 and $3</p>');
+  });
+
+  it('renders malformed math as written instead of throwing', () => {
+    expect(richTextToHtml('$x^$ and $\\frac{1}$')).toContain('<mtext>x^</mtext>');
+    expect(richTextToHtml('$\\frac{1}$')).not.toContain('undefined');
+  });
+});
+
+describe('richTextToInlineHtml', () => {
+  it('joins blocks with line breaks instead of paragraphs', () => {
+    expect(richTextToInlineHtml('one\n\n| a | b |\n|---|---|\n| 1 | 2 |', 'tex')).toBe('one<br/>a | b<br/>1 | 2');
+  });
+});
+
+describe('richTextToPlain', () => {
+  it('drops markup and writes math as Unicode', () => {
+    expect(richTextToPlain('**H** $H_2O$ and *$\\frac{1}{2}$*')).toBe('H H₂O and 1/2');
+    expect(richTextToPlain('```\ncode $x$\n```')).toBe('code $x$');
+  });
+
+  it('keeps malformed math as written', () => {
+    expect(richTextToPlain('Expand $x^$')).toBe('Expand x^');
+  });
+});
+
+describe('rewriteMath', () => {
+  it('rewrites math only, leaving code alone and unescaping dollars', () => {
+    expect(rewriteMath('$a$ `$b$` $$c$$ \\$1', (tex, display) => `[${display ? 'D' : 'I'}:${tex}]`)).toBe('[I:a] `$b$` [D:c] $1');
+  });
+});
+
+describe('splitMath', () => {
+  it('cuts text into verbatim math and code runs and the text between', () => {
+    expect(splitMath('a *b* $c*d$ `e*f`')).toEqual([
+      { text: 'a *b* ', verbatim: false },
+      { text: '$c*d$', verbatim: true },
+      { text: ' ', verbatim: false },
+      { text: '`e*f`', verbatim: true }
+    ]);
+  });
+});
+
+describe('hasMarkdown', () => {
+  it('ignores math but notices other formatting', () => {
+    expect(hasMarkdown('Solve $x^2$')).toBe(false);
+    expect(hasMarkdown('Solve **now**')).toBe(true);
+    expect(hasMarkdown('| a |\n|---|')).toBe(true);
+  });
+});
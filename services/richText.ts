@@ -0,0 +1,203 @@
+import { texToMathml, texToPlain } from './texMath';
+
+// Question, choice, answer and passage text is a small Markdown subset with LaTeX math:
+// **bold**, *italic*, `code`, ``` fenced code blocks, pipe tables with a |---| separator row,
+// $inline$ and $$display$$ math. A dollar sign that is not math is written \$; a lone "$5"
+// is left alone because math may not start or end with a space or end before a digit.
+// Everything else is plain text, so text without any of these marks reads the same as before.
+
+type Inline =
+  | { kind: 'text'; text: string }
+  | { kind: 'code'; text: string }
+  | { kind: 'math'; tex: string; display: boolean }
+  | { kind: 'strong' | 'em'; children: Inline[] };
+
+type Block =
+  | { kind: 'paragraph'; lines: Inline[][] }
+  | { kind: 'code'; text: string }
+  | { kind: 'math'; tex: string }
+  | { kind: 'table'; rows: Inline[][][] }; // The first row is the header
+
+// How math is written in HTML: MathML, or TeX between \( \) for sites that run MathJax (Moodle)
+export type MathStyle = 'mathml' | 'tex';
+
+const INLINE_MATH = String.raw`\$(?=[^\s$])((?:\\.|[^$\\\n])+?)(?<=[^\s\\])\$(?!\d)`;
+const DISPLAY_MATH = String.raw`\$\$([\s\S]+?)\$\$`;
+const INLINE_PATTERN = new RegExp(
+  [String.raw`\x60([^\x60\n]+)\x60`, DISPLAY_MATH, String.raw`\\\$`, INLINE_MATH, String.raw`\*\*(?=\S)([\s\S]+?)(?<=\S)\*\*`, String.raw`\*(?=[^\s*])([^*\n]+?)(?<=\S)\*`].join('|'),
+  'g'
+);
+// Code is matched first so math inside it is left alone
+const MATH_PATTERN = new RegExp([String.raw`\x60\x60\x60[\s\S]*?\x60\x60\x60`, String.raw`\x60[^\x60\n]+\x60`, DISPLAY_MATH, String.raw`\\\$`, INLINE_MATH].join('|'), 'g');
+
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|(\s*:?-{3,}:?\s*\|)+\s*$/;
+
+const parseInline = (text: string): Inline[] => {
+  const nodes: Inline[] = [];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.kind === 'text') last.text += value;
+    else nodes.push({ kind: 'text', text: value });
+  };
+
+  let index = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    pushText(text.slice(index, match.index));
+    index = match.index! + match[0].length;
+    const [whole, code, display, inline, strong, em] = match;
+    if (code !== undefined) nodes.push({ kind: 'code', text: code });
+    else if (display !== undefined) nodes.push({ kind: 'math', tex: display.trim(), display: true });
+    else if (inline !== undefined) nodes.push({ kind: 'math', tex: inline, display: false });
+    else if (strong !== undefined) nodes.push({ kind: 'strong', children: parseInline(strong) });
+    else if (em !== undefined) nodes.push({ kind: 'em', children: parseInline(em) });
+    else pushText(whole === '\\$' ? '$' : whole);
+  }
+  pushText(text.slice(index));
+  return nodes;
+};
+
+const tableCells = (row: string): Inline[][] =>
+  row.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => parseInline(cell.trim().replace(/\\\|/g, '|')));
+
+const parseBlocks = (text: string): Block[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ kind: 'paragraph', lines: paragraph.map(parseInline) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (trimmed.startsWith('```')) {
+      const end = lines.findIndex((line, j) => j > i && line.trim().startsWith('```'));
+      if (end !== -1) {
+        flush();
+        blocks.push({ kind: 'code', text: lines.slice(i + 1, end).join('\n') });
+        i = end;
+        continue;
+      }
+    }
+    if (trimmed.startsWith('$$')) {
+      // $$ ... $$ on one line, or opening and closing lines around the formula
+      const end = trimmed.length > 4 && trimmed.endsWith('$$') ? i : lines.findIndex((line, j) => j > i && line.trim().endsWith('$$'));
+      const tex = end === -1 ? '' : lines.slice(i, end + 1).join('\n').trim().slice(2, -2).trim();
+      if (tex && !tex.includes('$$')) {
+        flush();
+        blocks.push({ kind: 'math', tex });
+        i = end;
+        continue;
+      }
+    }
+    if (TABLE_ROW.test(trimmed) && TABLE_SEPARATOR.test(lines[i + 1] || '')) {
+      flush();
+      const rows = [tableCells(trimmed)];
+      for (i += 2; i < lines.length && TABLE_ROW.test(lines[i]); i++) rows.push(tableCells(lines[i]));
+      i--;
+      blocks.push({ kind: 'table', rows });
+      continue;
+    }
+    if (trimmed === '') flush();
+    else paragraph.push(lines[i]);
+  }
+  flush();
+  return blocks;
+};
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const mathHtml = (tex: string, display: boolean, style: MathStyle): string =>
+  style === 'mathml' ? texToMathml(tex, display) : escapeHtml(display ? `\\[${tex}\\]` : `\\(${tex}\\)`);
+
+const inlineHtml = (nodes: Inline[], style: MathStyle): string =>
+  nodes.map(node => {
+    switch (node.kind) {
+      case 'text': return escapeHtml(node.text);
+      case 'code': return `<code>${escapeHtml(node.text)}</code>`;
+      case 'math': return mathHtml(node.tex, node.display, style);
+      case 'strong': return `<strong>${inlineHtml(node.children, style)}</strong>`;
+      case 'em': return `<em>${inlineHtml(node.children, style)}</em>`;
+    }
+  }).join('');
+
+const tableHtml = (rows: Inline[][][], style: MathStyle): string => {
+  const row = (cells: Inline[][], tag: 'th' | 'td') => `<tr>${cells.map(cell => `<${tag}>${inlineHtml(cell, style)}</${tag}>`).join('')}</tr>`;
+  const [header, ...body] = rows;
+  return `<table><thead>${row(header, 'th')}</thead>${body.length > 0 ? `<tbody>${body.map(cells => row(cells, 'td')).join('')}</tbody>` : ''}</table>`;
+};
+
+// Block HTML (paragraphs, tables, code blocks). Well-formed XML, so QTI and Moodle can embed it.
+export const richTextToHtml = (text: string, style: MathStyle = 'mathml'): string =>
+  parseBlocks(text).map(block => {
+    switch (block.kind) {
+      case 'paragraph': return `<p>${block.lines.map(line => inlineHtml(line, style)).join('<br/>')}</p>`;
+      case 'code': return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+      case 'math': return style === 'mathml' ? texToMathml(block.tex, true) : `<p>${mathHtml(block.tex, true, style)}</p>`;
+      case 'table': return tableHtml(block.rows, style);
+    }
+  }).join('');
+
+// Phrasing-only HTML for places that cannot hold paragraphs (QTI prompts, cloze text)
+export const richTextToInlineHtml = (text: string, style: MathStyle = 'mathml'): string =>
+  parseBlocks(text).map(block => {
+    switch (block.kind) {
+      case 'paragraph': return block.lines.map(line => inlineHtml(line, style)).join('<br/>');
+      case 'code': return `<code>${escapeHtml(block.text)}</code>`;
+      case 'math': return mathHtml(block.tex, false, style);
+      case 'table': return block.rows.map(cells => cells.map(cell => inlineHtml(cell, style)).join(' | ')).join('<br/>');
+    }
+  }).join('<br/>');
+
+const inlinePlain = (nodes: Inline[]): string =>
+  nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+      case 'code': return node.text;
+      case 'math': return texToPlain(node.tex);
+      case 'strong':
+      case 'em': return inlinePlain(node.children);
+    }
+  }).join('');
+
+// Readable text without markup, with math as Unicode (x², H₂O, 1/2), for Excel, Aiken and the clipboard
+export const richTextToPlain = (text: string): string =>
+  parseBlocks(text).map(block => {
+    switch (block.kind) {
+      case 'paragraph': return block.lines.map(inlinePlain).join('\n');
+      case 'code': return block.text;
+      case 'math': return texToPlain(block.tex);
+      case 'table': return block.rows.map(cells => cells.map(inlinePlain).join(' | ')).join('\n');
+    }
+  }).join('\n\n');
+
+// Rewrites the math in `text` with `render` and unescapes \$, leaving everything else (code included)
+// as written
+export const rewriteMath = (text: string, render: (tex: string, display: boolean) => string): string =>
+  text.replace(MATH_PATTERN, (match, display?: string, inline?: string) => {
+    if (display !== undefined) return render(display.trim(), true);
+    if (inline !== undefined) return render(inline, false);
+    return match === '\\$' ? '$' : match;
+  });
+
+// `text` cut into runs of code and math, which other markup must leave alone, and the text between
+export const splitMath = (text: string): { text: string; verbatim: boolean }[] => {
+  const parts: { text: string; verbatim: boolean }[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MATH_PATTERN)) {
+    if (match.index > last) parts.push({ text: text.slice(last, match.index), verbatim: false });
+    parts.push({ text: match[0], verbatim: true });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), verbatim: false });
+  return parts;
+};
+
+// Whether `text` uses any formatting besides math
+export const hasMarkdown = (text: string): boolean =>
+  parseBlocks(text).some(block =>
+    block.kind === 'code' || block.kind === 'table' ||
+    (block.kind === 'paragraph' && block.lines.some(line => line.some(node => node.kind === 'code' || node.kind === 'strong' || node.kind === 'em')))
+  );
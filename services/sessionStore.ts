@@ -0,0 +1,192 @@
+import { AppLanguage, ChunkReport, ExtractionResult, ImagePreprocessing, PdfProcessingMode, ProviderConfig, QuestionType, QueueItem, QueueItemStatus } from '../types';
+
+// Extraction sessions are autosaved to IndexedDB so a refresh, a crashed tab or an
+// accidental "Clear all" does not lose the results and review edits. Uploaded files are
+// stored once by content hash and referenced from every session that uses them. The same
+// database holds the question bank (see questionBank.ts).
+
+const DB_NAME = 'exam-extract';
+const DB_VERSION = 2; // 2 adds the question bank
+const SESSION_STORE = 'sessions';
+const FILE_STORE = 'files';
+export const BANK_STORE = 'bank';
+
+// A queue entry without its File, which lives in the file store
+export interface SessionFile {
+  id: string;
+  name: string;
+  size: number;
+  lastModified: number;
+  hash?: string;
+  pageHashes?: string[]; // Photos stored as the pages of one document
+  isAnswerKey?: boolean;
+  status: QueueItemStatus;
+  total: number; // Chunks planned for the file
+  chunks: ChunkReport[];
+  message?: string;
+}
+
+export interface SessionSettings {
+  language: AppLanguage;
+  pdfMode: PdfProcessingMode;
+  imagePreprocessing?: ImagePreprocessing; // Missing in sessions saved before photo uploads
+  questionTypes: QuestionType[];
+  taxonomy?: string[]; // Topics for the tagging pass; missing in sessions saved before tagging
+  provider: Omit<ProviderConfig, 'apiKey'>; // Keys stay in the environment, never on disk
+}
+
+export interface ExtractionSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  files: SessionFile[];
+  results: ExtractionResult;
+  settings: SessionSettings;
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  fileCount: number;
+  questionCount: number;
+  unfinished: number; // Files that still have chunks to extract
+}
+
+interface StoredFile {
+  hash: string;
+  file: File;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(FILE_STORE)) db.createObjectStore(FILE_STORE, { keyPath: 'hash' });
+        if (!db.objectStoreNames.contains(BANK_STORE)) db.createObjectStore(BANK_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    });
+  }
+  return database;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const withStore = async <T>(name: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(name, mode).objectStore(name)));
+};
+
+export const hashFile = async (file: File): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const storeFile = async (hash: string, file: File): Promise<void> => {
+  const existing = await withStore<StoredFile | undefined>(FILE_STORE, 'readonly', store => store.get(hash));
+  if (!existing) await withStore(FILE_STORE, 'readwrite', store => store.put({ hash, file }));
+};
+
+export const loadFile = async (hash: string): Promise<File | undefined> =>
+  (await withStore<StoredFile | undefined>(FILE_STORE, 'readonly', store => store.get(hash)))?.file;
+
+export const toSessionFile = (item: QueueItem): SessionFile => ({
+  id: item.id,
+  name: item.file.name,
+  size: item.file.size,
+  lastModified: item.file.lastModified,
+  hash: item.hash,
+  pageHashes: item.pageHashes,
+  isAnswerKey: item.isAnswerKey,
+  status: item.status,
+  total: item.total,
+  chunks: item.chunks || [],
+  message: item.message
+});
+
+// Sessions saved before results carried the id of their queue item only name the file. Each
+// name goes to the first queued file with it, which is what matching by name did.
+export const withSourceIds = (results: ExtractionResult, files: SessionFile[]): ExtractionResult => {
+  const idOf = (entry: { sourceId?: string; sourceFile?: string }) =>
+    entry.sourceId ?? files.find(file => file.name === entry.sourceFile)?.id;
+  return {
+    ...results,
+    items: results.items.map(item => ({ ...item, sourceId: idOf(item) })),
+    passages: results.passages.map(passage => ({ ...passage, sourceId: idOf(passage) })),
+    answerKey: results.answerKey?.map(entry => ({ ...entry, sourceId: idOf(entry) })),
+    figures: results.figures?.map(figure => ({ ...figure, sourceId: idOf(figure) }))
+  };
+};
+
+// Rebuilds the queue; files that were mid-extraction come back queued, keeping the chunks already done
+export const restoreQueue = async (files: SessionFile[]): Promise<QueueItem[]> => {
+  const restored = await Promise.all(files.map(async (entry): Promise<QueueItem | null> => {
+    const file = entry.hash ? await loadFile(entry.hash) : undefined;
+    if (!file) return null;
+    const pageFiles = entry.pageHashes ? await Promise.all(entry.pageHashes.map(loadFile)) : undefined;
+    if (pageFiles && !pageFiles.every(page => !!page)) return null;
+    const interrupted = entry.status === 'processing';
+    const chunks = entry.chunks || [];
+    const done = chunks.filter(chunk => chunk.status !== 'failed').length;
+    return {
+      id: entry.id,
+      file,
+      hash: entry.hash,
+      pageFiles: pageFiles as File[] | undefined,
+      pageHashes: entry.pageHashes,
+      isAnswerKey: entry.isAnswerKey,
+      status: interrupted ? 'queued' : entry.status,
+      total: entry.total,
+      current: done,
+      chunks,
+      message: interrupted ? `Interrupted after ${done} of ${entry.total} chunks` : entry.message
+    };
+  }));
+  return restored.filter((item): item is QueueItem => !!item);
+};
+
+export const saveSession = (session: ExtractionSession): Promise<IDBValidKey> =>
+  withStore(SESSION_STORE, 'readwrite', store => store.put(session));
+
+export const loadSession = (id: string): Promise<ExtractionSession | undefined> =>
+  withStore<ExtractionSession | undefined>(SESSION_STORE, 'readonly', store => store.get(id));
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const sessions = await withStore<ExtractionSession[]>(SESSION_STORE, 'readonly', store => store.getAll());
+  return sessions
+    .map(session => ({
+      id: session.id,
+      name: session.name,
+      updatedAt: session.updatedAt,
+      fileCount: session.files.length,
+      questionCount: session.results.items.length,
+      unfinished: session.files.filter(file => file.status !== 'complete' || (file.chunks || []).some(chunk => chunk.status === 'failed')).length
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Removes the session and any stored file no other session still points to
+export const deleteSession = async (id: string): Promise<void> => {
+  await withStore(SESSION_STORE, 'readwrite', store => store.delete(id));
+  const remaining = await withStore<ExtractionSession[]>(SESSION_STORE, 'readonly', store => store.getAll());
+  const inUse = new Set(remaining.flatMap(session => session.files.flatMap(file => [file.hash, ...(file.pageHashes || [])])));
+  const hashes = await withStore<IDBValidKey[]>(FILE_STORE, 'readonly', store => store.getAllKeys());
+  await Promise.all(hashes
+    .filter(hash => !inUse.has(hash as string))
+    .map(hash => withStore(FILE_STORE, 'readwrite', store => store.delete(hash))));
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BloomLevel, Difficulty, McqData, ProviderKind, QuestionType } from '../types';
+import { ExtractionProvider, GenerationRequest } from './extractionProvider';
+import { parseTaxonomy, tagQuestions, topicPath } from './taggingService';
+
+const question = (id: string, overrides: Partial<McqData> = {}): McqData => ({
+  id,
+  questionType: QuestionType.MULTIPLE_CHOICE,
+  question: `Solve equation ${id}`,
+  choices: ['1', '2'],
+  correctAnswer: 'A',
+  ...overrides
+});
+
+// Tags every question it is sent with `topic`, unless `respond` says otherwise
+const tagger = (topic: string, respond?: (call: number, request: GenerationRequest) => void): ExtractionProvider & { inputs: any[] } => {
+  const inputs: any[] = [];
+  return {
+    kind: ProviderKind.FIXTURE,
+    model: 'tagger',
+    inputs,
+    async generate(request) {
+      const input = JSON.parse((request.parts[0] as { text: string }).text);
+      inputs.push(input);
+      respond?.(inputs.length, request);
+      return JSON.stringify({
+        questions: input.questions.map((q: any) => ({ key: q.key, topic, difficulty: Difficulty.MEDIUM, bloomLevel: BloomLevel.APPLY }))
+      });
+    }
+  };
+};
+
+describe('parseTaxonomy', () => {
+  it('reads one topic per line and tidies the levels', () => {
+    expect(parseTaxonomy('Algebra / Quadratics\n\nalgebra/quadratics\n Geometry ')).toEqual(['Algebra/Quadratics', 'Geometry']);
+    expect(topicPath(' Algebra /  / Quadratics')).toEqual(['Algebra', 'Quadratics']);
+  });
+});
+
+describe('tagQuestions', () => {
+  const taxonomy = ['Algebra/Quadratics', 'Geometry'];
+
+  it('matches suggested topics to the taxonomy and keeps values already set', async () => {
+    const provider = tagger('algebra / quadratics');
+    const outcome = await tagQuestions(provider, [
+      question('1'),
+      question('2', { difficulty: Difficulty.HARD }),
+      question('3', { topic: 'Geometry', difficulty: Difficulty.EASY, bloomLevel: BloomLevel.REMEMBER })
+    ], [], taxonomy);
+
+    // Fully tagged questions are not sent
+    expect(provider.inputs[0].questions.map((q: any) => q.key)).toEqual(['Q1', 'Q2']);
+    expect(outcome.tags.get('1')).toEqual({ topic: 'Algebra/Quadratics', difficulty: Difficulty.MEDIUM, bloomLevel: BloomLevel.APPLY });
+    expect(outcome.tags.get('2')?.difficulty).toBe(Difficulty.HARD);
+    expect(outcome.tags.has('3')).toBe(false);
+    expect(outcome).toMatchObject({ unmatched: 0, failed: 0, cancelled: false });
+  });
+
+  it('counts topics that are not in the taxonomy', async () => {
+    const outcome = await tagQuestions(tagger('Chemistry'), [question('1')], [], taxonomy);
+    expect(outcome.unmatched).toBe(1);
+    expect(outcome.tags.get('1')?.topic).toBeUndefined();
+  });
+
+  it('takes any topic when there is no taxonomy', async () => {
+    const outcome = await tagQuestions(tagger(' Chemistry / Acids '), [question('1')], [], []);
+    expect(outcome.tags.get('1')?.topic).toBe('Chemistry/Acids');
+  });
+
+  it('keeps later batches when one fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const items = Array.from({ length: 25 }, (_, i) => question(String(i + 1)));
+    const outcome = await tagQuestions(tagger('Geometry', call => {
+      if (call === 1) throw new Error('invalid response');
+    }), items, [], taxonomy);
+
+    expect(outcome).toMatchObject({ failed: 20, cancelled: false });
+    expect(outcome.tags.size).toBe(5);
+  });
+
+  it('stops at the signal and returns the batches finished before it', async () => {
+    const controller = new AbortController();
+    const items = Array.from({ length: 25 }, (_, i) => question(String(i + 1)));
+    const outcome = await tagQuestions(tagger('Geometry', (call, request) => {
+      if (call === 2) {
+        controller.abort();
+        request.signal?.throwIfAborted();
+      }
+    }), items, [], taxonomy, { signal: controller.signal });
+
+    expect(outcome).toMatchObject({ failed: 0, cancelled: true });
+    expect(outcome.tags.size).toBe(20);
+  });
+});
@@ -0,0 +1,166 @@
+import { BloomLevel, Difficulty, McqData, Passage } from '../types';
+import { ExtractionProvider, JsonSchema } from './extractionProvider';
+import { generateWithRetry, stripJsonFences } from './extractionService';
+import { answerLetters, isChoiceType } from './questionTypes';
+import { richTextToPlain } from './richText';
+import { isAbortError } from './concurrency';
+
+// Classifies questions by topic, difficulty and Bloom level through the extraction provider.
+// Topics come from a taxonomy the user types in, so the labels match their LMS categories.
+
+// Questions per request
+const TAGGING_BATCH_SIZE = 20;
+// Passages are only context here, so long ones are cut
+const MAX_PASSAGE_CONTEXT = 600;
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  [Difficulty.EASY]: 'Easy',
+  [Difficulty.MEDIUM]: 'Medium',
+  [Difficulty.HARD]: 'Hard'
+};
+
+export const BLOOM_LEVEL_LABELS: Record<BloomLevel, string> = {
+  [BloomLevel.REMEMBER]: 'Remember',
+  [BloomLevel.UNDERSTAND]: 'Understand',
+  [BloomLevel.APPLY]: 'Apply',
+  [BloomLevel.ANALYZE]: 'Analyze',
+  [BloomLevel.EVALUATE]: 'Evaluate',
+  [BloomLevel.CREATE]: 'Create'
+};
+
+export type QuestionTags = Pick<McqData, 'topic' | 'difficulty' | 'bloomLevel'>;
+
+export interface TaggingOutcome {
+  tags: Map<string, QuestionTags>; // By question id; values a question already had are kept
+  unmatched: number; // Questions whose suggested topic is not in the taxonomy
+  failed: number; // Questions whose batch failed
+  cancelled: boolean; // Stopped by the signal; what finished before is kept
+}
+
+export interface TagOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// "Algebra / Quadratics" -> ["Algebra", "Quadratics"]
+export const topicPath = (topic: string): string[] => topic.split('/').map(level => level.trim()).filter(Boolean);
+
+// One topic per line, nested levels separated by "/"; blank lines and repeats are dropped
+export const parseTaxonomy = (text: string): string[] =>
+  text.split('\n')
+    .map(line => topicPath(line).join('/'))
+    .filter((topic, index, all) => topic && all.findIndex(other => other.toLowerCase() === topic.toLowerCase()) === index);
+
+export const hasTags = (item: McqData): boolean => !!(item.topic || item.difficulty || item.bloomLevel);
+
+const taggingSchema = (taxonomy: string[]): JsonSchema => ({
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          key: { type: 'string' },
+          topic: taxonomy.length > 0 ? { type: 'string', enum: [...taxonomy, ''] } : { type: 'string' },
+          difficulty: { type: 'string', enum: Object.values(Difficulty) },
+          bloomLevel: { type: 'string', enum: Object.values(BloomLevel) }
+        },
+        required: ['key', 'topic', 'difficulty', 'bloomLevel']
+      }
+    }
+  },
+  required: ['questions']
+});
+
+const taggingInstruction = (taxonomy: string[]) => `
+    You are an experienced teacher classifying exam questions for a learning management system.
+    For every question in the JSON input, return its key with:
+    1. TOPIC: ${taxonomy.length > 0
+      ? `exactly one entry of this taxonomy, copied character for character, the most specific one that fits; "" if none fits:\n       ${taxonomy.map(topic => `- ${topic}`).join('\n       ')}`
+      : 'a short subject topic (2-4 words), written as "Subject/Topic".'}
+    2. DIFFICULTY: "${Difficulty.EASY}", "${Difficulty.MEDIUM}" or "${Difficulty.HARD}" for the students the exam is written for.
+    3. BLOOM LEVEL: the cognitive level of the revised Bloom's taxonomy the question tests: ${Object.values(BloomLevel).map(level => `"${level}"`).join(', ')}. Recalling a fact is "${BloomLevel.REMEMBER}"; using a method on a new case is "${BloomLevel.APPLY}".
+    The correct answer is given to help judge difficulty. Do not change or comment on the questions.
+`;
+
+// What the model needs to judge the question, as plain text
+const describe = (item: McqData, passage: Passage | undefined, key: string) => ({
+  key,
+  ...(passage ? { passage: richTextToPlain(passage.text).slice(0, MAX_PASSAGE_CONTEXT) } : {}),
+  question: richTextToPlain(item.question),
+  ...(item.choices.length > 0 ? { choices: item.choices.map(richTextToPlain) } : {}),
+  answer: isChoiceType(item.questionType)
+    ? answerLetters(item).join(', ')
+    : [...(item.answers || []), ...(item.pairs || []).map(pair => `${pair.prompt} -> ${pair.match}`)].map(richTextToPlain).join(' | ')
+});
+
+// The taxonomy entry `topic` names, matched case-insensitively
+const matchTopic = (topic: unknown, taxonomy: string[]): string | undefined => {
+  if (typeof topic !== 'string') return undefined;
+  const wanted = topicPath(topic).join('/');
+  if (!wanted) return undefined;
+  if (taxonomy.length === 0) return wanted;
+  return taxonomy.find(entry => entry.toLowerCase() === wanted.toLowerCase());
+};
+
+const oneOf = <T extends string>(values: T[], value: unknown): T | undefined =>
+  values.includes(value as T) ? value as T : undefined;
+
+// Fills in the topic, difficulty and Bloom level of the questions that lack any of them.
+// Values already set, by an earlier pass or by hand, are left alone. A batch that fails counts
+// its questions as failed and the rest carry on, so finished batches are never lost.
+export const tagQuestions = async (
+  provider: ExtractionProvider,
+  items: McqData[],
+  passages: Passage[],
+  taxonomy: string[],
+  options: TagOptions = {}
+): Promise<TaggingOutcome> => {
+  const outcome: TaggingOutcome = { tags: new Map(), unmatched: 0, failed: 0, cancelled: false };
+  const passageById = new Map(passages.map(passage => [passage.id, passage]));
+  const pending = items.filter(item => !item.topic || !item.difficulty || !item.bloomLevel);
+
+  for (let start = 0; start < pending.length; start += TAGGING_BATCH_SIZE) {
+    options.onProgress?.(start, pending.length);
+    const batch = pending.slice(start, start + TAGGING_BATCH_SIZE);
+    const input = batch.map((item, i) => describe(item, item.passageId ? passageById.get(item.passageId) : undefined, `Q${i + 1}`));
+
+    let parsed: any;
+    try {
+      const rawText = await generateWithRetry(provider, {
+        systemInstruction: taggingInstruction(taxonomy),
+        parts: [{ text: JSON.stringify({ questions: input }) }],
+        responseSchema: taggingSchema(taxonomy),
+        temperature: 0.1,
+        signal: options.signal
+      });
+      parsed = JSON.parse(stripJsonFences(rawText || '{}'));
+    } catch (error) {
+      if (options.signal?.aborted || isAbortError(error)) {
+        outcome.cancelled = true;
+        return outcome;
+      }
+      console.error('Tagging batch failed', error);
+      outcome.failed += batch.length;
+      continue;
+    }
+    const answers: any[] = Array.isArray(parsed.questions) ? parsed.questions : [];
+
+    batch.forEach((item, i) => {
+      const raw = answers.find(answer => answer?.key === `Q${i + 1}`);
+      if (!raw) return;
+      const topic = matchTopic(raw.topic, taxonomy);
+      if (!topic && !item.topic && typeof raw.topic === 'string' && raw.topic.trim()) outcome.unmatched++;
+      const tags: QuestionTags = {
+        topic: item.topic || topic,
+        difficulty: item.difficulty || oneOf(Object.values(Difficulty), raw.difficulty),
+        bloomLevel: item.bloomLevel || oneOf(Object.values(BloomLevel), raw.bloomLevel)
+      };
+      outcome.tags.set(item.id, tags);
+    });
+  }
+
+  options.onProgress?.(pending.length, pending.length);
+  return outcome;
+};
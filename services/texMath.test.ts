@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { texToMathml, texToPlain } from './texMath';
+
+describe('texToPlain', () => {
+  it('writes scripts, fractions, roots and symbols as Unicode', () => {
+    expect(texToPlain('x^2')).toBe('x²');
+    expect(texToPlain('H_2O')).toBe('H₂O');
+    expect(texToPlain('\\frac{1}{2}')).toBe('1/2');
+    expect(texToPlain('\\sqrt{x+1}')).toBe('√(x + 1)');
+    expect(texToPlain('\\sqrt[3]{8}')).toBe('∛8');
+    expect(texToPlain('\\alpha+\\beta \\le \\pi')).toBe('α + β ≤ π');
+    expect(texToPlain('\\vec{v}')).toBe('v⃗');
+  });
+
+  it('spaces relations and binary operators but keeps a leading minus', () => {
+    expect(texToPlain('a=b')).toBe('a = b');
+    expect(texToPlain('-4+x')).toBe('−4 + x');
+  });
+
+  it('takes a single digit as a script argument', () => {
+    expect(texToPlain('x^23')).toBe('x²3');
+  });
+
+  it('keeps unknown commands as written', () => {
+    expect(texToPlain('\\foo')).toBe('\\foo');
+  });
+
+  it('falls back to the raw TeX when an argument is missing', () => {
+    expect(texToPlain('x^')).toBe('x^');
+    expect(texToPlain('\\frac{1}')).toBe('\\frac{1}');
+    expect(texToPlain('{x_}+1')).toBe('{x_}+1');
+    expect(texToPlain('\\sqrt')).toBe('\\sqrt');
+  });
+
+  it('reads unclosed groups to the end', () => {
+    expect(texToPlain('\\frac{1}{2')).toBe('1/2');
+  });
+});
+
+describe('texToMathml', () => {
+  it('writes MathML with the source as an annotation', () => {
+    expect(texToMathml('x^2')).toBe(
+      '<math xmlns="http://www.w3.org/1998/Math/MathML"><semantics><msup><mi>x</mi><mn>2</mn></msup><annotation encoding="application/x-tex">x^2</annotation></semantics></math>'
+    );
+    expect(texToMathml('\\frac{a}{b}', true)).toContain('display="block"><semantics><mfrac><mi>a</mi><mi>b</mi></mfrac>');
+  });
+
+  it('escapes text and annotations', () => {
+    expect(texToMathml('a<b')).toContain('<mo>&lt;</mo>');
+    expect(texToMathml('a<b')).toContain('<annotation encoding="application/x-tex">a&lt;b</annotation>');
+  });
+
+  it('shows malformed TeX as text', () => {
+    expect(texToMathml('\\frac{1}')).toContain('<semantics><mtext>\\frac{1}</mtext><annotation');
+    expect(texToMathml('x^')).not.toContain('undefined');
+  });
+});
@@ -0,0 +1,272 @@
+// A small LaTeX reader for the math in question text. It covers what exams use (scripts,
+// fractions, roots, Greek letters, common operators and functions) and renders it as MathML
+// for previews and QTI, or as Unicode text where only plain text fits. Unknown commands are
+// kept as written.
+
+type TexNode =
+  | { kind: 'mi' | 'mn' | 'mo' | 'mtext'; value: string }
+  | { kind: 'row'; children: TexNode[] }
+  | { kind: 'frac'; num: TexNode; den: TexNode }
+  | { kind: 'sqrt'; body: TexNode; index?: TexNode }
+  | { kind: 'script'; base: TexNode; sub?: TexNode; sup?: TexNode }
+  | { kind: 'accent'; body: TexNode; accent: string };
+
+const GREEK: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ϵ', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+  theta: 'θ', vartheta: 'ϑ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π',
+  rho: 'ρ', sigma: 'σ', tau: 'τ', upsilon: 'υ', phi: 'ϕ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Upsilon: 'Υ',
+  Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω'
+};
+
+const SYMBOLS: Record<string, string> = {
+  infty: '∞', partial: '∂', nabla: '∇', angle: '∠', triangle: '△', degree: '°', ell: 'ℓ', hbar: 'ℏ',
+  emptyset: '∅', varnothing: '∅', prime: '′'
+};
+
+const OPERATORS: Record<string, string> = {
+  times: '×', cdot: '·', div: '÷', pm: '±', mp: '∓', ast: '∗', star: '⋆', circ: '∘', bullet: '∙',
+  le: '≤', leq: '≤', ge: '≥', geq: '≥', neq: '≠', ne: '≠', approx: '≈', equiv: '≡', sim: '∼',
+  simeq: '≃', cong: '≅', propto: '∝', ll: '≪', gg: '≫',
+  to: '→', rightarrow: '→', leftarrow: '←', leftrightarrow: '↔', Rightarrow: '⇒', Leftarrow: '⇐',
+  Leftrightarrow: '⇔', implies: '⇒', iff: '⇔', rightleftharpoons: '⇌', uparrow: '↑', downarrow: '↓',
+  in: '∈', notin: '∉', ni: '∋', subset: '⊂', subseteq: '⊆', supset: '⊃', supseteq: '⊇', cup: '∪', cap: '∩',
+  setminus: '∖', perp: '⊥', parallel: '∥', mid: '∣', forall: '∀', exists: '∃', neg: '¬', lnot: '¬',
+  land: '∧', wedge: '∧', lor: '∨', vee: '∨', oplus: '⊕', otimes: '⊗',
+  sum: '∑', prod: '∏', int: '∫', iint: '∬', oint: '∮',
+  ldots: '…', cdots: '⋯', dots: '…', vdots: '⋮', therefore: '∴', because: '∵',
+  langle: '⟨', rangle: '⟩', lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉', vert: '|', Vert: '‖',
+  lbrace: '{', rbrace: '}'
+};
+
+const FUNCTIONS = new Set([
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+  'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'sup', 'inf', 'det', 'gcd', 'deg', 'dim', 'mod'
+]);
+
+// Accent commands, with the combining mark used in plain text
+const ACCENTS: Record<string, { mark: string; combining: string }> = {
+  vec: { mark: '→', combining: '⃗' },
+  overrightarrow: { mark: '→', combining: '⃗' },
+  hat: { mark: '^', combining: '̂' },
+  widehat: { mark: '^', combining: '̂' },
+  bar: { mark: '¯', combining: '̅' },
+  overline: { mark: '¯', combining: '̅' },
+  dot: { mark: '˙', combining: '̇' },
+  ddot: { mark: '¨', combining: '̈' },
+  tilde: { mark: '~', combining: '̃' }
+};
+
+const TEXT_COMMANDS = new Set(['text', 'textrm', 'textit', 'textbf', 'mathrm', 'mathit', 'mathbf', 'mbox', 'operatorname']);
+const FRACTIONS = new Set(['frac', 'dfrac', 'tfrac', 'cfrac']);
+// Spacing commands: \, \; \: \! \quad \qquad and an escaped space
+const SPACES = new Set([',', ';', ':', '!', ' ', 'quad', 'qquad']);
+// Sizing commands that only change how tall a delimiter is drawn
+const SIZES = new Set(['left', 'right', 'big', 'Big', 'bigg', 'Bigg', 'bigl', 'bigr', 'Bigl', 'Bigr']);
+// Characters escaped in LaTeX to be printed as themselves
+const LITERALS = new Set(['{', '}', '%', '$', '&', '#', '_', '|']);
+
+const parseTex = (tex: string): TexNode => {
+  let pos = 0;
+
+  const readCommand = (): string => {
+    pos++; // Backslash
+    const letters = /^[A-Za-z]+/.exec(tex.slice(pos));
+    const name = letters ? letters[0] : tex[pos] ?? '';
+    pos += name.length;
+    return name;
+  };
+
+  // Raw text up to the matching brace, for \text{...}
+  const readBraced = (): string => {
+    while (tex[pos] === ' ') pos++;
+    if (tex[pos] !== '{') return '';
+    let depth = 0;
+    const start = pos + 1;
+    for (; pos < tex.length; pos++) {
+      if (tex[pos] === '{') depth++;
+      if (tex[pos] === '}' && --depth === 0) break;
+    }
+    return tex.slice(start, pos++);
+  };
+
+  // The argument of a command or script: a braced group, a command or a single character
+  const parseArgument = (): TexNode => {
+    while (tex[pos] === ' ') pos++;
+    // "x^" or "\frac{1}" cut short, at the end of the formula or of its group
+    if (pos >= tex.length || tex[pos] === '}') throw new SyntaxError(`Missing argument at ${pos} in "${tex}"`);
+    if (tex[pos] === '{') {
+      pos++;
+      return parseRow('}');
+    }
+    // x^23 is x² followed by 3
+    if (/\d/.test(tex[pos] ?? '')) return { kind: 'mn', value: tex[pos++] };
+    return parseAtom() ?? { kind: 'row', children: [] };
+  };
+
+  const parseCommand = (): TexNode | null => {
+    const name = readCommand();
+    if (FRACTIONS.has(name)) return { kind: 'frac', num: parseArgument(), den: parseArgument() };
+    if (name === 'sqrt') {
+      let index: TexNode | undefined;
+      if (tex[pos] === '[') {
+        pos++;
+        index = parseRow(']');
+      }
+      return { kind: 'sqrt', body: parseArgument(), index };
+    }
+    if (TEXT_COMMANDS.has(name)) return { kind: name === 'operatorname' || name.startsWith('math') ? 'mi' : 'mtext', value: readBraced() };
+    if (SIZES.has(name)) {
+      while (tex[pos] === ' ') pos++;
+      if (tex[pos] === '.') {
+        pos++;
+        return null;
+      }
+      return tex[pos] === '\\' ? parseCommand() : { kind: 'mo', value: tex[pos++] ?? '' };
+    }
+    if (ACCENTS[name]) return { kind: 'accent', body: parseArgument(), accent: name };
+    if (GREEK[name]) return { kind: 'mi', value: GREEK[name] };
+    if (SYMBOLS[name]) return { kind: 'mi', value: SYMBOLS[name] };
+    if (OPERATORS[name]) return { kind: 'mo', value: OPERATORS[name] };
+    if (FUNCTIONS.has(name)) return { kind: 'mi', value: name };
+    if (SPACES.has(name)) return { kind: 'mtext', value: ' ' };
+    if (LITERALS.has(name)) return { kind: 'mo', value: name };
+    if (name === '\\') return { kind: 'mtext', value: ' ' };
+    return { kind: 'mtext', value: `\\${name}` };
+  };
+
+  const parseAtom = (): TexNode | null => {
+    if (pos >= tex.length) return null;
+    const char = tex[pos];
+    if (char === '\\') return parseCommand();
+    if (char === '{') {
+      pos++;
+      return parseRow('}');
+    }
+    const number = /^\d+(?:\.\d+)?/.exec(tex.slice(pos));
+    if (number) {
+      pos += number[0].length;
+      return { kind: 'mn', value: number[0] };
+    }
+    pos++;
+    if (/\s/.test(char) || char === '}') return null;
+    if (/[A-Za-z]/.test(char)) return { kind: 'mi', value: char };
+    if (char === '-') return { kind: 'mo', value: '−' };
+    if (char === "'") return { kind: 'mo', value: '′' };
+    return { kind: 'mo', value: char };
+  };
+
+  // Atoms up to `until` (a closing brace or bracket) or the end; ^ and _ attach to the atom before
+  const parseRow = (until?: string): TexNode => {
+    const children: TexNode[] = [];
+    while (pos < tex.length) {
+      const char = tex[pos];
+      if (until && char === until) {
+        pos++;
+        break;
+      }
+      if (char === '^' || char === '_') {
+        pos++;
+        const slot = char === '^' ? 'sup' : 'sub';
+        const argument = parseArgument();
+        const base = children.pop() ?? { kind: 'row', children: [] };
+        children.push(base.kind === 'script' && !base[slot] ? { ...base, [slot]: argument } : { kind: 'script', base, [slot]: argument });
+        continue;
+      }
+      const atom = parseAtom();
+      if (atom) children.push(atom);
+    }
+    return children.length === 1 ? children[0] : { kind: 'row', children };
+  };
+
+  return parseRow();
+};
+
+// Malformed TeX is shown as written rather than breaking the text around it
+const parseOrRaw = (tex: string): TexNode => {
+  try {
+    return parseTex(tex);
+  } catch {
+    return { kind: 'mtext', value: tex };
+  }
+};
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const mathml = (node: TexNode): string => {
+  switch (node.kind) {
+    case 'mi':
+    case 'mn':
+    case 'mo':
+    case 'mtext':
+      return `<${node.kind}>${escapeXml(node.value)}</${node.kind}>`;
+    case 'row':
+      return `<mrow>${node.children.map(mathml).join('')}</mrow>`;
+    case 'frac':
+      return `<mfrac>${mathml(node.num)}${mathml(node.den)}</mfrac>`;
+    case 'sqrt':
+      return node.index ? `<mroot>${mathml(node.body)}${mathml(node.index)}</mroot>` : `<msqrt>${mathml(node.body)}</msqrt>`;
+    case 'script':
+      if (node.sub && node.sup) return `<msubsup>${mathml(node.base)}${mathml(node.sub)}${mathml(node.sup)}</msubsup>`;
+      return node.sup ? `<msup>${mathml(node.base)}${mathml(node.sup)}</msup>` : `<msub>${mathml(node.base)}${mathml(node.sub!)}</msub>`;
+    case 'accent':
+      return `<mover accent="true">${mathml(node.body)}<mo>${ACCENTS[node.accent].mark}</mo></mover>`;
+  }
+};
+
+// MathML for `tex`, keeping the source as an annotation
+export const texToMathml = (tex: string, display = false): string =>
+  `<math xmlns="http://www.w3.org/1998/Math/MathML"${display ? ' display="block"' : ''}><semantics>${mathml(parseOrRaw(tex))}<annotation encoding="application/x-tex">${escapeXml(tex)}</annotation></semantics></math>`;
+
+const SUPERSCRIPTS: Record<string, string> = {
+  0: '⁰', 1: '¹', 2: '²', 3: '³', 4: '⁴', 5: '⁵', 6: '⁶', 7: '⁷', 8: '⁸', 9: '⁹',
+  '+': '⁺', '−': '⁻', '=': '⁼', '(': '⁽', ')': '⁾', n: 'ⁿ', i: 'ⁱ', x: 'ˣ', '′': '′', '∘': '°', '°': '°'
+};
+const SUBSCRIPTS: Record<string, string> = {
+  0: '₀', 1: '₁', 2: '₂', 3: '₃', 4: '₄', 5: '₅', 6: '₆', 7: '₇', 8: '₈', 9: '₉',
+  '+': '₊', '−': '₋', '=': '₌', '(': '₍', ')': '₎', a: 'ₐ', e: 'ₑ', o: 'ₒ', x: 'ₓ', n: 'ₙ', i: 'ᵢ'
+};
+// Spaced out in plain text, so "a=b" reads "a = b". Binary operators only after an operand,
+// so a leading minus stays "−4".
+const RELATIONS = new Set(['=', '<', '>', '≤', '≥', '≠', '≈', '≡', '→', '⇒', '⇔', '⇌', '∈']);
+const BINARY = new Set(['+', '−', '×', '÷', '±', '·']);
+
+const plain = (node: TexNode): string => {
+  // Single atoms need no parentheses around them
+  const wrap = (part: TexNode) => {
+    const text = plain(part);
+    return part.kind === 'row' || part.kind === 'frac' ? `(${text})` : text;
+  };
+  const script = (part: TexNode, map: Record<string, string>, marker: string) => {
+    const text = plain(part);
+    return Array.from(text).every(char => map[char]) ? Array.from(text).map(char => map[char]).join('') : `${marker}${wrap(part)}`;
+  };
+
+  switch (node.kind) {
+    case 'mo':
+      return RELATIONS.has(node.value) ? ` ${node.value} ` : node.value;
+    case 'mi':
+    case 'mn':
+    case 'mtext':
+      return node.value;
+    case 'row':
+      return node.children
+        .map((child, i) => (child.kind === 'mo' && BINARY.has(child.value) && i > 0 && node.children[i - 1].kind !== 'mo' ? ` ${child.value} ` : plain(child)))
+        .join('')
+        .replace(/ {2,}/g, ' ');
+    case 'frac':
+      return `${wrap(node.num)}/${wrap(node.den)}`;
+    case 'sqrt': {
+      const index = node.index ? plain(node.index) : '';
+      const root = index === '3' ? '∛' : index === '4' ? '∜' : index ? `${script(node.index!, SUPERSCRIPTS, '^')}√` : '√';
+      return `${root}${wrap(node.body)}`;
+    }
+    case 'script':
+      return plain(node.base) + (node.sub ? script(node.sub, SUBSCRIPTS, '_') : '') + (node.sup ? script(node.sup, SUPERSCRIPTS, '^') : '');
+    case 'accent':
+      return Array.from(plain(node.body)).map(char => char + ACCENTS[node.accent].combining).join('');
+  }
+};
+
+// `tex` as readable Unicode: x^2 → x², \frac{1}{2} → 1/2, \sqrt{x+1} → √(x+1)
+export const texToPlain = (tex: string): string => plain(parseOrRaw(tex)).trim();
@@ -0,0 +1,4 @@
+// Base64-encodes a text chunk (UTF-8 safe) for transport as inline document data
+export const encodeTextChunk = (chunk: string): string => btoa(unescape(encodeURIComponent(chunk)));
+
+export const decodeTextChunk = (data: string): string => decodeURIComponent(escape(atob(data)));
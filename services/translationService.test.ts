@@ -0,0 +1,143 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AppLanguage, McqData, Passage, ProviderKind, QuestionType } from '../types';
+import { ExtractionProvider, GenerationRequest } from './extractionProvider';
+import { localizeResults, translateResults } from './translationService';
+
+const question = (id: string, overrides: Partial<McqData> = {}): McqData => ({
+  id,
+  questionType: QuestionType.MULTIPLE_CHOICE,
+  question: `Question ${id}`,
+  choices: ['red', 'green'],
+  correctAnswer: 'B',
+  language: AppLanguage.ENGLISH,
+  ...overrides
+});
+
+// Answers every batch by prefixing its text, so tests can see what was sent
+const translator = (respond: (input: any, call: number, request: GenerationRequest) => unknown = input => input): ExtractionProvider & { inputs: any[] } => {
+  const inputs: any[] = [];
+  return {
+    kind: ProviderKind.FIXTURE,
+    model: 'translator',
+    inputs,
+    async generate(request) {
+      const input = JSON.parse((request.parts[0] as { text: string }).text);
+      inputs.push(input);
+      const output = respond(input, inputs.length, request) as any;
+      const french = (text: string) => `fr:${text}`;
+      return JSON.stringify({
+        passages: output.passages?.map((p: any) => ({ key: p.key, text: french(p.text) })),
+        questions: output.questions.map((q: any) => ({ ...q, question: french(q.question), choices: q.choices.map(french) }))
+      });
+    }
+  };
+};
+
+describe('translateResults', () => {
+  it('translates by position and copies questions already in the target language', async () => {
+    const provider = translator();
+    const passage: Passage = { id: 'p1', text: 'A short story.' };
+    const outcome = await translateResults(
+      provider,
+      [question('1', { passageId: 'p1' }), question('2', { language: AppLanguage.FRENCH, question: 'Déjà' }), question('3', { passageId: 'p1' })],
+      [passage],
+      AppLanguage.FRENCH
+    );
+
+    expect(provider.inputs).toHaveLength(1);
+    expect(provider.inputs[0].questions.map((q: any) => q.question)).toEqual(['Question 1', 'Question 3']);
+    expect(provider.inputs[0].passages).toEqual([{ key: 'P1', text: 'A short story.' }]);
+    expect(outcome.items.get('1')).toEqual({ language: AppLanguage.FRENCH, question: 'fr:Question 1', choices: ['fr:red', 'fr:green'], answers: undefined, pairs: undefined });
+    expect(outcome.items.get('2')?.question).toBe('Déjà');
+    expect(outcome.passages.get('p1')?.text).toBe('fr:A short story.');
+    expect(outcome).toMatchObject({ failed: 0, cancelled: false });
+  });
+
+  it('rejects a translation that changes the number of choices', async () => {
+    const provider = translator(input => ({ questions: input.questions.map((q: any) => ({ ...q, choices: q.choices.slice(1) })) }));
+    const outcome = await translateResults(provider, [question('1')], [], AppLanguage.FRENCH);
+    expect(outcome.items.size).toBe(0);
+    expect(outcome.failed).toBe(1);
+  });
+
+  it('keeps later batches when one fails and sends its passage again', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const items = Array.from({ length: 16 }, (_, i) => question(String(i + 1), { passageId: 'p1' }));
+    const provider = translator((input, call) => {
+      if (call === 1) throw new Error('invalid response');
+      return input;
+    });
+
+    const outcome = await translateResults(provider, items, [{ id: 'p1', text: 'Shared passage' }], AppLanguage.FRENCH);
+    expect(outcome).toMatchObject({ failed: 15, cancelled: false });
+    expect([...outcome.items.keys()]).toEqual(['16']);
+    expect(provider.inputs[1].passages).toEqual([{ key: 'P1', text: 'Shared passage' }]);
+    expect(outcome.passages.get('p1')?.text).toBe('fr:Shared passage');
+  });
+
+  it('stops at the signal and returns the batches finished before it', async () => {
+    const controller = new AbortController();
+    const items = Array.from({ length: 20 }, (_, i) => question(String(i + 1)));
+    const provider = translator((input, call, request) => {
+      if (call === 2) {
+        controller.abort();
+        request.signal?.throwIfAborted();
+      }
+      return input;
+    });
+
+    const outcome = await translateResults(provider, items, [], AppLanguage.FRENCH, { signal: controller.signal });
+    expect(outcome.cancelled).toBe(true);
+    expect(outcome.items.size).toBe(15);
+    expect(outcome.failed).toBe(0);
+  });
+});
+
+describe('localizeResults', () => {
+  const translated = question('1', {
+    choices: ['red', 'green'],
+    translation: { language: AppLanguage.FRENCH, question: 'Question un', choices: ['rouge', 'green'] }
+  });
+  const passage: Passage = { id: 'p1', text: 'Story', translation: { language: AppLanguage.FRENCH, text: 'Histoire' } };
+
+  it('keeps the original text by default', () => {
+    const result = localizeResults([translated], [passage]);
+    expect(result.items[0]).toBe(translated);
+    expect(result.passages[0]).toBe(passage);
+  });
+
+  it('swaps in the translation', () => {
+    const result = localizeResults([translated, question('2')], [passage], 'translation');
+    expect(result.items[0]).toMatchObject({ question: 'Question un', choices: ['rouge', 'green'], language: AppLanguage.FRENCH, correctAnswer: 'B' });
+    // Untranslated rows stay as they are
+    expect(result.items[1].question).toBe('Question 2');
+    expect(result.passages[0].text).toBe('Histoire');
+  });
+
+  it('writes both languages, skipping text the translation left unchanged', () => {
+    const result = localizeResults([translated], [passage], 'bilingual');
+    expect(result.items[0].question).toBe('Question 1\n\nQuestion un');
+    expect(result.items[0].choices).toEqual(['red / rouge', 'green']);
+    expect(result.passages[0].text).toBe('Story\n\nHistoire');
+  });
+
+  it('keeps one set of blanks and accepts short answers in either language', () => {
+    const blank = question('1', {
+      questionType: QuestionType.FILL_IN_BLANK,
+      question: 'Water boils at ___ °C',
+      choices: [],
+      answers: ['100'],
+      translation: { language: AppLanguage.FRENCH, question: "L'eau bout à ___ °C", choices: [], answers: ['100'] }
+    });
+    const short = question('2', {
+      questionType: QuestionType.SHORT_ANSWER,
+      choices: [],
+      answers: ['water'],
+      translation: { language: AppLanguage.FRENCH, question: 'Question deux', choices: [], answers: ['eau'] }
+    });
+
+    const [bilingualBlank, bilingualShort] = localizeResults([blank, short], [], 'bilingual').items;
+    expect(bilingualBlank.question).toBe("Water boils at ___ °C\n\nL'eau bout à … °C");
+    expect(bilingualShort.answers).toEqual(['water', 'eau']);
+  });
+});
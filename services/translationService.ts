@@ -0,0 +1,229 @@
+import { AppLanguage, McqData, Passage, QuestionTranslation, PassageTranslation, QuestionType, MatchingPair } from '../types';
+import { ExtractionProvider, JsonSchema } from './extractionProvider';
+import { generateWithRetry, stripJsonFences } from './extractionService';
+import { BLANK_PATTERN } from './questionTypes';
+import { normalizeRtlText } from './languageService';
+import { isAbortError } from './concurrency';
+
+// Translates extracted questions through the extraction provider. Only text is sent: choices
+// come back by position and answers stay letters, so a translation can never move the answer.
+
+// Questions per request; passages ride along with the first batch that uses them
+const TRANSLATION_BATCH_SIZE = 15;
+
+// Languages a set can be translated into
+export const TRANSLATION_LANGUAGES: AppLanguage[] = Object.values(AppLanguage).filter(language => language !== AppLanguage.AUTO);
+
+// Which text each export uses: the extracted text, its translation, or both together
+export type TranslationExportMode = 'original' | 'translation' | 'bilingual';
+
+export interface TranslationOutcome {
+  items: Map<string, QuestionTranslation>; // By question id
+  passages: Map<string, PassageTranslation>; // By passage id
+  failed: number; // Questions the model left out, returned with a different number of choices, or whose batch failed
+  cancelled: boolean; // Stopped by the signal; what finished before is kept
+}
+
+export interface TranslateOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+const stringArray: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const TRANSLATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    passages: {
+      type: 'array',
+      items: { type: 'object', properties: { key: { type: 'string' }, text: { type: 'string' } }, required: ['key', 'text'] }
+    },
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          key: { type: 'string' },
+          question: { type: 'string' },
+          choices: stringArray,
+          answers: stringArray,
+          pairs: {
+            type: 'array',
+            items: { type: 'object', properties: { prompt: { type: 'string' }, match: { type: 'string' } }, required: ['prompt', 'match'] }
+          }
+        },
+        required: ['key', 'question']
+      }
+    }
+  },
+  required: ['questions']
+};
+
+const translationInstruction = (target: AppLanguage) => `
+    You are a professional translator of exam questions. Translate every passage and question in the JSON input into ${target}.
+    RULES:
+    1. Return every key from the input exactly once, with the same keys.
+    2. ORDER: "choices", "answers" and "pairs" must have exactly as many entries as the input, in the same order. Never reorder, merge, drop or add options: the correct answer is stored by position.
+    3. KEEP AS WRITTEN: LaTeX math ($...$, $$...$$), code, figure markers like "[Figure 3.1]", blanks (___), Markdown marks (**, *, |), numbers, formulas, names and chemical symbols.
+    4. Translate the meaning for an exam in ${target}, not word by word. Do not answer, explain or simplify the questions.
+    5. Use Western digits (1, 2, 3).
+`;
+
+// Text already in the target language is kept as it is instead of being sent
+const copyOf = (item: McqData, language: AppLanguage): QuestionTranslation => ({
+  language,
+  question: item.question,
+  choices: [...item.choices],
+  answers: item.answers ? [...item.answers] : undefined,
+  pairs: item.pairs?.map(pair => ({ ...pair }))
+});
+
+const cleanText = (value: unknown): string => (typeof value === 'string' ? normalizeRtlText(value).trim() : '');
+
+// The model's translation of `item`, or null when it does not line up with the original
+const readQuestion = (raw: any, item: McqData, language: AppLanguage): QuestionTranslation | null => {
+  const question = cleanText(raw?.question);
+  const choices: string[] = Array.isArray(raw?.choices) ? raw.choices.map(cleanText) : [];
+  const answers: string[] = Array.isArray(raw?.answers) ? raw.answers.map(cleanText) : [];
+  const pairs: MatchingPair[] = Array.isArray(raw?.pairs) ? raw.pairs.map((pair: any) => ({ prompt: cleanText(pair?.prompt), match: cleanText(pair?.match) })) : [];
+  if (!question && item.question.trim()) return null;
+  if (choices.length !== item.choices.length) return null;
+  if (item.answers && answers.length !== item.answers.length) return null;
+  if (item.pairs && pairs.length !== item.pairs.length) return null;
+  return {
+    language,
+    question,
+    choices,
+    answers: item.answers ? answers : undefined,
+    pairs: item.pairs ? pairs : undefined
+  };
+};
+
+// Translates the questions that have no translation into `target` yet, and each passage they use
+// once. Questions already written in `target` are copied rather than sent. A batch that fails
+// counts its questions as failed and the rest carry on, so finished batches are never lost.
+export const translateResults = async (
+  provider: ExtractionProvider,
+  items: McqData[],
+  passages: Passage[],
+  target: AppLanguage,
+  options: TranslateOptions = {}
+): Promise<TranslationOutcome> => {
+  const outcome: TranslationOutcome = { items: new Map(), passages: new Map(), failed: 0, cancelled: false };
+  const passageById = new Map(passages.map(passage => [passage.id, passage]));
+  const pending = items.filter(item => item.translation?.language !== target);
+
+  const toSend = pending.filter(item => {
+    if (item.language !== target) return true;
+    outcome.items.set(item.id, copyOf(item, target));
+    return false;
+  });
+  const sentPassages = new Set<string>();
+
+  for (let start = 0; start < toSend.length; start += TRANSLATION_BATCH_SIZE) {
+    options.onProgress?.(start, toSend.length);
+    const batch = toSend.slice(start, start + TRANSLATION_BATCH_SIZE);
+    const batchPassages = batch
+      .map(item => (item.passageId ? passageById.get(item.passageId) : undefined))
+      .filter((passage, index, all): passage is Passage =>
+        !!passage && all.indexOf(passage) === index && passage.translation?.language !== target && !sentPassages.has(passage.id));
+    batchPassages.forEach(passage => sentPassages.add(passage.id));
+
+    const input = {
+      passages: batchPassages.map((passage, i) => ({ key: `P${i + 1}`, text: passage.text })),
+      questions: batch.map((item, i) => ({
+        key: `Q${i + 1}`,
+        question: item.question,
+        choices: item.choices,
+        ...(item.answers ? { answers: item.answers } : {}),
+        ...(item.pairs ? { pairs: item.pairs } : {})
+      }))
+    };
+
+    let parsed: any;
+    try {
+      const rawText = await generateWithRetry(provider, {
+        systemInstruction: translationInstruction(target),
+        parts: [{ text: JSON.stringify(input) }],
+        responseSchema: TRANSLATION_SCHEMA,
+        temperature: 0.2,
+        signal: options.signal
+      });
+      parsed = JSON.parse(stripJsonFences(rawText || '{}'));
+    } catch (error) {
+      if (options.signal?.aborted || isAbortError(error)) {
+        outcome.cancelled = true;
+        return outcome;
+      }
+      console.error('Translation batch failed', error);
+      outcome.failed += batch.length;
+      // A later batch sharing one of these passages sends it again
+      batchPassages.forEach(passage => sentPassages.delete(passage.id));
+      continue;
+    }
+    const byKey = (list: unknown, key: string) => (Array.isArray(list) ? list.find((entry: any) => entry?.key === key) : undefined);
+
+    batchPassages.forEach((passage, i) => {
+      const text = cleanText(byKey(parsed.passages, `P${i + 1}`)?.text);
+      if (text) outcome.passages.set(passage.id, { language: target, text });
+    });
+    batch.forEach((item, i) => {
+      const translation = readQuestion(byKey(parsed.questions, `Q${i + 1}`), item, target);
+      if (translation) outcome.items.set(item.id, translation);
+      else outcome.failed++;
+    });
+  }
+
+  options.onProgress?.(toSend.length, toSend.length);
+  return outcome;
+};
+
+// Blanks stay in the original only, so a bilingual fill-in-the-blank still has one per answer
+const withoutBlanks = (text: string): string => text.replace(BLANK_PATTERN, '…');
+
+const joinInline = (original: string, translated: string): string =>
+  !translated.trim() || translated.trim() === original.trim() ? original : `${original} / ${translated}`;
+
+const joinBlocks = (original: string, translated: string): string =>
+  !translated.trim() || translated.trim() === original.trim() ? original : `${original}\n\n${translated}`;
+
+const bilingualItem = (item: McqData, translation: QuestionTranslation): McqData => {
+  const question = item.questionType === QuestionType.FILL_IN_BLANK ? withoutBlanks(translation.question) : translation.question;
+  const answers = item.questionType === QuestionType.SHORT_ANSWER
+    // Either language is accepted
+    ? Array.from(new Set([...(item.answers || []), ...(translation.answers || [])].filter(answer => answer.trim())))
+    : item.answers;
+  return {
+    ...item,
+    question: joinBlocks(item.question, question),
+    choices: item.choices.map((choice, i) => joinInline(choice, translation.choices[i] || '')),
+    answers,
+    pairs: item.pairs?.map((pair, i) => ({
+      prompt: joinInline(pair.prompt, translation.pairs?.[i]?.prompt || ''),
+      match: joinInline(pair.match, translation.pairs?.[i]?.match || '')
+    }))
+  };
+};
+
+// The question as it reads in its translation, for exports and previews
+export const translatedItem = (item: McqData, translation: QuestionTranslation): McqData => ({
+  ...item,
+  question: translation.question,
+  choices: translation.choices,
+  answers: translation.answers ?? item.answers,
+  pairs: translation.pairs ?? item.pairs,
+  language: translation.language
+});
+
+// The questions and passages as an export should write them. Rows without a translation keep
+// their original text in every mode.
+export const localizeResults = (items: McqData[], passages: Passage[], mode: TranslationExportMode = 'original'): { items: McqData[]; passages: Passage[] } => {
+  if (mode === 'original') return { items, passages };
+  const bilingual = mode === 'bilingual';
+  return {
+    items: items.map(item => (item.translation ? (bilingual ? bilingualItem : translatedItem)(item, item.translation) : item)),
+    passages: passages.map(passage => (passage.translation
+      ? { ...passage, text: bilingual ? joinBlocks(passage.text, passage.translation.text) : passage.translation.text }
+      : passage))
+  };
+};
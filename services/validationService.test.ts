@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { McqData, QuestionType } from '../types';
+import { DEFAULT_VALIDATION_CONFIG, ValidationConfig, checkExport, validateItem, validateItems } from './validationService';
+
+const question = (overrides: Partial<McqData> = {}): McqData => ({
+  id: crypto.randomUUID(),
+  questionType: QuestionType.MULTIPLE_CHOICE,
+  question: 'Which gas do plants take in?',
+  choices: ['Oxygen', 'Carbon dioxide', 'Nitrogen', 'Helium'],
+  correctAnswer: 'B',
+  ...overrides
+});
+
+// The rule ids reported for `item`, in rule order
+const rulesHit = (item: McqData, config?: ValidationConfig) => validateItem(item, config).map(issue => issue.ruleId);
+
+const withRule = (ruleId: string, settings: Partial<ValidationConfig['rules'][string]>, overrides: Partial<ValidationConfig> = {}): ValidationConfig => ({
+  ...DEFAULT_VALIDATION_CONFIG,
+  ...overrides,
+  rules: { ...DEFAULT_VALIDATION_CONFIG.rules, [ruleId]: { ...DEFAULT_VALIDATION_CONFIG.rules[ruleId], ...settings } }
+});
+
+describe('validateItem', () => {
+  it('finds nothing wrong with a complete question', () => {
+    expect(validateItem(question())).toEqual([]);
+  });
+
+  it('flags an empty question and a missing answer as errors', () => {
+    expect(validateItem(question({ question: ' ', correctAnswer: '' }))).toEqual([
+      { ruleId: 'empty-question', severity: 'error', message: 'Question text is empty.' },
+      { ruleId: 'missing-answer', severity: 'error', message: 'No correct answer is set.' }
+    ]);
+  });
+
+  it('flags answers that point past the written choices', () => {
+    const issues = validateItem(question({ choices: ['Oxygen', 'Carbon dioxide', ''], correctAnswer: 'C,E' }));
+    expect(issues.filter(issue => issue.ruleId === 'answer-out-of-range').map(issue => issue.message)).toEqual([
+      'Answer C points to a choice that does not exist.',
+      'Answer E points to a choice that does not exist.'
+    ]);
+  });
+
+  it('checks the number of choices', () => {
+    expect(rulesHit(question({ choices: ['Oxygen'], correctAnswer: 'A' }))).toEqual(['too-few-choices']);
+    expect(rulesHit(question({ questionType: QuestionType.TRUE_FALSE, choices: ['True', 'False', 'Maybe'], correctAnswer: 'A' })))
+      .toEqual(['too-few-choices']);
+  });
+
+  it('names each empty choice', () => {
+    const issues = validateItem(question({ choices: ['Oxygen', '', 'Carbon dioxide', ' '], correctAnswer: 'C' }));
+    expect(issues.map(issue => issue.message)).toEqual(['Choice B is empty.', 'Choice D is empty.']);
+  });
+
+  it('warns about choices that differ only in case or punctuation', () => {
+    expect(validateItem(question({ choices: ['Oxygen', 'Carbon dioxide', 'oxygen.', 'Helium'] }))).toEqual([
+      { ruleId: 'duplicate-choices', severity: 'warning', message: 'Choices A and C are the same.' }
+    ]);
+  });
+
+  it('warns about numbering and choice labels left in the text', () => {
+    const issues = validateItem(question({ question: 'Q12. Which gas do plants take in?', choices: ['A) Oxygen', 'Carbon dioxide'] }));
+    expect(issues.map(issue => [issue.ruleId, issue.message])).toEqual([
+      ['numbering-prefix', 'Question still starts with "Q12.".'],
+      ['numbering-prefix', 'Choice A still starts with "A)".']
+    ]);
+    expect(rulesHit(question({ question: '3.5 is rounded to which whole number?' }))).toEqual([]);
+  });
+
+  it('warns about short questions using the configured length', () => {
+    expect(rulesHit(question({ question: 'pH?' }))).toEqual(['short-question']);
+    expect(rulesHit(question({ question: 'pH?' }), { ...DEFAULT_VALIDATION_CONFIG, minQuestionLength: 2 })).toEqual([]);
+  });
+
+  it('checks blanks against answers', () => {
+    const blank = (question: string, answers: string[]) =>
+      ({ id: '1', questionType: QuestionType.FILL_IN_BLANK, question, choices: [], correctAnswer: '', answers });
+    expect(validateItem(blank('Water boils at ___ and freezes at ___.', ['100 C'])).map(issue => issue.message)).toEqual(['2 blank(s) but 1 answer(s).']);
+    expect(validateItem(blank('Water boils at what temperature?', ['100 C'])).map(issue => issue.message)).toEqual(['No blank (___) is marked in the question.']);
+    expect(validateItem(blank('Water boils at ___.', ['100 C']))).toEqual([]);
+  });
+
+  it('warns when the answer differs from the answer key', () => {
+    expect(validateItem(question({ keyAnswer: 'C' }))).toEqual([
+      { ruleId: 'answer-key-conflict', severity: 'warning', message: 'The answer key says C.' }
+    ]);
+    expect(validateItem(question({ keyAnswer: 'b' }))).toEqual([]);
+  });
+
+  it('checks matching pairs', () => {
+    const matching = (pairs: [string, string][]) => question({
+      questionType: QuestionType.MATCHING,
+      question: 'Match each country with its capital.',
+      choices: [],
+      correctAnswer: '',
+      pairs: pairs.map(([prompt, match]) => ({ prompt, match }))
+    });
+    expect(validateItem(matching([['France', 'Paris']])).map(issue => issue.message)).toEqual(['Matching questions need at least two pairs.']);
+    expect(validateItem(matching([['France', 'Paris'], ['Italy', ''], ['', 'Lima']])).map(issue => issue.message))
+      .toEqual(['Pair 2 is missing its match.', 'Pair 3 is missing its prompt.']);
+  });
+
+  it('reports issues at the configured severity', () => {
+    const config = withRule('duplicate-choices', { severity: 'error' });
+    expect(validateItem(question({ choices: ['Oxygen', 'oxygen', 'Helium'] }), config)).toEqual([
+      { ruleId: 'duplicate-choices', severity: 'error', message: 'Choices A and B are the same.' }
+    ]);
+  });
+
+  it('skips disabled rules', () => {
+    const item = question({ question: '', correctAnswer: '' });
+    expect(rulesHit(item, withRule('empty-question', { enabled: false }))).toEqual(['missing-answer']);
+  });
+});
+
+describe('checkExport', () => {
+  const flawed = [question(), question({ correctAnswer: '' }), question({ choices: ['Oxygen', 'oxygen', 'Helium'] })];
+
+  it('lets an export through with only warnings, even when errors block it', () => {
+    const config = { ...DEFAULT_VALIDATION_CONFIG, blockExportOnErrors: true };
+    expect(checkExport(validateItems([flawed[0], flawed[2]], config), config)).toEqual({ errorCount: 0, erroredItems: 0, blocked: false });
+  });
+
+  it('blocks on errors only when the setting is on', () => {
+    expect(checkExport(validateItems(flawed), DEFAULT_VALIDATION_CONFIG)).toEqual({ errorCount: 1, erroredItems: 1, blocked: false });
+    const blocking = { ...DEFAULT_VALIDATION_CONFIG, blockExportOnErrors: true };
+    expect(checkExport(validateItems(flawed, blocking), blocking)).toEqual({ errorCount: 1, erroredItems: 1, blocked: true });
+  });
+
+  it('follows severity overrides and disabled rules', () => {
+    const downgraded = withRule('missing-answer', { severity: 'warning' }, { blockExportOnErrors: true });
+    expect(checkExport(validateItems(flawed, downgraded), downgraded).blocked).toBe(false);
+    const upgraded = withRule('duplicate-choices', { severity: 'error' }, { blockExportOnErrors: true });
+    expect(checkExport(validateItems(flawed, upgraded), upgraded)).toEqual({ errorCount: 2, erroredItems: 2, blocked: true });
+    const disabled = withRule('missing-answer', { enabled: false }, { blockExportOnErrors: true });
+    expect(checkExport(validateItems(flawed, disabled), disabled).blocked).toBe(false);
+  });
+});
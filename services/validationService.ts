@@ -0,0 +1,192 @@
+import { McqData, QuestionType, IssueSeverity, ValidationIssue, CHOICE_LETTERS, MIN_CHOICES } from '../types';
+import { normalizeText } from './resultMerger';
+import { countBlanks, hasAnswer, isChoiceType } from './questionTypes';
+import { conflictsWithKey } from './answerKeyService';
+
+export interface RuleSettings {
+  enabled: boolean;
+  severity: IssueSeverity;
+}
+
+export interface ValidationConfig {
+  rules: Record<string, RuleSettings>;
+  minQuestionLength: number; // Characters, after stripping punctuation
+  blockExportOnErrors: boolean;
+}
+
+export interface ValidationRule {
+  id: string;
+  label: string;
+  defaultSeverity: IssueSeverity;
+  // Returns a message per problem found, or nothing
+  check: (item: McqData, config: ValidationConfig) => string | string[] | null;
+}
+
+// Numbering the model failed to strip: "Q12.", "12)", "Question 3:"
+const NUMBER_PREFIX = /^\s*(?:q(?:uestion)?\s*[0-9٠-٩]+\s*[.):\-]?|[0-9٠-٩]+\s*[.):\-](?![0-9]))\s*/i;
+const CHOICE_PREFIX = /^\s*[(\[]?[A-Ha-h][)\].:]\s+/;
+
+// Raw letters in correctAnswer, including ones that point past the last choice
+const rawAnswerLetters = (item: McqData): string[] =>
+  item.correctAnswer.toUpperCase().split(/[^A-Z]+/).filter(letter => letter.length === 1);
+
+export const VALIDATION_RULES: ValidationRule[] = [
+  {
+    id: 'empty-question',
+    label: 'Question text is empty',
+    defaultSeverity: 'error',
+    check: item => (item.question.trim() ? null : 'Question text is empty.')
+  },
+  {
+    id: 'missing-answer',
+    label: 'No correct answer',
+    defaultSeverity: 'error',
+    check: item => (hasAnswer(item) || rawAnswerLetters(item).length > 0 ? null : 'No correct answer is set.')
+  },
+  {
+    id: 'answer-out-of-range',
+    label: 'Answer points to a missing choice',
+    defaultSeverity: 'error',
+    check: item => {
+      if (!isChoiceType(item.questionType)) return null;
+      return rawAnswerLetters(item)
+        .filter(letter => {
+          const index = CHOICE_LETTERS.indexOf(letter);
+          return index < 0 || index >= item.choices.length || !item.choices[index].trim();
+        })
+        .map(letter => `Answer ${letter} points to a choice that does not exist.`);
+    }
+  },
+  {
+    id: 'too-few-choices',
+    label: 'Too few choices',
+    defaultSeverity: 'error',
+    check: item => {
+      if (!isChoiceType(item.questionType)) return null;
+      const filled = item.choices.filter(choice => choice.trim()).length;
+      if (item.questionType === QuestionType.TRUE_FALSE && item.choices.length !== 2) return 'True/false questions need exactly two choices.';
+      return filled < MIN_CHOICES ? `Only ${filled} choice(s) have text.` : null;
+    }
+  },
+  {
+    id: 'empty-choice',
+    label: 'Empty choice',
+    defaultSeverity: 'error',
+    check: item => item.choices
+      .map((choice, i) => (choice.trim() ? null : `Choice ${CHOICE_LETTERS[i]} is empty.`))
+      .filter((message): message is string => !!message)
+  },
+  {
+    id: 'duplicate-choices',
+    label: 'Duplicate choices',
+    defaultSeverity: 'warning',
+    check: item => {
+      const seen = new Map<string, number>();
+      const messages: string[] = [];
+      item.choices.forEach((choice, i) => {
+        const key = normalizeText(choice);
+        if (!key) return;
+        if (seen.has(key)) messages.push(`Choices ${CHOICE_LETTERS[seen.get(key)!]} and ${CHOICE_LETTERS[i]} are the same.`);
+        else seen.set(key, i);
+      });
+      return messages;
+    }
+  },
+  {
+    id: 'numbering-prefix',
+    label: 'Leftover numbering or labels',
+    defaultSeverity: 'warning',
+    check: item => {
+      const messages: string[] = [];
+      const prefix = item.question.match(NUMBER_PREFIX);
+      if (prefix) messages.push(`Question still starts with "${prefix[0].trim()}".`);
+      item.choices.forEach((choice, i) => {
+        const label = choice.match(CHOICE_PREFIX);
+        if (label) messages.push(`Choice ${CHOICE_LETTERS[i]} still starts with "${label[0].trim()}".`);
+      });
+      return messages;
+    }
+  },
+  {
+    id: 'short-question',
+    label: 'Suspiciously short question',
+    defaultSeverity: 'warning',
+    check: (item, config) => {
+      const length = normalizeText(item.question).length;
+      return length > 0 && length < config.minQuestionLength ? `Question is only ${length} characters long.` : null;
+    }
+  },
+  {
+    id: 'blank-mismatch',
+    label: 'Blanks and answers do not line up',
+    defaultSeverity: 'warning',
+    check: item => {
+      if (item.questionType !== QuestionType.FILL_IN_BLANK) return null;
+      const blanks = countBlanks(item.question);
+      const answers = (item.answers || []).filter(answer => answer.trim()).length;
+      if (blanks === 0) return 'No blank (___) is marked in the question.';
+      return blanks !== answers ? `${blanks} blank(s) but ${answers} answer(s).` : null;
+    }
+  },
+  {
+    id: 'answer-key-conflict',
+    label: 'Answer differs from the answer key',
+    defaultSeverity: 'warning',
+    check: item => (conflictsWithKey(item) ? `The answer key says ${item.keyAnswer}.` : null)
+  },
+  {
+    id: 'incomplete-pairs',
+    label: 'Incomplete matching pairs',
+    defaultSeverity: 'error',
+    check: item => {
+      if (item.questionType !== QuestionType.MATCHING) return null;
+      const pairs = item.pairs || [];
+      if (pairs.length < 2) return 'Matching questions need at least two pairs.';
+      return pairs
+        .map((pair, i) => (pair.prompt.trim() && pair.match.trim() ? null : `Pair ${i + 1} is missing its ${pair.prompt.trim() ? 'match' : 'prompt'}.`))
+        .filter((message): message is string => !!message);
+    }
+  }
+];
+
+export const DEFAULT_VALIDATION_CONFIG: ValidationConfig = {
+  rules: Object.fromEntries(VALIDATION_RULES.map(rule => [rule.id, { enabled: true, severity: rule.defaultSeverity }])),
+  minQuestionLength: 10,
+  blockExportOnErrors: false
+};
+
+export const validateItem = (item: McqData, config: ValidationConfig = DEFAULT_VALIDATION_CONFIG): ValidationIssue[] =>
+  VALIDATION_RULES.flatMap(rule => {
+    const settings = config.rules[rule.id] ?? { enabled: true, severity: rule.defaultSeverity };
+    if (!settings.enabled) return [];
+    const result = rule.check(item, config);
+    const messages = result === null ? [] : Array.isArray(result) ? result : [result];
+    return messages.map(message => ({ ruleId: rule.id, severity: settings.severity, message }));
+  });
+
+// Issues per item id; items without issues are left out
+export const validateItems = (items: McqData[], config: ValidationConfig = DEFAULT_VALIDATION_CONFIG): Map<string, ValidationIssue[]> => {
+  const issues = new Map<string, ValidationIssue[]>();
+  items.forEach(item => {
+    const found = validateItem(item, config);
+    if (found.length > 0) issues.set(item.id, found);
+  });
+  return issues;
+};
+
+export const countIssues = (issues: Map<string, ValidationIssue[]>, severity: IssueSeverity): number =>
+  Array.from(issues.values()).reduce((total, list) => total + list.filter(issue => issue.severity === severity).length, 0);
+
+export interface ExportCheck {
+  errorCount: number;
+  erroredItems: number;
+  // Errors stop the export outright instead of asking first
+  blocked: boolean;
+}
+
+// Only errors stand in the way of an export; warnings never do
+export const checkExport = (issues: Map<string, ValidationIssue[]>, config: ValidationConfig): ExportCheck => {
+  const errorCount = countIssues(issues, 'error');
+  const erroredItems = Array.from(issues.values()).filter(list => list.some(issue => issue.severity === 'error')).length;
+  return { errorCount, erroredItems, blocked: errorCount > 0 && config.blockExportOnErrors };
+};
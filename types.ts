@@ -1,13 +1,157 @@
+export enum QuestionType {
+  MULTIPLE_CHOICE = 'multiple-choice',
+  MULTIPLE_SELECT = 'multiple-select',
+  TRUE_FALSE = 'true-false',
+  FILL_IN_BLANK = 'fill-in-blank',
+  MATCHING = 'matching',
+  SHORT_ANSWER = 'short-answer'
+}
+
+// What the correct answer was read from
+export enum AnswerEvidence {
+  HIGHLIGHT = 'highlight', // Background colour behind the option
+  MARK = 'mark', // Checkmark, circle or coloured text
+  STYLE = 'style', // The only bold or underlined option
+  ANSWER_KEY = 'answer-key', // An answer line or key table in the document
+  INFERRED = 'inferred', // No marking; the model worked the answer out itself
+  NONE = 'none'
+}
+
+// Question content: a Markdown subset (bold, italic, code, pipe tables) with LaTeX math in
+// $...$ or $$...$$, e.g. "Solve $x^2 + 3x = 4$". See services/richText.ts.
+export type RichText = string;
+
+// One row of a matching question: `prompt` is matched with `match`
+export interface MatchingPair {
+  prompt: RichText;
+  match: RichText;
+}
+
 export interface McqData {
   id: string;
-  question: string;
-  choiceA: string;
-  choiceB: string;
-  choiceC: string;
-  choiceD: string;
-  choiceE?: string;
-  correctAnswer: string; // "A", "B", "C", "D", or "E"
-  passage?: string;
+  questionType: QuestionType;
+  question: RichText; // Fill-in-the-blank marks each blank with ___
+  choices: RichText[]; // Choice types only, in document order, MIN_CHOICES to MAX_CHOICES long
+  // Letter of the correct choice ("A"-"H"), comma-separated letters for multiple-select
+  // ("A,C"), empty if unknown or not a choice type. True/false: A is true, B is false.
+  correctAnswer: string;
+  answers?: RichText[]; // Fill-in-the-blank: one per blank, in order. Short answer: accepted answers
+  pairs?: MatchingPair[]; // Matching only
+  answerEvidence?: AnswerEvidence;
+  confidence?: number; // 0-1, how sure the extractor is of the question and its answer
+  questionNumber?: string; // Number printed in the document, in Western digits
+  keyAnswer?: string; // What the matched answer key says, written like the item's own answer
+  keyFilled?: boolean; // The answer was taken from the key, so it goes if the key entry does
+  evidenceBeforeKey?: AnswerEvidence; // answerEvidence before the key filled the answer, restored with it
+  passageId?: string; // References a Passage shared by several questions
+  sourceFile?: string; // Name of the uploaded file the question was extracted from, for display
+  sourceId?: string; // Queue item of that file; two uploads with the same name are told apart by it
+  source?: SourceRange;
+  figures?: FigureLink[];
+  language?: AppLanguage; // Detected from the question's own text, never AUTO
+  translation?: QuestionTranslation;
+  // Classification for the LMS, from the tagging pass or typed in
+  topic?: string; // Path in the topic taxonomy, levels separated by "/" ("Algebra/Quadratics")
+  difficulty?: Difficulty;
+  bloomLevel?: BloomLevel;
+}
+
+export enum Difficulty {
+  EASY = 'easy',
+  MEDIUM = 'medium',
+  HARD = 'hard'
+}
+
+// Cognitive levels of the revised Bloom's taxonomy, lowest first
+export enum BloomLevel {
+  REMEMBER = 'remember',
+  UNDERSTAND = 'understand',
+  APPLY = 'apply',
+  ANALYZE = 'analyze',
+  EVALUATE = 'evaluate',
+  CREATE = 'create'
+}
+
+// The question's text in another language. Choices and pairs line up with the original by
+// position, so `correctAnswer` holds for both.
+export interface QuestionTranslation {
+  language: AppLanguage;
+  question: RichText;
+  choices: RichText[];
+  answers?: RichText[];
+  pairs?: MatchingPair[];
+}
+
+// Choices are addressed by position; letters follow the order of `choices`
+export const CHOICE_LETTERS = 'ABCDEFGH';
+export const MIN_CHOICES = 2; // True/false
+export const MAX_CHOICES = CHOICE_LETTERS.length;
+
+// Reading passage or shared context, stored once and referenced by questions
+export interface Passage {
+  id: string;
+  text: RichText;
+  sourceFile?: string;
+  sourceId?: string;
+  translation?: PassageTranslation;
+}
+
+export interface PassageTranslation {
+  language: AppLanguage;
+  text: RichText;
+}
+
+// An image or diagram from a source document, stored once and referenced by questions
+export interface Figure {
+  id: string;
+  // Stands in for the figure in the text sent to the model: "[Figure 3.1]" is the first figure
+  // on page or slide 3, "[Figure 7]" the seventh image of a Word or ODT file
+  label: string;
+  mimeType: string;
+  data: string; // Base64
+  sourceFile?: string;
+  sourceId?: string;
+}
+
+// Shows a figure with its question, or with one of its choices
+export interface FigureLink {
+  figureId: string;
+  choice?: number; // Index into `choices`
+}
+
+// One entry of an answer key ("12-B"), matched to questions by number
+export interface AnswerKeyEntry {
+  number: string;
+  answer: string; // Letters ("B", "A,C"), T/F for true/false words, or the answer text
+  sourceFile?: string;
+  sourceId?: string;
+  separateFile?: boolean; // Read from an uploaded key file, so it applies to the other files
+  source?: SourceRange; // Where the entry was read, to tell a re-read overlap from a restarted section
+}
+
+export interface ExtractionResult {
+  items: McqData[];
+  passages: Passage[];
+  answerKey?: AnswerKeyEntry[];
+  figures?: Figure[];
+}
+
+// Where in the original document an item came from
+export interface SourceRange {
+  kind: 'pdf' | 'docx' | 'image' | 'pptx' | 'odt' | 'text';
+  start: number; // First PDF page, slide, ODT page, photo, or DOCX/text chunk (1-based)
+  end: number;
+  paragraphStart?: number; // DOCX and text chunks, or within an oversized slide/page (1-based)
+  paragraphEnd?: number;
+}
+
+export type IssueSeverity = 'error' | 'warning';
+
+// A problem found on an extracted question by the validation rules
+export interface ValidationIssue {
+  ruleId: string;
+  severity: IssueSeverity;
+  message: string;
 }
 
 export interface ProcessingStatus {
@@ -20,11 +164,130 @@ export interface ProcessingStatus {
 export enum DocType {
   PDF = 'pdf',
   DOCX = 'docx',
+  IMAGE = 'image', // Photos or scans of pages
+  PPTX = 'pptx',
+  ODT = 'odt',
+  TEXT = 'text',
+  MARKDOWN = 'markdown',
   UNKNOWN = 'unknown'
 }
 
 export enum AppLanguage {
   AUTO = 'Auto',
   ENGLISH = 'English',
-  ARABIC = 'Arabic'
+  ARABIC = 'Arabic',
+  FRENCH = 'French',
+  URDU = 'Urdu',
+  PERSIAN = 'Persian'
+}
+
+export enum ProviderKind {
+  GEMINI = 'gemini',
+  OPENAI_COMPATIBLE = 'openai-compatible',
+  FIXTURE = 'fixture'
+}
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible endpoints only (e.g. http://localhost:11434/v1)
+  apiKey?: string;
+}
+
+// A single unit of document content sent to the model (base64 payload)
+export interface PageContent {
+  data: string;
+  mimeType: string;
+  source?: SourceRange;
+  figures?: Figure[]; // Figures marked in `data`, as text or as labels drawn on the image; never sent to the model
+}
+
+export enum PdfProcessingMode {
+  HYBRID = 'hybrid', // Text layer where usable, images for scanned pages
+  IMAGES = 'images'
+}
+
+export type PageExtractionPath = 'text' | 'image';
+
+// Clean-up applied to photos and scanned PDF pages before they are sent to the model
+export interface ImagePreprocessing {
+  enabled: boolean;
+  deskew: boolean; // Straighten tilted pages; photo orientation (EXIF) is always applied
+  crop: boolean; // Trim the desk or scanner border around the page
+  normalizeContrast: boolean; // Stretch faded scans to full contrast, keeping colours
+  grayscale: boolean; // Also drops highlight colours, which are answer signals
+  maxDimension: number; // Longest side in pixels
+}
+
+export interface PdfPage extends PageContent {
+  pageNumber: number;
+  path: PageExtractionPath;
+}
+
+// A slice of the mammoth HTML, cut at paragraph boundaries
+export interface DocxChunk {
+  html: string;
+  paragraphStart: number;
+  paragraphEnd: number;
+  figures?: Figure[];
+}
+
+// One slide of a presentation or page of an ODT document, as HTML
+export interface DocumentSection {
+  number: number; // 1-based
+  html: string;
+  figures?: Figure[];
+}
+
+// Consecutive sections sent as one chunk. A section too long for one chunk is split by
+// paragraph, and its pieces carry the paragraph range.
+export interface SectionChunk {
+  html: string;
+  start: number;
+  end: number;
+  paragraphStart?: number;
+  paragraphEnd?: number;
+  figures?: Figure[];
+}
+
+export type ChunkStatus = 'ok' | 'partial' | 'failed';
+
+// Why a chunk came back failed or partial
+export enum ChunkFailureReason {
+  QUOTA = 'quota', // Rate limit or exhausted quota
+  SAFETY = 'safety', // Blocked by the provider's content filters
+  TRUNCATED = 'truncated', // The response was cut off before the end
+  PARSE = 'parse', // The response was not the requested JSON
+  EMPTY = 'empty', // The provider returned nothing
+  AUTH = 'auth', // Missing or rejected API key
+  NETWORK = 'network', // Provider unreachable or temporarily unavailable
+  UNKNOWN = 'unknown'
+}
+
+// Outcome of one chunk (page group) of a file
+export interface ChunkReport {
+  index: number;
+  status: ChunkStatus;
+  reason?: ChunkFailureReason;
+  message?: string;
+  questionCount: number;
+  source?: SourceRange;
+}
+
+export type QueueItemStatus = 'queued' | 'processing' | 'complete' | 'error' | 'cancelled';
+
+// One uploaded file in the batch queue
+export interface QueueItem {
+  id: string;
+  file: File;
+  status: QueueItemStatus;
+  total: number;
+  current: number;
+  message?: string;
+  pages?: Pick<PdfPage, 'pageNumber' | 'path'>[]; // How each PDF page was read, filled in as pages stream
+  isAnswerKey?: boolean; // Only holds the answer key for the other files
+  pageFiles?: File[]; // Photos uploaded together as the pages of one document, in order (`file` is the first)
+  pageHashes?: string[]; // Session store keys of pageFiles
+  hash?: string; // SHA-256 of the content, the file's key in the session store
+  chunks?: ChunkReport[]; // Chunks attempted so far; an interrupted run resumes with the rest
 }